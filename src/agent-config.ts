@@ -0,0 +1,514 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import { isDeepStrictEqual } from 'util';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { BlueprintsAPIClient } from './blueprints-api.js';
+import { ToolError } from './errors.js';
+import {
+  JSONPatchOperation,
+  applyJsonPatch,
+  applyMergePatch,
+  diffJson,
+  jsonChangeSchema,
+  jsonPatchOperationSchema,
+} from './json-patch.js';
+
+export interface FieldSpec {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'any';
+  required?: boolean;
+  enum?: Array<string | number | boolean>;
+  // Bounds on numbers, or on the length of strings and arrays
+  min?: number;
+  max?: number;
+  // Regular expression strings must match
+  pattern?: string;
+  // Element type of arrays
+  items?: FieldSpec;
+  // Known keys of objects
+  fields?: Record<string, FieldSpec>;
+  // Reject object keys not listed in `fields`, which catches misspelt keys
+  strict?: boolean;
+}
+
+const fieldSpecSchema: z.ZodType<FieldSpec> = z.lazy(() =>
+  z.object({
+    type: z.enum(['string', 'number', 'integer', 'boolean', 'object', 'array', 'any']),
+    required: z.boolean().optional(),
+    enum: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    pattern: z.string().optional(),
+    items: fieldSpecSchema.optional(),
+    fields: z.record(fieldSpecSchema).optional(),
+    strict: z.boolean().optional(),
+  })
+);
+
+const frameworkSchemaSchema = z.object({
+  strict: z.boolean().default(true),
+  fields: z.record(fieldSpecSchema),
+});
+
+export const configSchemasSchema = z.object({
+  // Keyed by framework; `*` applies to frameworks not listed
+  frameworks: z.record(frameworkSchemaSchema),
+});
+
+export type ConfigSchemasConfig = z.input<typeof configSchemasSchema>;
+
+/**
+ * Used for every framework unless a schema file says otherwise. Only checks the types
+ * of keys most frameworks share, and lets anything else through.
+ */
+export const DEFAULT_CONFIG_SCHEMAS: ConfigSchemasConfig = {
+  frameworks: {
+    '*': {
+      strict: false,
+      fields: {
+        model: { type: 'string', min: 1 },
+        temperature: { type: 'number', min: 0, max: 2 },
+        max_tokens: { type: 'integer', min: 1 },
+        system_prompt: { type: 'string' },
+      },
+    },
+  },
+};
+
+const configIssueSchema = z.object({
+  // JSON Pointer to the offending value
+  path: z.string(),
+  message: z.string(),
+});
+
+export type ConfigIssue = z.infer<typeof configIssueSchema>;
+
+function toZod(spec: FieldSpec): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (spec.type) {
+    case 'string': {
+      let string = z.string();
+      if (spec.min !== undefined) string = string.min(spec.min);
+      if (spec.max !== undefined) string = string.max(spec.max);
+      if (spec.pattern !== undefined) string = string.regex(new RegExp(spec.pattern));
+      schema = string;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      let number = spec.type === 'integer' ? z.number().int() : z.number();
+      if (spec.min !== undefined) number = number.min(spec.min);
+      if (spec.max !== undefined) number = number.max(spec.max);
+      schema = number;
+      break;
+    }
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    case 'array': {
+      let array = z.array(spec.items ? toZod(spec.items) : z.any());
+      if (spec.min !== undefined) array = array.min(spec.min);
+      if (spec.max !== undefined) array = array.max(spec.max);
+      schema = array;
+      break;
+    }
+    case 'object':
+      schema = objectSchema(spec.fields ?? {}, spec.strict ?? false);
+      break;
+    case 'any':
+      schema = z.any();
+      break;
+  }
+
+  if (spec.enum) {
+    const allowed = spec.enum;
+    schema = schema.refine((value) => allowed.includes(value), {
+      message: `Expected one of ${allowed.map((value) => JSON.stringify(value)).join(', ')}`,
+    });
+  }
+  return spec.required ? schema : schema.optional();
+}
+
+function objectSchema(fields: Record<string, FieldSpec>, strict: boolean): z.ZodTypeAny {
+  const shape = z.object(Object.fromEntries(Object.entries(fields).map(([key, spec]) => [key, toZod(spec)])));
+  return strict ? shape.strict() : shape.passthrough();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Validates agent configs against the schema for their framework
+ */
+export class ConfigSchemas {
+  private config: z.infer<typeof configSchemasSchema>;
+  private compiled: Map<string, z.ZodTypeAny> = new Map();
+
+  constructor(config: ConfigSchemasConfig = DEFAULT_CONFIG_SCHEMAS) {
+    this.config = configSchemasSchema.parse(config);
+  }
+
+  /**
+   * Frameworks with a schema of their own
+   */
+  frameworks(): string[] {
+    return Object.keys(this.config.frameworks).filter((framework) => framework !== '*');
+  }
+
+  validate(framework: string, config: Record<string, any>): ConfigIssue[] {
+    const spec = this.config.frameworks[framework] ?? this.config.frameworks['*'];
+    if (!spec) {
+      return [];
+    }
+
+    let schema = this.compiled.get(framework);
+    if (!schema) {
+      schema = objectSchema(spec.fields, spec.strict);
+      this.compiled.set(framework, schema);
+    }
+
+    const result = schema.safeParse(config);
+    if (result.success) {
+      return [];
+    }
+    return result.error.issues.map((issue) => ({
+      path: issue.path.map((token) => '/' + String(token)).join(''),
+      message: issue.code === 'unrecognized_keys' ? this.unknownKeysMessage(spec.fields, issue.path, issue.keys) : issue.message,
+    }));
+  }
+
+  /**
+   * Names the unknown keys, suggesting the known key each one is closest to
+   */
+  private unknownKeysMessage(fields: Record<string, FieldSpec>, path: Array<string | number>, keys: string[]): string {
+    let known = fields;
+    for (const token of path) {
+      known = known[String(token)]?.fields ?? {};
+    }
+
+    return keys
+      .map((key) => {
+        const closest = Object.keys(known)
+          .map((candidate) => ({ candidate, distance: editDistance(key, candidate) }))
+          .sort((a, b) => a.distance - b.distance)[0];
+        return closest && closest.distance <= 2
+          ? `Unknown key ${key} (did you mean ${closest.candidate}?)`
+          : `Unknown key ${key}`;
+      })
+      .join('; ');
+  }
+}
+
+const configVersionSchema = z.object({
+  version: z.number(),
+  config: z.record(z.any()),
+  saved_at: z.string(),
+  // `observed` versions were found on the agent, having been set outside this server
+  source: z.enum(['create', 'edit', 'bulk_edit', 'blueprint', 'rollback', 'observed']),
+});
+
+export type ConfigVersion = z.infer<typeof configVersionSchema>;
+
+export const configHistorySchema = z.object({
+  agent_id: z.string(),
+  // Newest first
+  versions: z.array(configVersionSchema),
+});
+
+/**
+ * The last few configs of each agent, oldest first, kept in memory and optionally
+ * written to a JSON file so they survive restarts
+ */
+export class ConfigHistory {
+  private versions: Map<string, ConfigVersion[]> = new Map();
+
+  constructor(private limit: number = 10, private filePath?: string) {
+    if (filePath && existsSync(filePath)) {
+      const saved: Record<string, ConfigVersion[]> = JSON.parse(readFileSync(filePath, 'utf8'));
+      this.versions = new Map(Object.entries(saved));
+    }
+  }
+
+  list(agentId: string): ConfigVersion[] {
+    return this.versions.get(agentId) ?? [];
+  }
+
+  record(agentId: string, config: Record<string, any>, source: ConfigVersion['source']): ConfigVersion {
+    const versions = this.list(agentId);
+    const entry: ConfigVersion = {
+      version: (versions[versions.length - 1]?.version ?? 0) + 1,
+      config,
+      saved_at: new Date().toISOString(),
+      source,
+    };
+    this.versions.set(agentId, [...versions, entry].slice(-this.limit));
+    this.save();
+    return entry;
+  }
+
+  /**
+   * Records the config found on the agent unless it is the latest version already
+   */
+  observe(agentId: string, config: Record<string, any>): void {
+    const latest = this.list(agentId).at(-1);
+    if (!latest || !isDeepStrictEqual(latest.config, config)) {
+      this.record(agentId, config, 'observed');
+    }
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.versions)));
+    }
+  }
+}
+
+/**
+ * Arguments of the tools that change a config; exactly one must be given
+ */
+export const configUpdateShape = {
+  config: z.record(z.any()).optional().describe('Top-level keys to set. Each replaces the agent\'s value for that key.'),
+  merge_patch: z.record(z.any()).optional().describe('JSON Merge Patch (RFC 7396): nested objects merge and null removes a key.'),
+  json_patch: z.array(jsonPatchOperationSchema).optional().describe('JSON Patch (RFC 6902) operations.'),
+};
+
+export interface ConfigUpdate {
+  config?: Record<string, any>;
+  merge_patch?: Record<string, any>;
+  json_patch?: JSONPatchOperation[];
+}
+
+/**
+ * The config after an update in any of the supported forms
+ */
+export function applyConfigUpdate(current: Record<string, any>, update: ConfigUpdate): Record<string, any> {
+  const given = [update.config, update.merge_patch, update.json_patch].filter((value) => value !== undefined);
+  if (given.length !== 1) {
+    throw new ToolError('Give exactly one of config, merge_patch or json_patch');
+  }
+
+  if (update.config) {
+    return { ...current, ...update.config };
+  }
+  if (update.merge_patch) {
+    return applyMergePatch(current, update.merge_patch);
+  }
+  return applyJsonPatch(current, update.json_patch!);
+}
+
+/**
+ * Top-level keys whose values differ; keys missing from `desired` change to null,
+ * which clears them on the backend
+ */
+export function topLevelChanges(current: Record<string, any>, desired: Record<string, any>) {
+  const keys = new Set([...Object.keys(current), ...Object.keys(desired)]);
+  return [...keys]
+    .filter((key) => !isDeepStrictEqual(current[key], desired[key]))
+    .map((key) => ({ key, from: current[key], to: desired[key] ?? null }));
+}
+
+/**
+ * The backend replaces top-level keys, so send each key that changed in full
+ */
+function backendPatch(current: Record<string, any>, next: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(topLevelChanges(current, next).map((change) => [change.key, change.to]));
+}
+
+export const configPreviewSchema = z.object({
+  agent_id: z.string(),
+  framework: z.string(),
+  valid: z.boolean(),
+  issues: z.array(configIssueSchema),
+  changes: z.array(jsonChangeSchema),
+  // The whole config as it would be after the update
+  config: z.record(z.any()),
+});
+
+export type ConfigPreview = z.infer<typeof configPreviewSchema>;
+
+/**
+ * Result of an edit or rollback
+ */
+export const configChangeSchema = z.object({
+  agent_id: z.string(),
+  // The recorded version; absent when nothing changed
+  version: z.number().optional(),
+  changes: z.array(jsonChangeSchema),
+  // For rollbacks, the version whose config was restored
+  restored_version: z.number().optional(),
+});
+
+export type ConfigChange = z.infer<typeof configChangeSchema>;
+
+export interface AgentConfigOptions {
+  // Per-framework schemas configs are validated against; defaults to DEFAULT_CONFIG_SCHEMAS
+  schemas?: ConfigSchemasConfig;
+  // Versions kept per agent
+  historySize?: number;
+  // Where history is saved; kept in memory only when unset
+  historyFile?: string;
+  // Shared with other editors, e.g. one per backend identity; built from historySize and
+  // historyFile when unset
+  history?: ConfigHistory;
+  // Prefix of this editor's entries in a shared history, keeping identities apart
+  historyScope?: string;
+}
+
+/**
+ * Validates, previews, records and rolls back agent config changes
+ */
+export class AgentConfigEditor {
+  private schemas: ConfigSchemas;
+  private history: ConfigHistory;
+  private historyScope: string | undefined;
+
+  constructor(private apiClient: BlueprintsAPIClient, options: AgentConfigOptions = {}) {
+    this.schemas = new ConfigSchemas(options.schemas);
+    this.history = options.history ?? new ConfigHistory(options.historySize, options.historyFile);
+    this.historyScope = options.historyScope;
+  }
+
+  /**
+   * Throws a ToolError listing the problems when the config does not fit its framework's schema
+   */
+  validate(framework: string, config: Record<string, any>): void {
+    const issues = this.schemas.validate(framework, config);
+    if (issues.length > 0) {
+      throw new ToolError(
+        `Invalid ${framework} config: ${issues.map((issue) => `${issue.path || '/'}: ${issue.message}`).join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Notes the config of an agent this server just created
+   */
+  created(agentId: string, config: Record<string, any>): void {
+    this.history.record(this.historyKey(agentId), config, 'create');
+  }
+
+  async preview(agentId: string, update: ConfigUpdate): Promise<ConfigPreview> {
+    const agent = await this.apiClient.getAgent(agentId);
+    const current = agent.config ?? {};
+    const config = applyConfigUpdate(current, update);
+    const issues = this.schemas.validate(agent.framework, config);
+
+    return {
+      agent_id: agentId,
+      framework: agent.framework,
+      valid: issues.length === 0,
+      issues,
+      changes: diffJson(current, config),
+      config,
+    };
+  }
+
+  async edit(agentId: string, update: ConfigUpdate, source: ConfigVersion['source'] = 'edit'): Promise<ConfigChange> {
+    const agent = await this.apiClient.getAgent(agentId);
+    const current = agent.config ?? {};
+    const config = applyConfigUpdate(current, update);
+    this.validate(agent.framework, config);
+    return this.write(agentId, current, config, source);
+  }
+
+  /**
+   * Replaces the agent's whole config, clearing keys the new one does not set
+   */
+  async replace(agentId: string, config: Record<string, any>, source: ConfigVersion['source']): Promise<ConfigChange> {
+    const agent = await this.apiClient.getAgent(agentId);
+    this.validate(agent.framework, config);
+    return this.write(agentId, agent.config ?? {}, config, source);
+  }
+
+  /**
+   * Frameworks the configured schemas know about
+   */
+  frameworks(): string[] {
+    return this.schemas.frameworks();
+  }
+
+  /**
+   * Versions of the agent's config, newest first
+   */
+  versions(agentId: string): ConfigVersion[] {
+    return [...this.history.list(this.historyKey(agentId))].reverse();
+  }
+
+  /**
+   * Restores a recorded version; by default the newest one that differs from the
+   * agent's current config
+   */
+  async rollback(agentId: string, version?: number): Promise<ConfigChange> {
+    const current = (await this.apiClient.getAgent(agentId)).config ?? {};
+    const versions = this.versions(agentId);
+
+    const target =
+      version === undefined
+        ? versions.find((entry) => !isDeepStrictEqual(entry.config, current))
+        : versions.find((entry) => entry.version === version);
+    if (!target) {
+      throw new ToolError(
+        version === undefined
+          ? `No earlier config is recorded for agent ${agentId}`
+          : `Version ${version} is not recorded for agent ${agentId}; call get_agent_config_history to list versions`
+      );
+    }
+
+    return { ...(await this.write(agentId, current, target.config, 'rollback')), restored_version: target.version };
+  }
+
+  private async write(
+    agentId: string,
+    current: Record<string, any>,
+    config: Record<string, any>,
+    source: ConfigVersion['source']
+  ): Promise<ConfigChange> {
+    const changes = diffJson(current, config);
+    if (changes.length === 0) {
+      return { agent_id: agentId, changes };
+    }
+
+    // Keep what was there before, in case it was set outside this server
+    this.history.observe(this.historyKey(agentId), current);
+    await this.apiClient.editAgentConfig(agentId, backendPatch(current, config));
+    const entry = this.history.record(this.historyKey(agentId), config, source);
+    return { agent_id: agentId, version: entry.version, changes };
+  }
+
+  private historyKey(agentId: string): string {
+    return this.historyScope ? `${this.historyScope}/${agentId}` : agentId;
+  }
+}
+
+/**
+ * Config validation and history options from the environment: MCP_CONFIG_SCHEMA_FILE
+ * (JSON or YAML schemas), MCP_CONFIG_HISTORY_SIZE and MCP_CONFIG_HISTORY_FILE
+ */
+export function agentConfigOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AgentConfigOptions {
+  const options: AgentConfigOptions = {};
+
+  const schemaFile = env.MCP_CONFIG_SCHEMA_FILE;
+  if (schemaFile) {
+    const raw = readFileSync(schemaFile, 'utf8');
+    const ext = extname(schemaFile).toLowerCase();
+    options.schemas = configSchemasSchema.parse(ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw));
+  }
+
+  if (env.MCP_CONFIG_HISTORY_SIZE) {
+    options.historySize = Number(env.MCP_CONFIG_HISTORY_SIZE);
+  }
+  if (env.MCP_CONFIG_HISTORY_FILE) {
+    options.historyFile = env.MCP_CONFIG_HISTORY_FILE;
+  }
+
+  return options;
+}
@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { AgentData, agentDataSchema } from './blueprints-api.js';
+import { agentSelectorSchema, matchesSelector } from './fleet.js';
+import { ErrorCode, JSONRPCError } from './jsonrpc.js';
+
+const AGENT_FIELDS = ['id', 'name', 'framework', 'status', 'project_id', 'config', 'created_at', 'updated_at'] as const;
+
+const timestamp = z.string().datetime({ offset: true });
+
+/**
+ * Arguments of list_agents
+ */
+export const agentQueryShape = {
+  ...agentSelectorSchema.shape,
+  search: z.string().optional().describe('Case-insensitive text the agent name must contain.'),
+  created_after: timestamp.optional(),
+  created_before: timestamp.optional(),
+  updated_after: timestamp.optional(),
+  updated_before: timestamp.optional(),
+  sort: z.enum(['name', 'status', 'framework', 'created_at', 'updated_at']).default('name'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  fields: z.array(z.enum(AGENT_FIELDS)).min(1).optional().describe('Only return these fields; id is always included.'),
+  limit: z.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional().describe('nextCursor from the previous page.'),
+};
+
+const agentQuerySchema = z.object(agentQueryShape);
+
+export type AgentQuery = z.infer<typeof agentQuerySchema>;
+
+export const agentPageSchema = z.object({
+  // Only the requested fields, plus id
+  agents: z.array(agentDataSchema.partial().required({ id: true })),
+  // Agents matching the filters, across all pages
+  total: z.number(),
+  // Set when there are more agents; pass it back as cursor
+  nextCursor: z.string().optional(),
+});
+
+export type AgentPage = z.infer<typeof agentPageSchema>;
+
+/**
+ * Fingerprint of the filters and sort order, so a cursor is only used with the query
+ * that produced it
+ */
+function queryKey(query: AgentQuery): string {
+  const { fields, limit, cursor, ...rest } = query;
+  return createHash('sha256').update(JSON.stringify(rest)).digest('hex').slice(0, 12);
+}
+
+function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(JSON.stringify({ offset, key })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, key: string): number {
+  let decoded: { offset?: unknown; key?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new JSONRPCError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+
+  if (typeof decoded.offset !== 'number' || !Number.isInteger(decoded.offset) || decoded.offset < 0) {
+    throw new JSONRPCError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  if (decoded.key !== key) {
+    throw new JSONRPCError(ErrorCode.InvalidParams, 'Cursor belongs to a different query; keep the filters and sort unchanged while paging');
+  }
+  return decoded.offset;
+}
+
+function inRange(value: string | undefined, after?: string, before?: string): boolean {
+  if (after === undefined && before === undefined) {
+    return true;
+  }
+  const time = value === undefined ? NaN : Date.parse(value);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  return (after === undefined || time >= Date.parse(after)) && (before === undefined || time < Date.parse(before));
+}
+
+function matches(agent: AgentData, query: AgentQuery): boolean {
+  return (
+    matchesSelector(agent, query) &&
+    (query.search === undefined || agent.name.toLowerCase().includes(query.search.toLowerCase())) &&
+    inRange(agent.created_at, query.created_after, query.created_before) &&
+    inRange(agent.updated_at, query.updated_after, query.updated_before)
+  );
+}
+
+function compare(a: AgentData, b: AgentData, sort: AgentQuery['sort']): number {
+  const left = a[sort] ?? '';
+  const right = b[sort] ?? '';
+  const byField = sort === 'created_at' || sort === 'updated_at'
+    ? Date.parse(left) - Date.parse(right)
+    : left.localeCompare(right);
+  // Ties fall back to the ID so pages never overlap
+  return byField || a.id.localeCompare(b.id);
+}
+
+function project(agent: AgentData, fields: AgentQuery['fields']): AgentPage['agents'][number] {
+  if (!fields) {
+    return agent;
+  }
+  const projected: Record<string, unknown> = { id: agent.id };
+  for (const field of fields) {
+    if (agent[field] !== undefined) {
+      projected[field] = agent[field];
+    }
+  }
+  return projected as AgentPage['agents'][number];
+}
+
+/**
+ * Filters, sorts and pages a list of agents
+ */
+export function queryAgents(agents: AgentData[], query: AgentQuery): AgentPage {
+  const key = queryKey(query);
+  const offset = query.cursor === undefined ? 0 : decodeCursor(query.cursor, key);
+
+  const direction = query.order === 'desc' ? -1 : 1;
+  const matching = agents
+    .filter((agent) => matches(agent, query))
+    .sort((a, b) => direction * compare(a, b, query.sort));
+
+  const page: AgentPage = {
+    agents: matching.slice(offset, offset + query.limit).map((agent) => project(agent, query.fields)),
+    total: matching.length,
+  };
+  if (offset + query.limit < matching.length) {
+    page.nextCursor = encodeCursor(offset + query.limit, key);
+  }
+  return page;
+}
@@ -0,0 +1,279 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync, existsSync, readFileSync, renameSync, statSync, unlinkSync } from 'fs';
+import { extname } from 'path';
+import fetch from 'node-fetch';
+import { parse as parseYaml } from 'yaml';
+import { RedactionConfig, Redactor, redactionConfigSchema } from './redaction.js';
+
+/**
+ * One JSON-RPC request as seen by the audit log
+ */
+export interface AuditEvent {
+  timestamp: string;
+  sessionId?: string;
+  userId?: string;
+  // JSON-RPC request ID
+  requestId: string | number | null;
+  method: string;
+  // Tool name for tools/call
+  tool?: string;
+  // Tool arguments (or request params), with secrets redacted
+  arguments?: unknown;
+  // `tool_error` is a call the tool reported as failed (isError), e.g. a backend error or a policy refusal
+  outcome: 'success' | 'tool_error' | 'error';
+  error?: { code?: number; message: string };
+  latencyMs: number;
+  // X-Request-Id of every backend call made while handling the request
+  backendRequestIds: string[];
+}
+
+/**
+ * Destination for audit events
+ */
+export interface AuditSink {
+  write(event: AuditEvent): void;
+  close?(): Promise<void>;
+}
+
+/**
+ * Appends events as JSON lines, rotating the file once it reaches `maxBytes`:
+ * audit.jsonl becomes audit.jsonl.1, audit.jsonl.1 becomes audit.jsonl.2 and so on,
+ * keeping at most `maxFiles` rotated files
+ */
+export class JsonlFileSink implements AuditSink {
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(private filePath: string, options: { maxBytes?: number; maxFiles?: number } = {}) {
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  write(event: AuditEvent): void {
+    const line = JSON.stringify(event) + '\n';
+    if (existsSync(this.filePath) && statSync(this.filePath).size + Buffer.byteLength(line) > this.maxBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.filePath, line);
+  }
+
+  private rotate(): void {
+    const oldest = `${this.filePath}.${this.maxFiles}`;
+    if (existsSync(oldest)) {
+      unlinkSync(oldest);
+    }
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const rotated = `${this.filePath}.${index}`;
+      if (existsSync(rotated)) {
+        renameSync(rotated, `${this.filePath}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      unlinkSync(this.filePath);
+    }
+  }
+}
+
+/**
+ * Writes events to stdout as JSON lines. Not for use with the stdio transport,
+ * whose protocol messages travel over stdout.
+ */
+export class StdoutSink implements AuditSink {
+  write(event: AuditEvent): void {
+    process.stdout.write(JSON.stringify(event) + '\n');
+  }
+}
+
+export interface WebhookSinkOptions {
+  // Extra headers, e.g. for authenticating to the collector
+  headers?: Record<string, string>;
+  // Events sent per POST
+  batchSize?: number;
+  // Longest an event waits before being sent
+  flushIntervalMs?: number;
+  // Events kept while the webhook is failing; the oldest are dropped beyond this
+  maxQueueSize?: number;
+}
+
+/**
+ * POSTs batches of events to a webhook as a JSON array
+ */
+export class WebhookSink implements AuditSink {
+  private queue: AuditEvent[] = [];
+  private timer: NodeJS.Timeout;
+  private flushing: Promise<void> | null = null;
+  private options: Required<WebhookSinkOptions>;
+
+  constructor(private url: string, options: WebhookSinkOptions = {}) {
+    this.options = {
+      headers: options.headers ?? {},
+      batchSize: options.batchSize ?? 100,
+      flushIntervalMs: options.flushIntervalMs ?? 5_000,
+      maxQueueSize: options.maxQueueSize ?? 10_000,
+    };
+    this.timer = setInterval(() => void this.flush(), this.options.flushIntervalMs);
+    this.timer.unref();
+  }
+
+  write(event: AuditEvent): void {
+    this.queue.push(event);
+    if (this.queue.length > this.options.maxQueueSize) {
+      this.queue.splice(0, this.queue.length - this.options.maxQueueSize);
+    }
+    if (this.queue.length >= this.options.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Sends everything queued; failed batches stay queued for the next attempt
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      while (this.queue.length > 0) {
+        const batch = this.queue.slice(0, this.options.batchSize);
+        try {
+          const response = await fetch(this.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...this.options.headers },
+            body: JSON.stringify(batch),
+          });
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+        } catch (error) {
+          console.error('Failed to deliver audit events to webhook:', error);
+          return;
+        }
+        this.queue.splice(0, batch.length);
+      }
+    })().finally(() => {
+      this.flushing = null;
+    });
+
+    return this.flushing;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+}
+
+export interface AuditOptions {
+  sinks: AuditSink[];
+  redaction?: RedactionConfig;
+}
+
+/**
+ * Redacts audit events and fans them out to the configured sinks
+ */
+export class AuditLog {
+  private sinks: AuditSink[];
+  private redactor: Redactor;
+
+  constructor(options: AuditOptions = { sinks: [] }) {
+    this.sinks = options.sinks;
+    this.redactor = new Redactor(options.redaction);
+  }
+
+  get enabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  record(event: AuditEvent): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const redacted: AuditEvent = { ...event, arguments: this.redactor.redact(event.arguments) };
+    if (redacted.error) {
+      redacted.error = { ...redacted.error, message: this.redactor.redact(redacted.error.message) as string };
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(redacted);
+      } catch (error) {
+        console.error('Failed to write audit event:', error);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.close?.()));
+  }
+}
+
+const backendRequestIds = new AsyncLocalStorage<string[]>();
+
+/**
+ * Runs `fn`, collecting the backend request IDs of API calls it makes into `ids`
+ */
+export function trackBackendRequests<T>(ids: string[], fn: () => T): T {
+  return backendRequestIds.run(ids, fn);
+}
+
+/**
+ * Called by the API client for every backend response
+ */
+export function noteBackendRequestId(requestId: string | null | undefined): void {
+  if (requestId) {
+    backendRequestIds.getStore()?.push(requestId);
+  }
+}
+
+/**
+ * Audit options from the environment: MCP_AUDIT_SINKS is a comma-separated list of
+ * `file`, `stdout` and `webhook`; each sink reads its own MCP_AUDIT_* settings
+ */
+export function auditOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuditOptions {
+  const sinks: AuditSink[] = [];
+  const names = (env.MCP_AUDIT_SINKS ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+
+  for (const name of names) {
+    switch (name) {
+      case 'file':
+        sinks.push(
+          new JsonlFileSink(env.MCP_AUDIT_FILE ?? 'audit.jsonl', {
+            maxBytes: env.MCP_AUDIT_FILE_MAX_BYTES ? Number(env.MCP_AUDIT_FILE_MAX_BYTES) : undefined,
+            maxFiles: env.MCP_AUDIT_FILE_MAX_FILES ? Number(env.MCP_AUDIT_FILE_MAX_FILES) : undefined,
+          })
+        );
+        break;
+      case 'stdout':
+        sinks.push(new StdoutSink());
+        break;
+      case 'webhook':
+        if (!env.MCP_AUDIT_WEBHOOK_URL) {
+          throw new Error('MCP_AUDIT_WEBHOOK_URL is required for the webhook audit sink');
+        }
+        sinks.push(
+          new WebhookSink(env.MCP_AUDIT_WEBHOOK_URL, {
+            headers: env.MCP_AUDIT_WEBHOOK_TOKEN
+              ? { Authorization: `Bearer ${env.MCP_AUDIT_WEBHOOK_TOKEN}` }
+              : undefined,
+          })
+        );
+        break;
+      default:
+        throw new Error(`Unknown audit sink in MCP_AUDIT_SINKS: ${name}`);
+    }
+  }
+
+  let redaction: RedactionConfig | undefined;
+  const redactionFile = env.MCP_AUDIT_REDACTION_FILE;
+  if (redactionFile) {
+    const raw = readFileSync(redactionFile, 'utf8');
+    const ext = extname(redactionFile).toLowerCase();
+    redaction = redactionConfigSchema.parse(ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw));
+  }
+
+  return { sinks, redaction };
+}
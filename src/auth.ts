@@ -1,4 +1,11 @@
-import { createHmac } from 'crypto';
+import { createHmac, randomBytes } from 'crypto';
+import { KeyRecord, KeyStore } from './key-store.js';
+import { MemorySessionStore, SessionExpiry, SessionOptions, SessionStore } from './session-store.js';
+
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
+const MAX_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export type Scope = 'read' | 'write' | 'execute' | 'terminal' | 'billing' | 'admin';
 
 export interface SessionData {
   id: string;
@@ -10,11 +17,26 @@ export interface SessionData {
 }
 
 export class AuthManager {
-  private sessions: Map<string, SessionData> = new Map();
+  private sessions: SessionStore;
   private secret: string;
+  private keyStore: KeyStore | null;
+  private expiry: SessionExpiry;
+  private ttlMs: number;
+  private maxLifetimeMs: number | null;
+  private touchIntervalMs: number;
 
-  constructor(secret: string = process.env.MCP_AUTH_SECRET || 'default-secret-change-in-production') {
+  constructor(
+    secret: string = process.env.MCP_AUTH_SECRET || 'default-secret-change-in-production',
+    keyStore: KeyStore | null = null,
+    sessionOptions: SessionOptions = {}
+  ) {
     this.secret = secret;
+    this.keyStore = keyStore;
+    this.sessions = sessionOptions.store ?? new MemorySessionStore();
+    this.expiry = sessionOptions.expiry ?? 'absolute';
+    this.ttlMs = sessionOptions.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+    this.maxLifetimeMs = sessionOptions.maxLifetimeMs ?? null;
+    this.touchIntervalMs = sessionOptions.touchIntervalMs ?? Math.min(MAX_TOUCH_INTERVAL_MS, this.ttlMs / 10);
   }
 
   /**
@@ -31,10 +53,31 @@ export class AuthManager {
     return apiKey.length > 8; // Basic length check
   }
 
+  /**
+   * Resolves an API key to its user and scopes through the configured key store.
+   * Returns null for malformed, unknown, revoked or expired keys.
+   */
+  async authenticate(apiKey: string): Promise<KeyRecord | null> {
+    if (!this.validateApiKey(apiKey) || !this.keyStore) {
+      return null;
+    }
+
+    const record = await this.keyStore.lookup(apiKey);
+    if (!record || record.revoked) {
+      return null;
+    }
+
+    if (record.expiresAt && new Date() > record.expiresAt) {
+      return null;
+    }
+
+    return record;
+  }
+
   /**
    * Creates a new session for a validated user
    */
-  createSession(userId: string, scopes: string[]): SessionData {
+  async createSession(userId: string, scopes: string[]): Promise<SessionData> {
     const sessionId = this.generateSecureSessionId();
     const now = new Date();
     
@@ -44,18 +87,18 @@ export class AuthManager {
       createdAt: now,
       lastActivity: now,
       scopes,
-      expiresAt: new Date(now.getTime() + 30 * 60 * 1000), // 30 minutes
+      expiresAt: this.computeExpiry(now, now),
     };
 
-    this.sessions.set(sessionId, session);
+    await this.sessions.set(session);
     return session;
   }
 
   /**
    * Validates a session ID and checks if it's still active
    */
-  validateSession(sessionId: string): SessionData | null {
-    const session = this.sessions.get(sessionId);
+  async validateSession(sessionId: string): Promise<SessionData | null> {
+    const session = await this.sessions.get(sessionId);
     
     if (!session) {
       return null;
@@ -65,62 +108,98 @@ export class AuthManager {
     
     // Check if session has expired
     if (now > session.expiresAt) {
-      this.destroySession(sessionId);
+      await this.destroySession(sessionId);
       return null;
     }
 
-    // Update last activity
-    session.lastActivity = now;
-    this.sessions.set(sessionId, session);
-    
-    return session;
+    // Update last activity, extending the session when expiry is sliding. The store is
+    // only written once per touch interval rather than on every request, so a stored
+    // sliding expiry may trail the real one by up to that interval.
+    const touched: SessionData = {
+      ...session,
+      lastActivity: now,
+      expiresAt: this.expiry === 'sliding' ? this.computeExpiry(session.createdAt, now) : session.expiresAt,
+    };
+    if (now.getTime() - session.lastActivity.getTime() >= this.touchIntervalMs) {
+      await this.sessions.set(touched);
+    }
+
+    return touched;
+  }
+
+  /**
+   * Whether the session exists and has not expired, without counting as activity
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await this.sessions.get(sessionId);
+    return session !== null && new Date() <= session.expiresAt;
   }
 
   /**
    * Checks if a session has the required scope for an operation
    */
   hasScope(session: SessionData, requiredScope: string): boolean {
-    // Special case: admin scope grants all permissions
-    if (session.scopes.includes('admin')) {
-      return true;
-    }
+    return hasScope(session.scopes, requiredScope);
+  }
+
+  /**
+   * Destroys a session, removing it from the store
+   */
+  async destroySession(sessionId: string): Promise<void> {
+    await this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Active sessions, or null when the session store cannot count them
+   */
+  async countSessions(): Promise<number | null> {
+    return this.sessions.count ? this.sessions.count() : null;
+  }
 
-    // Check if session has the specific required scope
-    return session.scopes.includes(requiredScope);
+  /**
+   * Releases the session store's timers and connections
+   */
+  async close(): Promise<void> {
+    await this.sessions.close();
   }
 
   /**
-   * Destroys a session, removing it from memory
+   * Works out when a session should expire given its creation and last activity
    */
-  destroySession(sessionId: string): void {
-    this.sessions.delete(sessionId);
+  private computeExpiry(createdAt: Date, lastActivity: Date): Date {
+    if (this.expiry === 'absolute') {
+      return new Date(createdAt.getTime() + this.ttlMs);
+    }
+
+    const idleExpiry = lastActivity.getTime() + this.ttlMs;
+    if (this.maxLifetimeMs === null) {
+      return new Date(idleExpiry);
+    }
+    return new Date(Math.min(idleExpiry, createdAt.getTime() + this.maxLifetimeMs));
   }
 
   /**
    * Generates a cryptographically secure session ID
    */
   private generateSecureSessionId(): string {
-    const timestamp = Date.now().toString();
-    const randomPart = Math.random().toString(36).substring(2, 15) +
-                      Math.random().toString(36).substring(2, 15);
-    
     // Create HMAC for additional security
     const hmac = createHmac('sha256', this.secret)
-                 .update(timestamp + randomPart)
+                 .update(randomBytes(32))
                  .digest('hex');
                  
     return hmac.substring(0, 32); // Use first 32 chars for the ID
   }
+}
 
-  /**
-   * Cleans up expired sessions periodically
-   */
-  cleanupExpiredSessions(): void {
-    const now = new Date();
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (now > session.expiresAt) {
-        this.sessions.delete(sessionId);
-      }
-    }
+/**
+ * Checks if a set of granted scopes covers the required scope
+ */
+export function hasScope(scopes: string[], requiredScope: string): boolean {
+  // Special case: admin scope grants all permissions
+  if (scopes.includes('admin')) {
+    return true;
   }
-}
\ No newline at end of file
+
+  // Check if the specific required scope was granted
+  return scopes.includes(requiredScope);
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ErrorCode, JSONRPCError } from './jsonrpc.js';
+
+const secretSchema = z.object({
+  apiKey: z.string().min(1).optional(),
+  // Name of an environment variable holding the key, so the file can be checked in
+  apiKeyEnv: z.string().min(1).optional(),
+});
+
+export const tenantConfigSchema = z
+  .object({
+    // Where sessions get Blueprints API credentials: `server` uses the server's key (or the
+    // tenant's), `forward` passes on the caller's own `bp_sk_` key and `mapped` uses the
+    // key listed for the user
+    credentials: z.enum(['server', 'forward', 'mapped']).default('server'),
+    tenants: z.record(secretSchema.extend({ baseUrl: z.string().url() })).default({}),
+    users: z.record(secretSchema.extend({ tenant: z.string().optional() })).default({}),
+    // Tenant of users not listed; the server's baseUrl when unset
+    defaultTenant: z.string().optional(),
+    // Backend identities kept at once; idle ones beyond this are dropped
+    maxBackends: z.number().int().positive().default(100),
+  })
+  .superRefine((config, ctx) => {
+    const check = (tenant: string | undefined, path: Array<string | number>) => {
+      if (tenant !== undefined && !config.tenants[tenant]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown tenant: ${tenant}` });
+      }
+    };
+    check(config.defaultTenant, ['defaultTenant']);
+    for (const [userId, user] of Object.entries(config.users)) {
+      check(user.tenant, ['users', userId, 'tenant']);
+    }
+  });
+
+export type TenantConfig = z.input<typeof tenantConfigSchema>;
+
+/**
+ * Where and as whom a session talks to the Blueprints API
+ */
+export interface BackendCredentials {
+  baseUrl: string;
+  apiKey: string;
+  tenant?: string;
+  // Who config history and removed agents belong to, so they outlive key rotation;
+  // unset for the server's own identity
+  owner?: string;
+}
+
+/**
+ * Who is making a request, as far as picking backend credentials goes
+ */
+export interface BackendIdentity {
+  userId: string;
+  // Bearer credential the request was made with
+  credential?: string;
+}
+
+/**
+ * Stable ID for a set of credentials that does not reveal the key
+ */
+export function backendId(credentials: BackendCredentials): string {
+  return createHash('sha256').update(`${credentials.baseUrl}\n${credentials.apiKey}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Picks the backend credentials for each user from the tenant config
+ */
+export class BackendRouter {
+  private config: z.output<typeof tenantConfigSchema>;
+
+  constructor(
+    private server: BackendCredentials,
+    config: TenantConfig = {},
+    private env: NodeJS.ProcessEnv = process.env
+  ) {
+    this.config = tenantConfigSchema.parse(config);
+  }
+
+  get maxBackends(): number {
+    return this.config.maxBackends;
+  }
+
+  /**
+   * Credentials for the identity; the server's own without one (stdio). Throws when the
+   * config gives the user no way to reach the backend.
+   */
+  resolve(identity: BackendIdentity | null): BackendCredentials {
+    if (!identity) {
+      return this.server;
+    }
+
+    const user = this.config.users[identity.userId];
+    const tenantName = user?.tenant ?? this.config.defaultTenant;
+    const tenant = tenantName ? this.config.tenants[tenantName] : undefined;
+    const baseUrl = tenant?.baseUrl ?? this.server.baseUrl;
+
+    let apiKey: string | undefined;
+    let owner: string | undefined;
+    switch (this.config.credentials) {
+      case 'server':
+        apiKey = (tenant && this.secret(tenant)) ?? this.server.apiKey;
+        owner = tenant && `tenant:${tenantName}`;
+        break;
+      case 'forward':
+        // OAuth access tokens mean nothing to the backend, so those users need a mapped key
+        apiKey = identity.credential?.startsWith('bp_sk_') ? identity.credential : user && this.secret(user);
+        owner = `user:${identity.userId}`;
+        break;
+      case 'mapped':
+        apiKey = user && this.secret(user);
+        owner = `user:${identity.userId}`;
+        break;
+    }
+
+    if (!apiKey) {
+      throw new JSONRPCError(ErrorCode.Forbidden, `No Blueprints API credentials for user ${identity.userId}`, {
+        userId: identity.userId,
+      });
+    }
+    return { baseUrl, apiKey, tenant: tenantName, owner };
+  }
+
+  private secret(entry: z.infer<typeof secretSchema>): string | undefined {
+    return entry.apiKey ?? (entry.apiKeyEnv ? this.env[entry.apiKeyEnv] : undefined);
+  }
+}
+
+/**
+ * Objects built per backend identity, most recently used last. When over capacity, the
+ * least recently used idle entries are disposed of.
+ */
+export class BackendPool<T> {
+  private entries: Map<string, T> = new Map();
+
+  constructor(
+    private create: (credentials: BackendCredentials, id: string) => T,
+    private lifecycle: { isIdle(entry: T): boolean; dispose(entry: T): void },
+    private maxEntries: number = 100
+  ) {}
+
+  get(credentials: BackendCredentials): T {
+    const id = backendId(credentials);
+    let entry = this.entries.get(id);
+    if (entry) {
+      this.entries.delete(id);
+    } else {
+      entry = this.create(credentials, id);
+    }
+    this.entries.set(id, entry);
+    this.evict(id);
+    return entry;
+  }
+
+  values(): T[] {
+    return [...this.entries.values()];
+  }
+
+  private evict(keep: string): void {
+    for (const [id, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries) {
+        return;
+      }
+      if (id !== keep && this.lifecycle.isIdle(entry)) {
+        this.entries.delete(id);
+        this.lifecycle.dispose(entry);
+      }
+    }
+  }
+}
+
+/**
+ * Tenant config from MCP_TENANTS_FILE (JSON or YAML); MCP_BACKEND_CREDENTIALS sets
+ * `credentials` without a file
+ */
+export function tenantConfigFromEnv(env: NodeJS.ProcessEnv = process.env): TenantConfig {
+  let config: TenantConfig = {};
+  const file = env.MCP_TENANTS_FILE;
+  if (file) {
+    const raw = readFileSync(file, 'utf8');
+    const ext = extname(file).toLowerCase();
+    config = tenantConfigSchema.parse(ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw));
+  }
+  if (env.MCP_BACKEND_CREDENTIALS) {
+    config = { ...config, credentials: z.enum(['server', 'forward', 'mapped']).parse(env.MCP_BACKEND_CREDENTIALS) };
+  }
+  return config;
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+
+import { runCLI } from './cli.js';
+
+runCLI(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,353 @@
+import { createHash } from 'crypto';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { AgentData, BlueprintsAPIClient } from './blueprints-api.js';
+import { AgentConfigEditor, topLevelChanges } from './agent-config.js';
+import type { AgentRemovals } from './recycle-bin.js';
+import type { RequestContext } from './index.js';
+import { describeError, mapWithConcurrency } from './fleet.js';
+import { ToolError } from './errors.js';
+import { reportProgress } from './progress.js';
+
+const configSchema = z.record(z.any());
+
+const templateSchema = z.object({
+  framework: z.string().optional(),
+  config: configSchema.optional(),
+});
+
+const agentSpecSchema = z.object({
+  name: z.string().min(1),
+  // Template whose framework and config this agent starts from
+  template: z.string().optional(),
+  framework: z.string().optional(),
+  // Merged over the template's config
+  config: configSchema.optional(),
+  // Overrides the blueprint's project_id
+  project_id: z.string().optional(),
+});
+
+export const blueprintSchema = z.object({
+  version: z.literal(1),
+  // Project the blueprint manages; every agent when omitted
+  project_id: z.string().optional(),
+  // Remove agents in the managed project that the blueprint does not list
+  prune: z.boolean().default(false),
+  templates: z.record(templateSchema).default({}),
+  agents: z.array(agentSpecSchema),
+});
+
+export type Blueprint = z.infer<typeof blueprintSchema>;
+
+/**
+ * An agent as the blueprint wants it, with its template applied
+ */
+const desiredAgentSchema = z.object({
+  name: z.string(),
+  framework: z.string(),
+  project_id: z.string().optional(),
+  config: configSchema,
+});
+
+export type DesiredAgent = z.infer<typeof desiredAgentSchema>;
+
+const plannedActionSchema = z.discriminatedUnion('action', [
+  desiredAgentSchema.extend({ action: z.literal('create') }),
+  z.object({
+    action: z.literal('update'),
+    agent_id: z.string(),
+    name: z.string(),
+    changes: z.array(z.object({ key: z.string(), from: z.unknown(), to: z.unknown() })),
+  }),
+  z.object({
+    action: z.literal('replace'),
+    agent_id: z.string(),
+    name: z.string(),
+    from_framework: z.string(),
+    desired: desiredAgentSchema,
+  }),
+  z.object({ action: z.literal('remove'), agent_id: z.string(), name: z.string() }),
+  z.object({ action: z.literal('unchanged'), agent_id: z.string(), name: z.string() }),
+]);
+
+export type PlannedAction = z.infer<typeof plannedActionSchema>;
+
+const planSummarySchema = z.object({
+  create: z.number(),
+  update: z.number(),
+  replace: z.number(),
+  remove: z.number(),
+  unchanged: z.number(),
+});
+
+export const blueprintPlanSchema = z.object({
+  // Identifies the changes; pass it to blueprint_apply to be sure what was reviewed is what runs
+  plan_id: z.string(),
+  summary: planSummarySchema,
+  actions: z.array(plannedActionSchema),
+});
+
+export type BlueprintPlan = z.infer<typeof blueprintPlanSchema>;
+
+const actionOutcomeSchema = z.object({
+  action: z.enum(['create', 'update', 'replace', 'remove', 'unchanged']),
+  name: z.string(),
+  // For creates and replacements, the ID of the new agent
+  agent_id: z.string().optional(),
+  result: z.enum(['succeeded', 'failed']),
+  detail: z.string().optional(),
+});
+
+export type ActionOutcome = z.infer<typeof actionOutcomeSchema>;
+
+export const blueprintApplySchema = z.object({
+  plan_id: z.string(),
+  summary: planSummarySchema,
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(actionOutcomeSchema),
+});
+
+export type BlueprintApplyResult = z.infer<typeof blueprintApplySchema>;
+
+/**
+ * Parses and validates a blueprint written in YAML or JSON
+ */
+export function parseBlueprint(text: string): Blueprint {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    throw new ToolError(`Blueprint is not valid YAML or JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = blueprintSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ToolError(`Invalid blueprint: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges `override` into `base`; nested objects merge, anything else is replaced
+ */
+function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : value;
+  }
+  return result;
+}
+
+/**
+ * Applies templates and defaults, checking every agent ends up with a framework and a unique name
+ */
+export function resolveAgents(blueprint: Blueprint): DesiredAgent[] {
+  const seen = new Set<string>();
+  return blueprint.agents.map((spec) => {
+    const template = spec.template !== undefined ? blueprint.templates[spec.template] : undefined;
+    if (spec.template !== undefined && !template) {
+      throw new ToolError(`Agent ${spec.name} uses unknown template ${spec.template}`);
+    }
+
+    const framework = spec.framework ?? template?.framework;
+    if (!framework) {
+      throw new ToolError(`Agent ${spec.name} has no framework`);
+    }
+
+    const project_id = spec.project_id ?? blueprint.project_id;
+    const key = `${project_id ?? ''}/${spec.name}`;
+    if (seen.has(key)) {
+      throw new ToolError(`Agent ${spec.name} is listed more than once`);
+    }
+    seen.add(key);
+
+    return {
+      name: spec.name,
+      framework,
+      project_id,
+      config: deepMerge(template?.config ?? {}, spec.config ?? {}),
+    };
+  });
+}
+
+function planId(actions: PlannedAction[]): string {
+  const changes = actions.filter((action) => action.action !== 'unchanged');
+  return createHash('sha256').update(JSON.stringify(changes)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Diffs blueprints against the agents that exist and converges them
+ */
+export class BlueprintRunner {
+  constructor(
+    private apiClient: BlueprintsAPIClient,
+    // Validates the configs agents are created and updated with, and records them for rollback
+    private agentConfigs: AgentConfigEditor,
+    // Removals and replacements go through the recycle bin, like remove_agent
+    private removals: AgentRemovals,
+    private concurrency: number = 5
+  ) {}
+
+  async plan(text: string): Promise<BlueprintPlan> {
+    const blueprint = parseBlueprint(text);
+    const desired = resolveAgents(blueprint);
+    for (const want of desired) {
+      try {
+        this.agentConfigs.validate(want.framework, want.config);
+      } catch (error) {
+        if (error instanceof ToolError) {
+          throw new ToolError(`Agent ${want.name}: ${error.message}`);
+        }
+        throw error;
+      }
+    }
+
+    const all = await this.apiClient.listAgents();
+    const managed = all.filter(
+      (agent) => blueprint.project_id === undefined || agent.project_id === blueprint.project_id
+    );
+
+    const claimed = new Set<string>();
+    const actions = await mapWithConcurrency(desired, this.concurrency, async (want): Promise<PlannedAction> => {
+      const matches = all.filter(
+        (agent) => agent.name === want.name && (want.project_id === undefined || agent.project_id === want.project_id)
+      );
+      if (matches.length > 1) {
+        throw new ToolError(
+          `Several agents are named ${want.name} (${matches.map((agent) => agent.id).join(', ')}); rename or remove the duplicates first`
+        );
+      }
+
+      const existing = matches[0];
+      if (!existing) {
+        return { action: 'create', ...want };
+      }
+      claimed.add(existing.id);
+
+      if (existing.framework !== want.framework) {
+        return { action: 'replace', agent_id: existing.id, name: want.name, from_framework: existing.framework, desired: want };
+      }
+
+      // Listings may omit configs, so compare against the full record
+      const current = (await this.apiClient.getAgent(existing.id)).config ?? {};
+      const changes = topLevelChanges(current, want.config);
+      return changes.length > 0
+        ? { action: 'update', agent_id: existing.id, name: want.name, changes }
+        : { action: 'unchanged', agent_id: existing.id, name: want.name };
+    });
+
+    if (blueprint.prune) {
+      for (const agent of managed) {
+        if (!claimed.has(agent.id)) {
+          actions.push({ action: 'remove', agent_id: agent.id, name: agent.name });
+        }
+      }
+    }
+
+    const summary = { create: 0, update: 0, replace: 0, remove: 0, unchanged: 0 };
+    for (const action of actions) {
+      summary[action.action]++;
+    }
+    return { plan_id: planId(actions), summary, actions };
+  }
+
+  /**
+   * Plans the changes. With `expectedPlanId`, refuses when the plan no longer matches the
+   * one that was reviewed.
+   */
+  async reviewedPlan(text: string, expectedPlanId: string | undefined): Promise<BlueprintPlan> {
+    const plan = await this.plan(text);
+    if (expectedPlanId !== undefined && expectedPlanId !== plan.plan_id) {
+      throw new ToolError(`The plan has changed since ${expectedPlanId} was reviewed; run blueprint_plan again`);
+    }
+    return plan;
+  }
+
+  /**
+   * Plans and carries out the changes, as reviewedPlan then run
+   */
+  async apply(text: string, expectedPlanId: string | undefined, context: RequestContext): Promise<BlueprintApplyResult> {
+    return this.run(await this.reviewedPlan(text, expectedPlanId), context);
+  }
+
+  /**
+   * Carries out a plan's changes
+   */
+  async run(plan: BlueprintPlan, context: RequestContext): Promise<BlueprintApplyResult> {
+    const changes = plan.actions.filter((action) => action.action !== 'unchanged');
+    let done = 0;
+    const results = await mapWithConcurrency(
+      changes,
+      this.concurrency,
+      async (action) => {
+        const agentId = 'agent_id' in action ? action.agent_id : undefined;
+        let outcome: ActionOutcome;
+        try {
+          const agent = await this.execute(action, context.session?.userId);
+          outcome = { action: action.action, name: action.name, agent_id: agent?.id ?? agentId, result: 'succeeded' };
+        } catch (error) {
+          outcome = { action: action.action, name: action.name, agent_id: agentId, result: 'failed', detail: describeError(error) };
+        }
+        reportProgress(context, ++done, `${action.action} ${action.name}: ${outcome.result}`, changes.length);
+        return outcome;
+      },
+      context.signal
+    );
+
+    return {
+      plan_id: plan.plan_id,
+      summary: plan.summary,
+      succeeded: results.filter((result) => result.result === 'succeeded').length,
+      failed: results.filter((result) => result.result === 'failed').length,
+      results,
+    };
+  }
+
+  private async execute(action: PlannedAction, removedBy: string | undefined): Promise<AgentData | null> {
+    switch (action.action) {
+      case 'create':
+        return this.create(action);
+      case 'update': {
+        const config = { ...((await this.apiClient.getAgent(action.agent_id)).config ?? {}) };
+        for (const change of action.changes) {
+          if (change.to === null) {
+            delete config[change.key];
+          } else {
+            config[change.key] = change.to;
+          }
+        }
+        await this.agentConfigs.replace(action.agent_id, config, 'blueprint');
+        return null;
+      }
+      case 'replace':
+        // Frameworks cannot be changed in place
+        await this.removals.remove(await this.apiClient.getAgent(action.agent_id), removedBy);
+        return this.create(action.desired);
+      case 'remove':
+        await this.removals.remove(await this.apiClient.getAgent(action.agent_id), removedBy);
+        return null;
+      case 'unchanged':
+        return null;
+    }
+  }
+
+  /**
+   * Creates an agent and records its config as the first version
+   */
+  private async create(want: DesiredAgent): Promise<AgentData> {
+    const agent = await this.apiClient.createAgent({
+      project_id: want.project_id,
+      name: want.name,
+      framework: want.framework,
+      config: want.config,
+    });
+    this.agentConfigs.created(agent.id, agent.config ?? want.config);
+    return agent;
+  }
+}
@@ -1,62 +1,387 @@
-import fetch from 'node-fetch';
+import fetch, { Response } from 'node-fetch';
 import { Agent } from 'https';
+import { z } from 'zod';
+import {
+  BlueprintsAPIError,
+  InvalidResponseError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  errorForStatus,
+} from './errors.js';
+import { noteBackendRequestId } from './audit.js';
+import { CacheOptions, FetchedResponse, ResponseCache } from './response-cache.js';
+import { Metrics, routeOf } from './metrics.js';
+import { Tracer } from './tracing.js';
 
-interface AgentData {
-  id: string;
-  name: string;
-  framework: string;
-  status: string;
-  project_id?: string;
-  config?: Record<string, any>;
-  created_at: string;
-  updated_at: string;
+/**
+ * Backend data is checked against these schemas as it arrives. Fields the server does not
+ * know about are passed through untouched.
+ */
+export const agentDataSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    framework: z.string(),
+    status: z.string(),
+    project_id: z.string().optional(),
+    config: z.record(z.any()).optional(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .passthrough();
+
+export type AgentData = z.infer<typeof agentDataSchema>;
+
+export const statusDataSchema = z
+  .object({
+    id: z.string(),
+    status: z.string(),
+    health: z.string(),
+    stats: z.record(z.any()),
+  })
+  .passthrough();
+
+export type StatusData = z.infer<typeof statusDataSchema>;
+
+export const terminalChunkSchema = z.object({
+  stream: z.enum(['stdout', 'stderr']),
+  data: z.string(),
+});
+
+export type TerminalChunk = z.infer<typeof terminalChunkSchema>;
+
+export const terminalOutputSchema = z
+  .object({
+    chunks: z.array(terminalChunkSchema),
+    // Pass back to read only output produced after this call
+    cursor: z.number(),
+    exited: z.boolean(),
+    exit_code: z.number().nullable().optional(),
+  })
+  .passthrough();
+
+export type TerminalOutput = z.infer<typeof terminalOutputSchema>;
+
+export const messageAttachmentSchema = z.object({
+  name: z.string(),
+  mime_type: z.string(),
+  // Base64 content; either this or url
+  data: z.string().optional(),
+  url: z.string().optional(),
+});
+
+export type MessageAttachment = z.infer<typeof messageAttachmentSchema>;
+
+export const messageDataSchema = z
+  .object({
+    id: z.string(),
+    agent_id: z.string(),
+    role: z.enum(['user', 'agent']),
+    content: z.string(),
+    attachments: z.array(messageAttachmentSchema).optional(),
+    // Agent replies are `pending` until the agent starts answering and `streaming` while it does
+    status: z.enum(['pending', 'streaming', 'complete', 'failed']).optional(),
+    // For replies, the message being answered
+    in_reply_to: z.string().optional(),
+    created_at: z.string(),
+  })
+  .passthrough();
+
+export type MessageData = z.infer<typeof messageDataSchema>;
+
+export const messagePageSchema = z.object({
+  messages: z.array(messageDataSchema),
+  // Pass back as cursor for the next page; null on the last page
+  next_cursor: z.string().nullable(),
+});
+
+export type MessagePage = z.infer<typeof messagePageSchema>;
+
+/**
+ * What the backend answers to start, stop, remove and account requests
+ */
+export const actionResultSchema = z
+  .object({
+    success: z.boolean(),
+    message: z.string(),
+  })
+  .passthrough();
+
+export type ActionResult = z.infer<typeof actionResultSchema>;
+
+export const sentMessageSchema = z
+  .object({
+    success: z.boolean(),
+    message_id: z.string(),
+  })
+  .passthrough();
+
+export const terminalCommandResultSchema = z
+  .object({
+    success: z.boolean(),
+    output: z.string(),
+  })
+  .passthrough();
+
+export const terminalSessionSchema = z
+  .object({
+    session_id: z.string(),
+  })
+  .passthrough();
+
+/**
+ * What the backend answers to terminal input, signal and close requests
+ */
+export const terminalAckSchema = z
+  .object({
+    success: z.boolean(),
+  })
+  .passthrough();
+
+export interface ClientOptions {
+  // Default per-request timeout
+  timeoutMs?: number;
+  // Retries after the first attempt for retryable failures
+  maxRetries?: number;
+  // Base delay for exponential backoff
+  retryBaseDelayMs?: number;
+  // Upper bound on any single wait between attempts, including Retry-After
+  maxRetryDelayMs?: number;
+  // Caching of GET responses; on by default
+  cache?: CacheOptions;
+  // Where call durations are recorded
+  metrics?: Metrics;
+  // Creates a client span per attempt and propagates it as traceparent
+  tracer?: Tracer;
 }
 
-interface StatusData {
-  id: string;
-  status: string;
-  health: string;
-  stats: Record<string, any>;
+export interface RequestOptions {
+  method?: string;
+  body?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  // Whether a repeated request is safe; defaults to true for GET, PUT and DELETE
+  idempotent?: boolean;
 }
 
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
 export class BlueprintsAPIClient {
   private baseUrl: string;
   private apiKey: string;
   private httpsAgent: Agent;
+  private options: Required<Omit<ClientOptions, 'cache' | 'metrics' | 'tracer'>>;
+  private cache: ResponseCache;
+  private metrics: Metrics | null;
+  private tracer: Tracer;
 
-  constructor(baseUrl: string, apiKey: string) {
+  constructor(baseUrl: string, apiKey: string, options: ClientOptions = {}) {
     this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
     this.apiKey = apiKey;
     this.httpsAgent = new Agent({ keepAlive: true });
+    this.options = {
+      timeoutMs: options.timeoutMs ?? 30_000,
+      maxRetries: options.maxRetries ?? 3,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? 250,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 30_000,
+    };
+    this.cache = new ResponseCache(options.cache);
+    this.metrics = options.metrics ?? null;
+    this.tracer = options.tracer ?? new Tracer();
   }
 
+  /**
+   * Sends a request, retrying network failures and 5xx responses for idempotent calls
+   * and any call rejected with 429 or 503 plus Retry-After. GETs go through the response
+   * cache; other calls invalidate what they may have changed.
+   */
   private async makeRequest(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {}
   ): Promise<any> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    if (method === 'GET') {
+      return this.cache.get(endpoint, (etag) =>
+        this.sendWithRetries(endpoint, method, etag ? { ...options, headers: { ...options.headers, 'If-None-Match': etag } } : options)
+      );
+    }
+
+    try {
+      return (await this.sendWithRetries(endpoint, method, options)).body;
+    } finally {
+      // Even a failed call may have changed something
+      this.cache.invalidate(endpoint);
+    }
+  }
+
+  /**
+   * Sends a request and checks the response against the schema, so a malformed answer
+   * fails here instead of somewhere downstream
+   */
+  private async fetchValid<S extends z.ZodTypeAny>(
+    schema: S,
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<z.infer<S>> {
+    const body = await this.makeRequest(endpoint, options);
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new InvalidResponseError(
+        `${(options.method ?? 'GET').toUpperCase()} ${endpoint} returned an unexpected response: ${issues.join('; ')}`,
+        { body }
+      );
+    }
+    return parsed.data;
+  }
+
+  private async sendWithRetries(endpoint: string, method: string, options: RequestOptions): Promise<FetchedResponse> {
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attemptRequest(endpoint, method, options);
+      } catch (error) {
+        const delay = this.retryDelay(error, attempt, idempotent);
+        if (delay === null) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async attemptRequest(endpoint: string, method: string, options: RequestOptions): Promise<FetchedResponse> {
     const url = `${this.baseUrl}${endpoint}`;
-    
-    const headers = {
-      'Authorization': `Bearer ${this.apiKey}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
+    const startedAt = Date.now();
+    let status: number | 'error' = 'error';
+
+    try {
+      return await this.tracer.withSpan(
+        `${method} ${routeOf(endpoint)}`,
+        { kind: 'client', attributes: { 'http.request.method': method, 'url.full': url } },
+        async (span) => {
+          const headers: Record<string, string> = {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+            ...options.headers,
+          };
+          if (this.tracer.enabled) {
+            headers['traceparent'] = span.traceparent;
+          }
+
+          const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+          const controller = new AbortController();
+          const timer = setTimeout(() => controller.abort(), timeoutMs);
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-      agent: this.httpsAgent,
+          // The timer stays armed until the body is read, so a stalled body times out too
+          try {
+            let response: Response;
+            try {
+              response = await fetch(url, {
+                method,
+                body: options.body,
+                headers,
+                agent: this.httpsAgent,
+                signal: controller.signal,
+              });
+            } catch (error) {
+              throw transportError(error, method, endpoint, timeoutMs);
+            }
+
+            status = response.status;
+            span.setAttribute('http.response.status_code', response.status);
+            noteBackendRequestId(response.headers.get('x-request-id'));
+            const etag = response.headers.get('etag') ?? undefined;
+
+            if (response.status === 304) {
+              return { body: undefined, etag, notModified: true };
+            }
+            if (!response.ok) {
+              throw await this.toAPIError(response, method, endpoint);
+            }
+
+            let text: string;
+            try {
+              text = await response.text();
+            } catch (error) {
+              throw transportError(error, method, endpoint, timeoutMs);
+            }
+            return { body: parseBody(text, method, endpoint), etag, notModified: false };
+          } finally {
+            clearTimeout(timer);
+          }
+        }
+      );
+    } finally {
+      this.metrics?.recordBackendCall(method, endpoint, status, (Date.now() - startedAt) / 1000);
+    }
+  }
+
+  /**
+   * Builds a typed error from a failed response, keeping the backend's code and request ID
+   */
+  private async toAPIError(response: Response, method: string, endpoint: string): Promise<BlueprintsAPIError> {
+    const text = await response.text().catch(() => '');
+    let body: any = text || undefined;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Keep the raw text
+    }
+
+    // Accept both { error: { code, message } } and { code, message }
+    const payload = typeof body === 'object' && body !== null ? body.error ?? body : {};
+    const backendMessage = typeof payload === 'string' ? payload : payload.message;
+    const message = `${method} ${endpoint} failed with HTTP ${response.status}: ${backendMessage || response.statusText}`;
+
+    return errorForStatus(response.status, message, {
+      status: response.status,
+      code: typeof payload === 'object' ? payload.code : undefined,
+      requestId: response.headers.get('x-request-id') ?? undefined,
+      body,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
     });
+  }
+
+  /**
+   * Returns how long to wait before retrying, or null if the error is final
+   */
+  private retryDelay(error: unknown, attempt: number, idempotent: boolean): number | null {
+    if (attempt >= this.options.maxRetries) {
+      return null;
+    }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    // 429 and 503 with Retry-After were not processed, so any method may be repeated
+    if (error instanceof RateLimitError || (error instanceof ServerError && error.status === 503)) {
+      if (error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, this.options.maxRetryDelayMs);
+      }
     }
 
-    return await response.json();
+    const retryable =
+      error instanceof RateLimitError ||
+      (idempotent && (error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError));
+    if (!retryable) {
+      return null;
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(this.options.retryBaseDelayMs * 2 ** attempt, this.options.maxRetryDelayMs);
+    return Math.random() * ceiling;
   }
 
   async listAgents(): Promise<AgentData[]> {
-    return this.makeRequest('/agents');
+    return this.fetchValid(z.array(agentDataSchema), '/agents');
+  }
+
+  async getAgent(agentId: string): Promise<AgentData> {
+    return this.fetchValid(agentDataSchema, path`/agents/${agentId}`);
   }
 
   async createAgent(params: {
@@ -65,20 +390,20 @@ export class BlueprintsAPIClient {
     framework: string;
     config?: Record<string, any>;
   }): Promise<AgentData> {
-    return this.makeRequest('/agents', {
+    return this.fetchValid(agentDataSchema, '/agents', {
       method: 'POST',
       body: JSON.stringify(params),
     });
   }
 
-  async startAgent(agentId: string): Promise<{ success: boolean; message: string }> {
-    return this.makeRequest(`/agents/${agentId}/start`, {
+  async startAgent(agentId: string): Promise<ActionResult> {
+    return this.fetchValid(actionResultSchema, path`/agents/${agentId}/start`, {
       method: 'POST',
     });
   }
 
-  async stopAgent(agentId: string): Promise<{ success: boolean; message: string }> {
-    return this.makeRequest(`/agents/${agentId}/stop`, {
+  async stopAgent(agentId: string): Promise<ActionResult> {
+    return this.fetchValid(actionResultSchema, path`/agents/${agentId}/stop`, {
       method: 'POST',
     });
   }
@@ -87,53 +412,178 @@ export class BlueprintsAPIClient {
     agentId: string,
     config: Record<string, any>
   ): Promise<AgentData> {
-    return this.makeRequest(`/agents/${agentId}/config`, {
+    return this.fetchValid(agentDataSchema, path`/agents/${agentId}/config`, {
       method: 'PATCH',
       body: JSON.stringify({ config }),
     });
   }
 
-  async removeAgent(agentId: string): Promise<{ success: boolean; message: string }> {
-    return this.makeRequest(`/agents/${agentId}`, {
+  async removeAgent(agentId: string): Promise<ActionResult> {
+    // The backend may answer 204 No Content
+    const result = await this.fetchValid(actionResultSchema.optional(), path`/agents/${agentId}`, {
       method: 'DELETE',
     });
+    return result ?? { success: true, message: `Agent ${agentId} removed` };
   }
 
   async sendMessage(
     agentId: string,
-    content: string
-  ): Promise<{ success: boolean; message_id: string }> {
-    return this.makeRequest(`/agents/${agentId}/messages`, {
+    content: string,
+    attachments?: MessageAttachment[]
+  ): Promise<z.infer<typeof sentMessageSchema>> {
+    return this.fetchValid(sentMessageSchema, path`/agents/${agentId}/messages`, {
       method: 'POST',
-      body: JSON.stringify({ content }),
+      body: JSON.stringify(attachments === undefined ? { content } : { content, attachments }),
     });
   }
 
+  /**
+   * Lists an agent's messages, newest first; with `after`, only messages sent after
+   * that one, oldest first
+   */
+  async listMessages(
+    agentId: string,
+    options: { cursor?: string; limit?: number; after?: string } = {}
+  ): Promise<MessagePage> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) {
+        query.set(key, String(value));
+      }
+    }
+    const suffix = query.toString();
+    return this.fetchValid(messagePageSchema, path`/agents/${agentId}/messages` + (suffix ? `?${suffix}` : ''));
+  }
+
+  async getMessage(agentId: string, messageId: string): Promise<MessageData> {
+    return this.fetchValid(messageDataSchema, path`/agents/${agentId}/messages/${messageId}`);
+  }
+
   async sendTerminal(
     agentId: string,
     command: string
-  ): Promise<{ success: boolean; output: string }> {
-    return this.makeRequest(`/agents/${agentId}/terminal`, {
+  ): Promise<z.infer<typeof terminalCommandResultSchema>> {
+    return this.fetchValid(terminalCommandResultSchema, path`/agents/${agentId}/terminal`, {
       method: 'POST',
       body: JSON.stringify({ command }),
     });
   }
 
+  /**
+   * Opens an interactive terminal session, optionally running a command in it
+   */
+  async openTerminal(agentId: string, command?: string): Promise<z.infer<typeof terminalSessionSchema>> {
+    return this.fetchValid(terminalSessionSchema, path`/agents/${agentId}/terminal/sessions`, {
+      method: 'POST',
+      body: JSON.stringify(command === undefined ? {} : { command }),
+    });
+  }
+
+  async writeTerminal(
+    agentId: string,
+    sessionId: string,
+    data: string
+  ): Promise<z.infer<typeof terminalAckSchema>> {
+    return this.fetchValid(terminalAckSchema, path`/agents/${agentId}/terminal/sessions/${sessionId}/input`, {
+      method: 'POST',
+      body: JSON.stringify({ data }),
+    });
+  }
+
+  async readTerminal(agentId: string, sessionId: string, cursor: number = 0): Promise<TerminalOutput> {
+    return this.fetchValid(terminalOutputSchema, path`/agents/${agentId}/terminal/sessions/${sessionId}/output` + `?cursor=${cursor}`);
+  }
+
+  async signalTerminal(
+    agentId: string,
+    sessionId: string,
+    signal: string
+  ): Promise<z.infer<typeof terminalAckSchema>> {
+    return this.fetchValid(terminalAckSchema, path`/agents/${agentId}/terminal/sessions/${sessionId}/signal`, {
+      method: 'POST',
+      body: JSON.stringify({ signal }),
+    });
+  }
+
+  async closeTerminal(agentId: string, sessionId: string): Promise<z.infer<typeof terminalAckSchema>> {
+    const ack = await this.fetchValid(terminalAckSchema.optional(), path`/agents/${agentId}/terminal/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+    return ack ?? { success: true };
+  }
+
   async agentStatus(agentId: string): Promise<StatusData> {
-    return this.makeRequest(`/agents/${agentId}/status`);
+    return this.fetchValid(statusDataSchema, path`/agents/${agentId}/status`);
   }
 
-  async accountRegister(email: string): Promise<{ success: boolean; message: string }> {
-    return this.makeRequest('/account/register', {
+  async accountRegister(email: string): Promise<ActionResult> {
+    return this.fetchValid(actionResultSchema, '/account/register', {
       method: 'POST',
       body: JSON.stringify({ email }),
     });
   }
 
-  async payUpgrade(tier: string): Promise<{ success: boolean; message: string }> {
-    return this.makeRequest('/account/upgrade', {
+  async payUpgrade(tier: string): Promise<ActionResult> {
+    return this.fetchValid(actionResultSchema, '/account/upgrade', {
       method: 'POST',
       body: JSON.stringify({ tier }),
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ */
+/**
+ * Maps a failed fetch or body read to a timeout or network error
+ */
+function transportError(error: any, method: string, endpoint: string, timeoutMs: number): BlueprintsAPIError {
+  if (error?.name === 'AbortError') {
+    return new TimeoutError(`${method} ${endpoint} timed out after ${timeoutMs}ms`);
+  }
+  return new NetworkError(`${method} ${endpoint} failed: ${error?.message ?? String(error)}`);
+}
+
+/**
+ * Parses a successful response body; an empty body (e.g. 204 No Content) is undefined
+ */
+function parseBody(text: string, method: string, endpoint: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InvalidResponseError(`${method} ${endpoint} returned a body that is not JSON`, { body: text });
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Builds an endpoint path, encoding each interpolated value as a single path segment so
+ * IDs such as `../account/upgrade` cannot reach another endpoint
+ */
+function path(strings: TemplateStringsArray, ...segments: Array<string | number>): string {
+  return strings.reduce((result, text, index) => result + pathSegment(String(segments[index - 1])) + text);
+}
+
+function pathSegment(value: string): string {
+  // URL parsing resolves . and .. segments even when escaped, so they are refused
+  if (value === '.' || value === '..') {
+    throw new ValidationError(`Invalid ID: ${value}`);
+  }
+  return encodeURIComponent(value);
+}
@@ -0,0 +1,349 @@
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { BlueprintsMCPServer, CallToolResult, ListedTool, MCPConfig } from './index.js';
+import { BlueprintsAPIClient } from './blueprints-api.js';
+import { FileKeyStore, KeyFile, keyId } from './key-store.js';
+import { describeError } from './fleet.js';
+
+export const USAGE = `Usage: mcp-server-blueprints <command> [options]
+
+Commands:
+  serve                     Run the MCP server (default)
+    --transport stdio|http  Transport to serve on (default http)
+    --port <port>           HTTP port (default 3000)
+    --host <host>           HTTP interface (default all)
+  keys create               Add a key to the key file and print it once
+    --user <id>             Owner of the key
+    --scopes <list>         Comma-separated scopes, e.g. read,execute
+    --expires <date>        ISO 8601 expiry
+  keys list                 List keys in the key file
+  keys revoke <id|key>      Revoke a key by ID (or ID prefix) or plain key
+  check                     Verify the Blueprints API is reachable with the configured key
+  call <tool>               Call a tool and print its result
+    --args <json>           Tool arguments as a JSON object
+    -y, --yes               Confirm a destructive tool (stop_agent, remove_agent, ...)
+
+Options for every command:
+  --config <file>           YAML or JSON config file (default MCP_CONFIG_FILE)
+  --base-url <url>          Blueprints API base URL
+  --key-file <file>         Key file for HTTP authentication and the keys commands
+  -h, --help                Show this help
+`;
+
+export const cliConfigSchema = z
+  .object({
+    baseUrl: z.string().url().default('https://api.blueprints.example.com'),
+    apiKey: z.string().min(1).optional(),
+    transport: z.enum(['stdio', 'http']).default('http'),
+    port: z.coerce.number().int().min(0).max(65535).default(3000),
+    // All interfaces when unset
+    host: z.string().min(1).optional(),
+    keyFile: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type CLIConfig = z.infer<typeof cliConfigSchema>;
+
+// Environment variables for each config field; they override the config file
+const ENV_VARS: Record<keyof CLIConfig, string> = {
+  baseUrl: 'BLUEPRINTS_BASE_URL',
+  apiKey: 'BLUEPRINTS_API_KEY',
+  transport: 'MCP_TRANSPORT',
+  port: 'MCP_PORT',
+  host: 'MCP_HOST',
+  keyFile: 'MCP_KEY_FILE',
+};
+
+// Flags for each config field; they override the environment. The API key has none so
+// it never shows up in process listings.
+const FLAGS: Partial<Record<keyof CLIConfig, string>> = {
+  baseUrl: 'base-url',
+  transport: 'transport',
+  port: 'port',
+  host: 'host',
+  keyFile: 'key-file',
+};
+
+const OPTIONS = {
+  config: { type: 'string' },
+  'base-url': { type: 'string' },
+  'key-file': { type: 'string' },
+  transport: { type: 'string' },
+  port: { type: 'string' },
+  host: { type: 'string' },
+  user: { type: 'string' },
+  scopes: { type: 'string' },
+  expires: { type: 'string' },
+  args: { type: 'string' },
+  yes: { type: 'boolean', short: 'y' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Flags = Partial<Record<keyof typeof OPTIONS, string | boolean>>;
+
+/**
+ * A mistake in the command line or configuration, reported with exit code 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Layers the config file, then the environment, then flags, and validates the result
+ */
+export function loadCLIConfig(flags: Flags, env: NodeJS.ProcessEnv = process.env): CLIConfig {
+  const layered: Record<string, unknown> = {};
+
+  const file = (flags.config as string | undefined) ?? env.MCP_CONFIG_FILE;
+  if (file) {
+    let data: unknown;
+    try {
+      // YAML is a superset of JSON, so this reads both
+      data = parseYaml(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new UsageError(`Cannot read config file ${file}: ${describeError(error)}`);
+    }
+    if (data !== null && (typeof data !== 'object' || Array.isArray(data))) {
+      throw new UsageError(`Config file ${file} must contain an object`);
+    }
+    Object.assign(layered, data);
+  }
+
+  for (const [field, variable] of Object.entries(ENV_VARS)) {
+    if (env[variable]) {
+      layered[field] = env[variable];
+    }
+  }
+  for (const [field, flag] of Object.entries(FLAGS)) {
+    if (flags[flag as keyof Flags] !== undefined) {
+      layered[field] = flags[flag as keyof Flags];
+    }
+  }
+
+  const parsed = cliConfigSchema.safeParse(layered);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new UsageError(`Invalid configuration: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+interface Output {
+  write(text: string): unknown;
+}
+
+export interface CLIEnvironment {
+  env: NodeJS.ProcessEnv;
+  stdout: Output;
+  stderr: Output;
+}
+
+/**
+ * Runs a command and returns its exit code. `serve` returns once the server is listening
+ * and leaves it running.
+ */
+export async function runCLI(
+  argv: string[],
+  io: CLIEnvironment = { env: process.env, stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+    } catch (error) {
+      throw new UsageError(describeError(error));
+    }
+
+    const flags: Flags = parsed.values;
+    const [command = 'serve', ...rest] = parsed.positionals;
+    if (flags.help) {
+      io.stdout.write(USAGE);
+      return 0;
+    }
+
+    const config = loadCLIConfig(flags, io.env);
+    switch (command) {
+      case 'serve':
+        return await serve(config);
+      case 'keys':
+        return runKeysCommand(config, rest, flags, io);
+      case 'check':
+        return await check(config, io);
+      case 'call':
+        return await call(config, rest[0], flags.args as string | undefined, flags.yes === true, io);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr.write(`Error: ${describeError(error)}\n`);
+    return 1;
+  }
+}
+
+function requireApiKey(config: CLIConfig): string {
+  if (!config.apiKey) {
+    throw new UsageError(`${ENV_VARS.apiKey} environment variable (or apiKey in the config file) is required`);
+  }
+  return config.apiKey;
+}
+
+function serverConfig(config: CLIConfig): MCPConfig {
+  return {
+    baseUrl: config.baseUrl,
+    apiKey: requireApiKey(config),
+    keyStore: config.keyFile ? new FileKeyStore(config.keyFile) : undefined,
+  };
+}
+
+async function serve(config: CLIConfig): Promise<number> {
+  const server = new BlueprintsMCPServer(serverConfig(config));
+  if (config.transport === 'stdio') {
+    await server.startStdio();
+  } else {
+    await server.startHTTP(config.port, config.host);
+  }
+
+  const shutdown = async () => {
+    console.error('Shutting down gracefully...');
+    await server.close();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  return 0;
+}
+
+function runKeysCommand(config: CLIConfig, args: string[], flags: Flags, io: CLIEnvironment): number {
+  if (!config.keyFile) {
+    throw new UsageError(`The keys commands need a key file: pass --key-file or set ${ENV_VARS.keyFile}`);
+  }
+  const keyFile = new KeyFile(config.keyFile);
+
+  switch (args[0]) {
+    case 'create': {
+      const userId = flags.user as string | undefined;
+      const scopes = ((flags.scopes as string | undefined) ?? '').split(',').map((scope) => scope.trim()).filter(Boolean);
+      if (!userId || scopes.length === 0) {
+        throw new UsageError('keys create needs --user and --scopes');
+      }
+      const expiresAt = flags.expires ? new Date(flags.expires as string) : undefined;
+      if (expiresAt && isNaN(expiresAt.getTime())) {
+        throw new UsageError(`Invalid --expires date: ${flags.expires}`);
+      }
+
+      const { key, entry } = keyFile.create({ userId, scopes, expiresAt });
+      io.stdout.write(`${key}\n`);
+      io.stderr.write(`Created key ${keyId(entry)} for ${userId}. It is not stored and cannot be shown again.\n`);
+      return 0;
+    }
+    case 'list': {
+      const now = new Date();
+      for (const entry of keyFile.list()) {
+        const state = entry.revoked ? 'revoked' : entry.expiresAt && entry.expiresAt <= now ? 'expired' : 'active';
+        const expires = entry.expiresAt ? entry.expiresAt.toISOString() : 'never';
+        io.stdout.write(`${keyId(entry)}  ${entry.userId}  ${entry.scopes.join(',')}  expires ${expires}  ${state}\n`);
+      }
+      return 0;
+    }
+    case 'revoke': {
+      if (!args[1]) {
+        throw new UsageError('keys revoke needs a key ID or key');
+      }
+      const entry = keyFile.revoke(args[1]);
+      io.stderr.write(`Revoked key ${keyId(entry)} for ${entry.userId}\n`);
+      return 0;
+    }
+    default:
+      throw new UsageError(`Unknown keys command: ${args[0] ?? '(none)'}`);
+  }
+}
+
+/**
+ * Lists agents with the configured key to show the backend is reachable and accepts it
+ */
+async function check(config: CLIConfig, io: CLIEnvironment): Promise<number> {
+  const client = new BlueprintsAPIClient(config.baseUrl, requireApiKey(config), {
+    cache: { enabled: false },
+    maxRetries: 0,
+  });
+
+  const startedAt = Date.now();
+  try {
+    const agents = await client.listAgents();
+    io.stdout.write(`OK: ${config.baseUrl} answered in ${Date.now() - startedAt}ms (${agents.length} agents)\n`);
+    return 0;
+  } catch (error) {
+    io.stderr.write(`FAILED: ${config.baseUrl}: ${describeError(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * Calls a tool as the stdio transport would, printing its structured result as JSON to
+ * stdout, or its text when it has none (errors).
+ * Destructive tools only run with `--yes`, which stands in for the confirmation the
+ * server would otherwise ask for.
+ */
+async function call(
+  config: CLIConfig,
+  tool: string | undefined,
+  rawArgs: string | undefined,
+  confirmed: boolean,
+  io: CLIEnvironment
+): Promise<number> {
+  if (!tool) {
+    throw new UsageError('call needs a tool name');
+  }
+
+  let args: unknown = {};
+  if (rawArgs !== undefined) {
+    try {
+      args = JSON.parse(rawArgs);
+    } catch (error) {
+      throw new UsageError(`--args must be JSON: ${describeError(error)}`);
+    }
+  }
+
+  const server = new BlueprintsMCPServer({ ...serverConfig(config), confirmation: { required: !confirmed } });
+  try {
+    const listed = await server.receiveMessage({ jsonrpc: '2.0', id: 0, method: 'tools/list' });
+    const tools: ListedTool[] = listed?.result?.tools ?? [];
+    const definition = tools.find((candidate) => candidate.name === tool);
+    if (definition?.annotations?.destructiveHint && !confirmed) {
+      throw new UsageError(`${tool} is destructive; pass --yes to confirm it should run`);
+    }
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: tool, arguments: args },
+    });
+
+    if (response?.error) {
+      io.stderr.write(`Error: ${response.error.message}\n`);
+      return 1;
+    }
+    const result: CallToolResult | undefined = response?.result;
+    if (result?.structuredContent !== undefined) {
+      io.stdout.write(`${JSON.stringify(result.structuredContent, null, 2)}\n`);
+      return 0;
+    }
+    const text = (result?.content ?? [])
+      .flatMap((item) => (item.type === 'text' ? [item.text] : []))
+      .join('\n');
+    (result?.isError ? io.stderr : io.stdout).write(`${text}\n`);
+    return result?.isError ? 1 : 0;
+  } finally {
+    await server.close();
+  }
+}
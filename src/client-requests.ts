@@ -0,0 +1,100 @@
+import type { RequestContext } from './index.js';
+import { ErrorCode, JSONRPCError, JSONRPCResponse } from './jsonrpc.js';
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Requests the server sends to the client (e.g. elicitation/create), matched to
+ * the responses the client posts back
+ */
+export class ClientRequests {
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextId = 1;
+
+  /**
+   * Sends a request on the channel of the request being handled and waits for the reply.
+   * Rejects on timeout, on an error reply, or when the originating request is cancelled.
+   */
+  send(context: RequestContext, method: string, params: Record<string, any>, timeoutMs: number): Promise<any> {
+    if (!context.sendRequest) {
+      return Promise.reject(
+        new JSONRPCError(ErrorCode.InvalidRequest, `Cannot send ${method} to this client`)
+      );
+    }
+
+    const id = this.nextId++;
+    const key = this.key(context.sessionId, id);
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        this.pending.delete(key);
+        context.signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        settle();
+        reject(context.signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        settle();
+        reject(new JSONRPCError(ErrorCode.InternalError, `Client did not answer ${method} within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.pending.set(key, {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+        timer,
+      });
+
+      if (context.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      context.signal?.addEventListener('abort', onAbort, { once: true });
+      context.sendRequest!({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  /**
+   * Settles the request a client response answers; false if none was waiting
+   */
+  handleResponse(sessionId: string | undefined, response: JSONRPCResponse): boolean {
+    const pending = this.pending.get(this.key(sessionId, response.id));
+    if (!pending) {
+      return false;
+    }
+
+    if (response.error) {
+      pending.reject(new JSONRPCError(response.error.code, response.error.message, response.error.data));
+    } else {
+      pending.resolve(response.result);
+    }
+    return true;
+  }
+
+  /**
+   * Fails every request still waiting on a session, e.g. when it ends
+   */
+  rejectAll(sessionId: string): void {
+    const prefix = `${sessionId}:`;
+    for (const [key, pending] of this.pending.entries()) {
+      if (key.startsWith(prefix)) {
+        pending.reject(new JSONRPCError(ErrorCode.InternalError, 'Session ended'));
+      }
+    }
+  }
+
+  private key(sessionId: string | undefined, id: string | number | null): string {
+    return `${sessionId ?? ''}:${id}`;
+  }
+}
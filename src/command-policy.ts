@@ -0,0 +1,387 @@
+import { appendFileSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { BlueprintsAPIClient } from './blueprints-api.js';
+import type { RequestContext } from './index.js';
+import { ToolError } from './errors.js';
+import { globToRegExp } from './glob.js';
+
+const actionSchema = z.enum(['allow', 'deny', 'approve']);
+
+export type PolicyAction = z.infer<typeof actionSchema>;
+
+const ruleSchema = z
+  .object({
+    id: z.string().optional(),
+    action: actionSchema,
+    // Shell-style pattern matched against the whole command; `*` matches anything, `?` one character
+    glob: z.string().optional(),
+    // Regular expression searched for in the command
+    regex: z.string().optional(),
+    // Limit the rule to these agents and/or projects; it applies everywhere otherwise
+    agents: z.array(z.string()).optional(),
+    projects: z.array(z.string()).optional(),
+    reason: z.string().optional(),
+  })
+  .refine((rule) => (rule.glob === undefined) !== (rule.regex === undefined), {
+    message: 'Each rule needs exactly one of "glob" or "regex"',
+  });
+
+export type PolicyRule = z.infer<typeof ruleSchema>;
+
+export const commandPolicySchema = z.object({
+  // Outcome for commands no rule matches
+  defaultAction: actionSchema.default('allow'),
+  // Outcome for commands caught by the built-in destructive pattern checks; `allow` turns them off
+  destructiveAction: actionSchema.default('deny'),
+  rules: z.array(ruleSchema).default([]),
+});
+
+export type CommandPolicyConfig = z.input<typeof commandPolicySchema>;
+
+export interface PolicyTarget {
+  agentId: string;
+  projectId?: string;
+}
+
+export interface PolicyEvaluation {
+  action: PolicyAction;
+  // ID of the rule that decided, or null when the default action applied
+  rule: string | null;
+  reason: string;
+}
+
+interface BuiltinCheck {
+  id: string;
+  reason: string;
+  test: (command: string) => boolean;
+}
+
+const NETWORK_TOOL = /\b(?:curl|wget|nc|ncat|netcat|scp|sftp|rsync|ftp|telnet|socat)\b|\/dev\/(?:tcp|udp)\//;
+const SECRET_SOURCE = /\b(?:env|printenv)\b|\$\{?\w*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD)\w*\}?|(?:^|[\s/])\.env\b/i;
+const CREDENTIAL_FILE = /\.ssh\/id_\w+|\.aws\/credentials|\/etc\/shadow|\.git-credentials|\.netrc|\.kube\/config|\.docker\/config\.json/;
+
+/**
+ * Commands that are refused (or sent for approval) whatever the configured rules say
+ */
+const DESTRUCTIVE_CHECKS: BuiltinCheck[] = [
+  {
+    id: 'builtin:recursive-delete',
+    reason: 'Recursively deletes the root or home directory',
+    test: (command) =>
+      /\brm\b(?=[^;&|]*\s(?:-[a-zA-Z]*[rR]|--recursive))[^;&|]*\s(?:\/|\/\*|~\/?\*?|\$HOME\/?\*?)(?=$|[\s;&|])/.test(command),
+  },
+  {
+    id: 'builtin:disk-wipe',
+    reason: 'Overwrites or formats a block device',
+    test: (command) =>
+      /\b(?:mkfs(?:\.\w+)?|wipefs|shred)\b[^;&|]*\/dev\/|\bdd\b[^;&|]*\bof=\/dev\/(?!null\b)|>\s*\/dev\/(?:sd|hd|vd|xvd|nvme)/.test(command),
+  },
+  {
+    id: 'builtin:recursive-permissions-root',
+    reason: 'Recursively changes permissions or ownership of the root directory',
+    test: (command) => /\bch(?:mod|own)\s+(?:\S+\s+)*-[a-zA-Z]*R[a-zA-Z]*\s+(?:\S+\s+)*\/(?=$|[\s;&|])/.test(command),
+  },
+  {
+    id: 'builtin:fork-bomb',
+    reason: 'Fork bomb',
+    test: (command) => /:\s*\(\s*\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/.test(command),
+  },
+  {
+    id: 'builtin:credential-exfiltration',
+    reason: 'Sends secrets or credential files over the network',
+    test: (command) =>
+      NETWORK_TOOL.test(command) && (SECRET_SOURCE.test(command) || CREDENTIAL_FILE.test(command)),
+  },
+  {
+    id: 'builtin:credential-access',
+    reason: 'Reads a credential file',
+    test: (command) => CREDENTIAL_FILE.test(command),
+  },
+  {
+    id: 'builtin:remote-script',
+    reason: 'Pipes a downloaded script into a shell',
+    test: (command) => /\b(?:curl|wget)\b[^|]*\|\s*(?:sudo\s+)?(?:ba|z|k|da)?sh\b/.test(command),
+  },
+];
+
+// Command substitution hides commands inside others, so allow rules never vouch for it
+const SUBSTITUTION = /\$\(|`|[<>]\(/;
+
+/**
+ * Splits a command line into the simple commands it chains with ;, &&, ||, | or &
+ */
+export function splitCommand(command: string): string[] {
+  return command
+    .split(/\s*(?:&&|\|\||;|\n|\|(?!\|)|(?<![<>&])&(?![&>]))\s*/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+interface CompiledRule {
+  id: string;
+  action: PolicyAction;
+  pattern: RegExp;
+  agents?: string[];
+  projects?: string[];
+  reason?: string;
+}
+
+/**
+ * Decides whether a terminal command may run: deny rules and built-in destructive
+ * checks win over approval rules, which win over allow rules. A command is only
+ * allowed by rules when every command it chains matches an allow rule.
+ */
+export class CommandPolicy {
+  private rules: CompiledRule[];
+  private defaultAction: PolicyAction;
+  private destructiveAction: PolicyAction;
+
+  constructor(config: CommandPolicyConfig = {}) {
+    const parsed = commandPolicySchema.parse(config);
+    this.defaultAction = parsed.defaultAction;
+    this.destructiveAction = parsed.destructiveAction;
+    this.rules = parsed.rules.map((rule, index) => ({
+      id: rule.id ?? `rules[${index}]`,
+      action: rule.action,
+      pattern: rule.glob !== undefined ? globToRegExp(rule.glob) : new RegExp(rule.regex!),
+      agents: rule.agents,
+      projects: rule.projects,
+      reason: rule.reason,
+    }));
+  }
+
+  /**
+   * Whether any rule is limited to projects, so callers know to look up the agent's project
+   */
+  get needsProject(): boolean {
+    return this.rules.some((rule) => rule.projects !== undefined);
+  }
+
+  evaluate(command: string, target: PolicyTarget): PolicyEvaluation {
+    const normalized = command.trim();
+    const segments = splitCommand(normalized);
+    const candidates = [normalized, ...segments];
+    const rules = this.rules.filter((rule) => this.applies(rule, target));
+
+    for (const action of ['deny', 'approve'] as const) {
+      for (const rule of rules) {
+        if (rule.action === action && candidates.some((candidate) => rule.pattern.test(candidate))) {
+          return { action, rule: rule.id, reason: rule.reason ?? `Matched ${action} rule ${rule.id}` };
+        }
+      }
+      if (this.destructiveAction === action) {
+        const check = DESTRUCTIVE_CHECKS.find((builtin) => builtin.test(normalized));
+        if (check) {
+          return { action, rule: check.id, reason: check.reason };
+        }
+      }
+    }
+
+    const allowRules = rules.filter((rule) => rule.action === 'allow');
+    if (allowRules.length > 0 && segments.length > 0 && !SUBSTITUTION.test(normalized)) {
+      const matched = segments.map((segment) => allowRules.find((rule) => rule.pattern.test(segment)));
+      if (matched.every((rule) => rule !== undefined)) {
+        const ids = [...new Set(matched.map((rule) => rule!.id))];
+        return { action: 'allow', rule: ids.join(','), reason: `Matched allow rule ${ids.join(', ')}` };
+      }
+    }
+
+    return { action: this.defaultAction, rule: null, reason: `No rule matched; default is ${this.defaultAction}` };
+  }
+
+  private applies(rule: CompiledRule, target: PolicyTarget): boolean {
+    if (rule.agents && !rule.agents.includes(target.agentId)) {
+      return false;
+    }
+    if (rule.projects && (!target.projectId || !rule.projects.includes(target.projectId))) {
+      return false;
+    }
+    return true;
+  }
+}
+
+export type ApprovalOutcome = 'accept' | 'decline' | 'cancel' | 'unsupported' | 'error';
+
+/**
+ * Everything recorded about a policy decision, for security review
+ */
+export interface DecisionRecord {
+  timestamp: string;
+  tool: string;
+  agentId: string;
+  projectId?: string;
+  command: string;
+  sessionId?: string;
+  userId?: string;
+  action: PolicyAction;
+  rule: string | null;
+  reason: string;
+  // Human answer when the policy asked for approval
+  approval?: ApprovalOutcome;
+  allowed: boolean;
+}
+
+export interface DecisionLog {
+  record(decision: DecisionRecord): void;
+}
+
+/**
+ * Writes decisions to stderr as JSON lines
+ */
+export class ConsoleDecisionLog implements DecisionLog {
+  record(decision: DecisionRecord): void {
+    console.error(JSON.stringify({ type: 'command_policy_decision', ...decision }));
+  }
+}
+
+/**
+ * Appends decisions to a file as JSON lines
+ */
+export class FileDecisionLog implements DecisionLog {
+  constructor(private filePath: string) {}
+
+  record(decision: DecisionRecord): void {
+    appendFileSync(this.filePath, JSON.stringify(decision) + '\n');
+  }
+}
+
+export interface CommandPolicyOptions {
+  policy?: CommandPolicyConfig;
+  // Where decisions are recorded; defaults to stderr
+  decisionLog?: DecisionLog;
+  // How long to wait for a human to answer an approval request
+  approvalTimeoutMs?: number;
+}
+
+/**
+ * Asks the human to approve a command; resolves with their answer
+ */
+export type ApprovalRequester = (
+  context: RequestContext,
+  request: { agentId: string; command: string; reason: string },
+  timeoutMs: number
+) => Promise<ApprovalOutcome>;
+
+/**
+ * Applies the command policy to terminal tools, asking for approval when the policy
+ * says so and recording every decision
+ */
+export class CommandGuard {
+  private policy: CommandPolicy;
+  private decisionLog: DecisionLog;
+  private approvalTimeoutMs: number;
+
+  constructor(
+    private apiClient: BlueprintsAPIClient,
+    private requestApproval: ApprovalRequester,
+    options: CommandPolicyOptions = {}
+  ) {
+    this.policy = new CommandPolicy(options.policy);
+    this.decisionLog = options.decisionLog ?? new ConsoleDecisionLog();
+    this.approvalTimeoutMs = options.approvalTimeoutMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Throws a ToolError unless the command may run
+   */
+  async authorize(tool: string, agentId: string, command: string, context: RequestContext): Promise<void> {
+    const projectId = this.policy.needsProject
+      ? (await this.apiClient.getAgent(agentId)).project_id
+      : undefined;
+    const evaluation = this.policy.evaluate(command, { agentId, projectId });
+
+    let approval: ApprovalOutcome | undefined;
+    if (evaluation.action === 'approve') {
+      try {
+        approval = await this.requestApproval(
+          context,
+          { agentId, command, reason: evaluation.reason },
+          this.approvalTimeoutMs
+        );
+      } catch (error) {
+        if (context.signal?.aborted) {
+          this.record(tool, agentId, projectId, command, context, evaluation, 'cancel', false);
+          throw error;
+        }
+        approval = 'error';
+      }
+    }
+
+    const allowed = evaluation.action === 'allow' || approval === 'accept';
+    this.record(tool, agentId, projectId, command, context, evaluation, approval, allowed);
+
+    if (!allowed) {
+      throw new ToolError(this.refusal(evaluation, approval));
+    }
+  }
+
+  private refusal(evaluation: PolicyEvaluation, approval?: ApprovalOutcome): string {
+    switch (approval) {
+      case undefined:
+        return `Command blocked by policy: ${evaluation.reason}.`;
+      case 'unsupported':
+        return `Command needs human approval (${evaluation.reason}), but this client cannot ask for it.`;
+      case 'error':
+        return `Command needs human approval (${evaluation.reason}), but no answer was received.`;
+      default:
+        return `Command was not approved (${evaluation.reason}). Do not retry it without asking the user.`;
+    }
+  }
+
+  private record(
+    tool: string,
+    agentId: string,
+    projectId: string | undefined,
+    command: string,
+    context: RequestContext,
+    evaluation: PolicyEvaluation,
+    approval: ApprovalOutcome | undefined,
+    allowed: boolean
+  ): void {
+    try {
+      this.decisionLog.record({
+        timestamp: new Date().toISOString(),
+        tool,
+        agentId,
+        projectId,
+        command,
+        sessionId: context.sessionId,
+        userId: context.session?.userId,
+        action: evaluation.action,
+        rule: evaluation.rule,
+        reason: evaluation.reason,
+        approval,
+        allowed,
+      });
+    } catch (error) {
+      console.error('Failed to record command policy decision:', error);
+    }
+  }
+}
+
+/**
+ * Policy options from the environment: MCP_COMMAND_POLICY_FILE (JSON or YAML policy)
+ * and MCP_COMMAND_DECISION_LOG (JSON lines file; stderr when unset)
+ */
+export function commandPolicyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CommandPolicyOptions {
+  const options: CommandPolicyOptions = {};
+
+  const policyFile = env.MCP_COMMAND_POLICY_FILE;
+  if (policyFile) {
+    const raw = readFileSync(policyFile, 'utf8');
+    const ext = extname(policyFile).toLowerCase();
+    options.policy = commandPolicySchema.parse(ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw));
+  }
+
+  if (env.MCP_COMMAND_DECISION_LOG) {
+    options.decisionLog = new FileDecisionLog(env.MCP_COMMAND_DECISION_LOG);
+  }
+
+  if (env.MCP_COMMAND_APPROVAL_TIMEOUT) {
+    options.approvalTimeoutMs = Number(env.MCP_COMMAND_APPROVAL_TIMEOUT) * 1000;
+  }
+
+  return options;
+}
@@ -0,0 +1,156 @@
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import type { RequestContext } from './index.js';
+import type { ApprovalOutcome } from './command-policy.js';
+import { ToolError } from './errors.js';
+
+export interface ConfirmationOptions {
+  // Ask before destructive tools act; turn off only where the caller has already confirmed
+  required?: boolean;
+  // How long a confirmation token stays valid
+  tokenTtlMs?: number;
+  // How long to wait for the user to answer an elicitation
+  elicitationTimeoutMs?: number;
+}
+
+/**
+ * Asks the user whether an action may go ahead; resolves with their answer
+ */
+export type ConfirmationRequester = (
+  context: RequestContext,
+  message: string,
+  timeoutMs: number
+) => Promise<ApprovalOutcome>;
+
+/**
+ * Returned by a destructive tool in place of acting when the client cannot ask the user
+ */
+export const confirmationRequiredSchema = z.object({
+  confirmation_required: z.literal(true),
+  action: z.string(),
+  confirmation_token: z.string(),
+  expires_at: z.string(),
+  instructions: z.string(),
+});
+
+export type ConfirmationRequired = z.infer<typeof confirmationRequiredSchema>;
+
+interface IssuedToken {
+  tool: string;
+  // Digest of the arguments the token was issued for, so it cannot confirm anything else
+  digest: string;
+  userId?: string;
+  expiresAt: number;
+}
+
+/**
+ * Makes destructive tools confirm with the user before acting: through elicitation when
+ * the client supports it, otherwise with a single-use token the caller must send back
+ * with the same arguments
+ */
+export class Confirmations {
+  private tokens: Map<string, IssuedToken> = new Map();
+  private required: boolean;
+  private tokenTtlMs: number;
+  private elicitationTimeoutMs: number;
+
+  constructor(private requestConfirmation: ConfirmationRequester, options: ConfirmationOptions = {}) {
+    this.required = options.required ?? true;
+    this.tokenTtlMs = options.tokenTtlMs ?? 5 * 60 * 1000;
+    this.elicitationTimeoutMs = options.elicitationTimeoutMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Null when the action may go ahead; otherwise what the tool should return so the
+   * caller can confirm. Throws a ToolError when the user declines or the token is bad.
+   */
+  async confirm(
+    tool: string,
+    args: Record<string, unknown>,
+    action: string,
+    token: string | undefined,
+    context: RequestContext
+  ): Promise<ConfirmationRequired | null> {
+    if (!this.required) {
+      return null;
+    }
+
+    const digest = createHash('sha256').update(`${tool}\n${JSON.stringify(args)}`).digest('hex');
+    const userId = context.session?.userId;
+    if (token !== undefined) {
+      this.redeem(token, tool, digest, userId);
+      return null;
+    }
+
+    let outcome: ApprovalOutcome;
+    try {
+      outcome = await this.requestConfirmation(context, `${action}?`, this.elicitationTimeoutMs);
+    } catch (error) {
+      if (context.signal?.aborted) {
+        throw error;
+      }
+      outcome = 'error';
+    }
+
+    switch (outcome) {
+      case 'accept':
+        return null;
+      case 'unsupported':
+        return this.issue(tool, digest, userId, action);
+      case 'error':
+        throw new ToolError(`${action} needs the user's confirmation, but no answer was received.`);
+      default:
+        throw new ToolError(`The user did not confirm: ${action}. Do not retry it without asking them.`);
+    }
+  }
+
+  private issue(tool: string, digest: string, userId: string | undefined, action: string): ConfirmationRequired {
+    const now = Date.now();
+    for (const [token, issued] of this.tokens) {
+      if (issued.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    }
+
+    const token = randomBytes(16).toString('base64url');
+    const expiresAt = now + this.tokenTtlMs;
+    this.tokens.set(token, { tool, digest, userId, expiresAt });
+    return {
+      confirmation_required: true,
+      action,
+      confirmation_token: token,
+      expires_at: new Date(expiresAt).toISOString(),
+      instructions:
+        `Nothing has been done yet. Show the user the action above and ask them to confirm it. ` +
+        `Only if they agree, call ${tool} again with the same arguments plus this confirmation_token.`,
+    };
+  }
+
+  private redeem(token: string, tool: string, digest: string, userId: string | undefined): void {
+    const issued = this.tokens.get(token);
+    if (!issued || issued.expiresAt <= Date.now() || issued.tool !== tool || issued.userId !== userId) {
+      throw new ToolError(`Invalid or expired confirmation token. Call ${tool} without it to get a new one.`);
+    }
+    if (issued.digest !== digest) {
+      throw new ToolError(
+        `The confirmation token was issued for different arguments to ${tool}. Call it without a token to confirm these.`
+      );
+    }
+    this.tokens.delete(token);
+  }
+}
+
+/**
+ * Confirmation options from the environment: MCP_CONFIRM_DESTRUCTIVE (`false` turns
+ * confirmation off) and MCP_CONFIRMATION_TTL (seconds a token stays valid)
+ */
+export function confirmationOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ConfirmationOptions {
+  const options: ConfirmationOptions = {};
+  if (env.MCP_CONFIRM_DESTRUCTIVE) {
+    options.required = env.MCP_CONFIRM_DESTRUCTIVE !== 'false';
+  }
+  if (env.MCP_CONFIRMATION_TTL) {
+    options.tokenTtlMs = Number(env.MCP_CONFIRMATION_TTL) * 1000;
+  }
+  return options;
+}
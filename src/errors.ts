@@ -0,0 +1,185 @@
+export interface APIErrorDetails {
+  status?: number;
+  // Machine-readable error code returned by the backend
+  code?: string;
+  // Backend request ID, for correlating with server logs
+  requestId?: string;
+  // Raw error body, when the backend sent one
+  body?: unknown;
+  // How long the backend asked us to wait (Retry-After), if it said
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class for every failure talking to the Blueprints backend
+ */
+export class BlueprintsAPIError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly body?: unknown;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message);
+    this.name = 'BlueprintsAPIError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /**
+   * Message shown to the model when a tool call fails, with a hint on how to recover
+   */
+  toToolMessage(): string {
+    const parts = [this.message];
+    const hint = this.hint();
+    if (hint) {
+      parts.push(hint);
+    }
+    if (this.requestId) {
+      parts.push(`(request ID: ${this.requestId})`);
+    }
+    return parts.join(' ');
+  }
+
+  protected hint(): string | null {
+    return null;
+  }
+}
+
+export class AuthError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'AuthError';
+  }
+
+  protected hint(): string {
+    return 'The server\'s API key is missing, invalid or lacks permission for this operation.';
+  }
+}
+
+export class NotFoundError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+
+  protected hint(): string {
+    return 'Check the ID, for example with list_agents.';
+  }
+}
+
+export class ValidationError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ValidationError';
+  }
+
+  protected hint(): string {
+    return 'Fix the arguments and try again.';
+  }
+}
+
+export class RateLimitError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'RateLimitError';
+  }
+
+  protected hint(): string {
+    return this.retryAfterMs !== undefined
+      ? `Wait ${Math.ceil(this.retryAfterMs / 1000)}s before retrying.`
+      : 'Wait before retrying.';
+  }
+}
+
+export class ServerError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ServerError';
+  }
+
+  protected hint(): string {
+    return 'The Blueprints backend failed; retrying later may help.';
+  }
+}
+
+export class NetworkError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+
+  protected hint(): string {
+    return 'The Blueprints backend could not be reached; retrying later may help.';
+  }
+}
+
+export class TimeoutError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'TimeoutError';
+  }
+
+  protected hint(): string {
+    return 'The operation may still complete; check its state before retrying.';
+  }
+}
+
+/**
+ * The backend answered, but not with data of the expected shape
+ */
+export class InvalidResponseError extends BlueprintsAPIError {
+  constructor(message: string, details: APIErrorDetails = {}) {
+    super(message, details);
+    this.name = 'InvalidResponseError';
+  }
+
+  protected hint(): string {
+    return 'The Blueprints backend may be a version this server does not support.';
+  }
+}
+
+/**
+ * Picks the error class matching an HTTP status
+ */
+export function errorForStatus(
+  status: number,
+  message: string,
+  details: APIErrorDetails
+): BlueprintsAPIError {
+  if (status === 401 || status === 403) {
+    return new AuthError(message, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 400 || status === 409 || status === 422) {
+    return new ValidationError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new BlueprintsAPIError(message, details);
+}
+
+/**
+ * A tool refusing or failing on its own (not a backend failure); reported to the
+ * model as a tool error like backend failures are
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+
+  toToolMessage(): string {
+    return this.message;
+  }
+}
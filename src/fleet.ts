@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import type { AgentData, BlueprintsAPIClient } from './blueprints-api.js';
+import type { AgentConfigEditor } from './agent-config.js';
+import type { RequestContext } from './index.js';
+import { BlueprintsAPIError, ToolError } from './errors.js';
+import { globToRegExp } from './glob.js';
+import { reportProgress } from './progress.js';
+
+export const agentSelectorSchema = z.object({
+  project_id: z.string().optional(),
+  framework: z.string().optional(),
+  status: z.string().optional(),
+  // Shell-style pattern matched against agent names, case-insensitively
+  name: z.string().optional(),
+});
+
+export type AgentSelector = z.infer<typeof agentSelectorSchema>;
+
+/**
+ * Arguments shared by every fleet tool
+ */
+export const fleetTargetShape = {
+  agent_ids: z.array(z.string()).min(1).optional().describe('Agents to act on. Give either this or selector.'),
+  selector: agentSelectorSchema.optional().describe('Act on every agent matching all of these fields.'),
+  dry_run: z.boolean().default(false).describe('Only report what would change.'),
+  concurrency: z.number().int().min(1).max(20).optional().describe('Agents acted on at once.'),
+};
+
+export interface FleetTarget {
+  agent_ids?: string[];
+  selector?: AgentSelector;
+  dry_run: boolean;
+  concurrency?: number;
+}
+
+export type FleetAction = 'start' | 'stop' | 'restart';
+
+const agentOutcomeSchema = z.object({
+  agent_id: z.string(),
+  name: z.string().optional(),
+  // `would_change` and `unchanged` are only reported by dry runs
+  result: z.enum(['succeeded', 'failed', 'skipped', 'would_change', 'unchanged']),
+  detail: z.string().optional(),
+  // Top-level config keys that change, for bulk_edit_agent_config
+  changes: z.array(z.object({ key: z.string(), from: z.unknown(), to: z.unknown() })).optional(),
+});
+
+export type AgentOutcome = z.infer<typeof agentOutcomeSchema>;
+
+export const fleetReportSchema = z.object({
+  dry_run: z.boolean(),
+  matched: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  results: z.array(agentOutcomeSchema),
+});
+
+export type FleetReport = z.infer<typeof fleetReportSchema>;
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, keeping the input order.
+ * Stops starting new calls once the signal is aborted.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  signal?.throwIfAborted();
+  return results;
+}
+
+/**
+ * The message reported for one item of a bulk operation that failed
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof BlueprintsAPIError) {
+    return error.toToolMessage();
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Whether an agent has every field the selector sets
+ */
+export function matchesSelector(agent: AgentData, selector: AgentSelector): boolean {
+  if (selector.project_id !== undefined && agent.project_id !== selector.project_id) {
+    return false;
+  }
+  if (selector.framework !== undefined && agent.framework !== selector.framework) {
+    return false;
+  }
+  if (selector.status !== undefined && agent.status !== selector.status) {
+    return false;
+  }
+  if (selector.name !== undefined && !globToRegExp(selector.name, 'i').test(agent.name)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Starts, stops, restarts and reconfigures many agents at once
+ */
+export class FleetOperations {
+  constructor(
+    private apiClient: BlueprintsAPIClient,
+    // Validates config edits and records them for rollback
+    private agentConfigs: AgentConfigEditor,
+    private defaultConcurrency: number = 5
+  ) {}
+
+  async run(action: FleetAction, target: FleetTarget, context: RequestContext): Promise<FleetReport> {
+    const { agents, missing } = await this.resolve(target);
+
+    const outcomes = await this.forEach(agents, target, context, async (agent): Promise<AgentOutcome> => {
+      const running = agent.status === 'running';
+      if (action !== 'restart' && running === (action === 'start')) {
+        return { agent_id: agent.id, name: agent.name, result: target.dry_run ? 'unchanged' : 'skipped', detail: `already ${agent.status}` };
+      }
+      if (target.dry_run) {
+        return { agent_id: agent.id, name: agent.name, result: 'would_change', detail: `${agent.status} -> ${action === 'stop' ? 'stopped' : 'running'}` };
+      }
+
+      if (action === 'stop' || (action === 'restart' && running)) {
+        await this.apiClient.stopAgent(agent.id);
+      }
+      if (action !== 'stop') {
+        await this.apiClient.startAgent(agent.id);
+      }
+      return { agent_id: agent.id, name: agent.name, result: 'succeeded' };
+    });
+
+    return this.report(target, missing, outcomes);
+  }
+
+  /**
+   * Applies a config patch to each agent through the config editor, so each result is
+   * validated and can be rolled back. Like edit_agent_config, top-level keys in the patch
+   * replace the agent's; dry runs list the keys whose values would change.
+   */
+  async editConfig(target: FleetTarget, config: Record<string, any>, context: RequestContext): Promise<FleetReport> {
+    const { agents, missing } = await this.resolve(target);
+
+    const outcomes = await this.forEach(agents, target, context, async (agent): Promise<AgentOutcome> => {
+      if (!target.dry_run) {
+        const change = await this.agentConfigs.edit(agent.id, { config }, 'bulk_edit');
+        return {
+          agent_id: agent.id,
+          name: agent.name,
+          result: 'succeeded',
+          detail: change.version === undefined ? 'already matched' : `saved as config version ${change.version}`,
+        };
+      }
+
+      // Listings may omit configs, so fetch each agent in full
+      const full = await this.apiClient.getAgent(agent.id);
+      const current = full.config ?? {};
+      // Fails the agent's dry run as the edit itself would fail
+      this.agentConfigs.validate(full.framework, { ...current, ...config });
+      const changes = Object.entries(config)
+        .filter(([key, value]) => JSON.stringify(current[key]) !== JSON.stringify(value))
+        .map(([key, value]) => ({ key, from: current[key], to: value }));
+      return {
+        agent_id: agent.id,
+        name: agent.name,
+        result: changes.length > 0 ? 'would_change' : 'unchanged',
+        changes,
+      };
+    });
+
+    return this.report(target, missing, outcomes);
+  }
+
+  /**
+   * Finds the agents a tool call targets; listed IDs that do not exist are returned as missing
+   */
+  private async resolve(target: FleetTarget): Promise<{ agents: AgentData[]; missing: string[] }> {
+    if ((target.agent_ids === undefined) === (target.selector === undefined)) {
+      throw new ToolError('Give exactly one of agent_ids or selector');
+    }
+    if (target.selector && Object.values(target.selector).every((value) => value === undefined)) {
+      throw new ToolError('selector needs at least one field');
+    }
+
+    const all = await this.apiClient.listAgents();
+    if (target.selector) {
+      return { agents: all.filter((agent) => matchesSelector(agent, target.selector!)), missing: [] };
+    }
+
+    const byId = new Map(all.map((agent) => [agent.id, agent]));
+    const ids = [...new Set(target.agent_ids)];
+    return {
+      agents: ids.filter((id) => byId.has(id)).map((id) => byId.get(id)!),
+      missing: ids.filter((id) => !byId.has(id)),
+    };
+  }
+
+  /**
+   * Runs the operation per agent with bounded concurrency, turning failures into
+   * per-agent outcomes and reporting progress as agents finish
+   */
+  private async forEach(
+    agents: AgentData[],
+    target: FleetTarget,
+    context: RequestContext,
+    operation: (agent: AgentData) => Promise<AgentOutcome>
+  ): Promise<AgentOutcome[]> {
+    let done = 0;
+    return mapWithConcurrency(
+      agents,
+      target.concurrency ?? this.defaultConcurrency,
+      async (agent) => {
+        let outcome: AgentOutcome;
+        try {
+          outcome = await operation(agent);
+        } catch (error) {
+          outcome = { agent_id: agent.id, name: agent.name, result: 'failed', detail: describeError(error) };
+        }
+        reportProgress(context, ++done, `${agent.name}: ${outcome.result}`, agents.length);
+        return outcome;
+      },
+      context.signal
+    );
+  }
+
+  private report(target: FleetTarget, missing: string[], outcomes: AgentOutcome[]): FleetReport {
+    const results = [
+      ...outcomes,
+      ...missing.map((id): AgentOutcome => ({ agent_id: id, result: 'failed', detail: 'Agent not found' })),
+    ];
+    const count = (result: AgentOutcome['result']) => results.filter((outcome) => outcome.result === result).length;
+
+    return {
+      dry_run: target.dry_run,
+      matched: outcomes.length,
+      succeeded: count('succeeded'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      results,
+    };
+  }
+}
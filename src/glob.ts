@@ -0,0 +1,15 @@
+/**
+ * Compiles a shell-style pattern (`*` matches anything, `?` one character) into a
+ * regular expression matching the whole string
+ */
+export function globToRegExp(glob: string, flags: string = ''): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, `s${flags}`);
+}
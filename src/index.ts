@@ -1,226 +1,1595 @@
-import { Server, StdioServerTransport } from '@modelcontextprotocol/sdk';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { BlueprintsAPIClient } from './blueprints-api.js';
-import { HTTPTransport } from './transports/http.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  BlueprintsAPIClient,
+  StatusData,
+  actionResultSchema,
+  agentDataSchema,
+  messageDataSchema,
+  messagePageSchema,
+  statusDataSchema,
+} from './blueprints-api.js';
+import type { CacheOptions } from './response-cache.js';
+import { Metrics } from './metrics.js';
+import { Tracer, TracingOptions, parseTraceparent, tracingOptionsFromEnv } from './tracing.js';
+import {
+  BackendCredentials,
+  BackendPool,
+  BackendRouter,
+  TenantConfig,
+  tenantConfigFromEnv,
+} from './backends.js';
+import { BlueprintsAPIError, ToolError } from './errors.js';
+import { AgentResources, ResourceSubscriptions, agentLink } from './resources.js';
+import { AgentPrompts } from './prompts.js';
+import {
+  AgentRemovals,
+  RecycleBin,
+  RecycleBinOptions,
+  recycleBinOptionsFromEnv,
+  removalSchema,
+  removedAgentsSchema,
+  restorationSchema,
+} from './recycle-bin.js';
+import {
+  ConfirmationOptions,
+  ConfirmationRequired,
+  Confirmations,
+  confirmationOptionsFromEnv,
+  confirmationRequiredSchema,
+} from './confirmation.js';
+import { TerminalOptions, TerminalResult, TerminalSessions, terminalResultSchema } from './terminal.js';
+import { ClientRequests } from './client-requests.js';
+import { BlueprintRunner, blueprintApplySchema, blueprintPlanSchema } from './blueprint.js';
+import {
+  AgentConfigEditor,
+  AgentConfigOptions,
+  ConfigChange,
+  ConfigHistory,
+  agentConfigOptionsFromEnv,
+  configChangeSchema,
+  configHistorySchema,
+  configPreviewSchema,
+  configUpdateShape,
+} from './agent-config.js';
+import { agentPageSchema, agentQueryShape, queryAgents } from './agent-query.js';
+import { AgentWaiter, WaitOptions, waitResultSchema } from './lifecycle.js';
+import { Conversations, MessageOptions, attachmentSchema, sendResultSchema } from './messages.js';
+import {
+  FleetAction,
+  FleetOperations,
+  FleetReport,
+  FleetTarget,
+  fleetReportSchema,
+  fleetTargetShape,
+} from './fleet.js';
+import {
+  RateLimitOptions,
+  RateLimitRefusal,
+  RateLimiter,
+  rateLimitError,
+  rateLimitOptionsFromEnv,
+} from './rate-limit.js';
+import { AuditEvent, AuditLog, AuditOptions, auditOptionsFromEnv, trackBackendRequests } from './audit.js';
+import {
+  ApprovalOutcome,
+  CommandGuard,
+  CommandPolicyOptions,
+  commandPolicyOptionsFromEnv,
+} from './command-policy.js';
+import type { KeyStore } from './key-store.js';
+import type { SessionOptions } from './session-store.js';
+import type { OAuthOptions } from './oauth.js';
+import { Scope, SessionData, hasScope } from './auth.js';
+import { HTTPTransport } from './transports/http-transport.js';
+import {
+  ErrorCode,
+  JSONRPCError,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  errorResponse,
+  isNotification,
+  isResponse,
+  resultResponse,
+} from './jsonrpc.js';
+
+export const SERVER_NAME = 'blueprints-mcp-server';
+export const SERVER_VERSION = '1.0.0';
+
+// Newest first; the first entry is offered when the client asks for an unknown version
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// Identity that stdio requests are rate limited under, as they carry no key
+const LOCAL_USER = 'local';
+
+// Methods dispatch() answers; anything else is counted in metrics as "unknown"
+const REQUEST_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'tools/call',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete',
+]);
+
+/**
+ * The helpers that talk to the Blueprints API, built once per backend identity
+ */
+interface Backend {
+  apiClient: BlueprintsAPIClient;
+  resources: AgentResources;
+  subscriptions: ResourceSubscriptions;
+  terminals: TerminalSessions;
+  fleet: FleetOperations;
+  blueprints: BlueprintRunner;
+  agentConfigs: AgentConfigEditor;
+  waiter: AgentWaiter;
+  conversations: Conversations;
+  commandGuard: CommandGuard;
+  prompts: AgentPrompts;
+  removals: AgentRemovals;
+}
+
+function disposeBackend(backend: Backend): void {
+  backend.subscriptions.close();
+  backend.terminals.dispose();
+}
+
+/**
+ * How a request ended, as recorded in audit events and metrics
+ */
+function outcomeOf(response: JSONRPCResponse): AuditEvent['outcome'] {
+  return response.error ? 'error' : response.result?.isError ? 'tool_error' : 'success';
+}
+
+// What start_agent and stop_agent return; the wait fields are there when they waited
+const lifecycleResultSchema = actionResultSchema.extend(waitResultSchema.partial().shape);
+
+const successSchema = z.object({ success: z.boolean() });
+
+/**
+ * Output of a destructive tool, which may ask for confirmation instead of acting
+ */
+function orConfirmation<Output extends z.ZodTypeAny>(schema: Output) {
+  return z.union([confirmationRequiredSchema, schema]);
+}
+
+function isPending(result: object): result is ConfirmationRequired {
+  return 'confirmation_required' in result;
+}
+
+function pendingSummary(pending: ConfirmationRequired): string {
+  return `Confirmation required: ${pending.action}. ${pending.instructions}`;
+}
+
+function agentLabel(agent: { id: string; name?: string }): string {
+  return agent.name ? `${agent.name} (${agent.id})` : agent.id;
+}
+
+function statusLine(status: StatusData): string {
+  return `${status.status}, ${status.health}`;
+}
+
+function excerpt(text: string, length = 120): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+function countsLine(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([key, count]) => `${count} ${key}`)
+    .join(', ');
+}
+
+/**
+ * A tool's output schema as listed in tools/list, which requires an object at the top
+ * even when the output is a union
+ */
+function outputJSONSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return { type: 'object', ...jsonSchema };
+}
+
+function lifecycleSummary(result: z.infer<typeof lifecycleResultSchema>): string {
+  return result.status
+    ? `${result.message} Agent ${result.agent_id} is ${statusLine(result.status)} after ${result.elapsed_ms}ms.`
+    : result.message;
+}
+
+function fleetSummary(report: FleetReport): string {
+  const counts = report.dry_run
+    ? `${report.results.filter((outcome) => outcome.result === 'would_change').length} would change`
+    : `${report.succeeded} succeeded, ${report.failed} failed, ${report.skipped} skipped`;
+  return [
+    `${report.matched} agents matched${report.dry_run ? ' (dry run)' : ''}: ${counts}.`,
+    ...report.results
+      .filter((outcome) => outcome.result === 'failed')
+      .map((outcome) => `- ${agentLabel({ id: outcome.agent_id, name: outcome.name })}: ${outcome.detail}`),
+  ].join('\n');
+}
+
+function describeFleetTarget(target: FleetTarget): string {
+  const parts = [
+    ...(target.agent_ids ? [`agents ${target.agent_ids.join(', ')}`] : []),
+    ...(target.selector ? [`every agent matching ${JSON.stringify(target.selector)}`] : []),
+  ];
+  return parts.join(' and ');
+}
+
+function fleetAgents(report: FleetReport) {
+  return report.results.map((outcome) => ({ id: outcome.agent_id, name: outcome.name }));
+}
+
+function configChangeSummary(result: ConfigChange): string {
+  if (result.version === undefined) {
+    return `Agent ${result.agent_id}'s config already matched; nothing changed.`;
+  }
+  const restored = result.restored_version === undefined ? '' : ` restoring version ${result.restored_version}`;
+  return (
+    `Saved agent ${result.agent_id}'s config as version ${result.version}${restored}: ` +
+    (result.changes.map((change) => `${change.op} ${change.path}`).join(', ') || 'no changes') +
+    '.'
+  );
+}
+
+function terminalSummary(result: TerminalResult): string {
+  const state = result.exited ? `Exited with code ${result.exit_code ?? 'unknown'}` : 'Still running';
+  const truncated = result.truncated ? '; output truncated' : '';
+  return `${state}${truncated}.${result.output ? `\n\n${result.output}` : ' No new output.'}`;
+}
 
 export interface MCPConfig {
   baseUrl: string;
   apiKey: string;
+  // TTLs for caching backend GET responses, or `{ enabled: false }`
+  apiCache?: CacheOptions;
+  // Where HTTP clients' API keys are verified; defaults to createKeyStoreFromEnv
+  keyStore?: KeyStore;
+  // Session storage and expiry; defaults to sessionOptionsFromEnv
+  session?: SessionOptions;
+  // Accept OAuth access tokens alongside API keys; defaults to oauthOptionsFromEnv
+  oauth?: OAuthOptions;
+  // How often subscribed agents' status is polled
+  resourcePollIntervalMs?: number;
+  // Polling, output limits and timeouts for terminal sessions
+  terminal?: TerminalOptions;
+  // Which terminal commands may run and where decisions are recorded; defaults to commandPolicyOptionsFromEnv
+  commandPolicy?: CommandPolicyOptions;
+  // Where every request is recorded and which secrets are redacted; defaults to auditOptionsFromEnv
+  audit?: AuditOptions;
+  // Token buckets and daily quotas per key, session and tool; defaults to rateLimitOptionsFromEnv
+  rateLimit?: RateLimitOptions;
+  // Per-framework config schemas and config history; defaults to agentConfigOptionsFromEnv
+  agentConfig?: AgentConfigOptions;
+  // Reply polling and attachment limits for messaging tools
+  messages?: MessageOptions;
+  // Where spans are exported; defaults to tracingOptionsFromEnv
+  tracing?: TracingOptions;
+  // Bearer token required to read /metrics; defaults to MCP_METRICS_TOKEN, open when unset
+  metricsToken?: string;
+  // Which backend credentials and base URL each user gets; defaults to tenantConfigFromEnv
+  tenants?: TenantConfig;
+  // Backoff for status polling by tools that wait for agents to start or stop
+  lifecycle?: WaitOptions;
+  // Whether and how destructive tools confirm with the user; defaults to confirmationOptionsFromEnv
+  confirmation?: ConfirmationOptions;
+  // How long removed agents can be restored; defaults to recycleBinOptionsFromEnv
+  recycleBin?: RecycleBinOptions;
+}
+
+/**
+ * Per-request state supplied by the transport that received the message
+ */
+export interface RequestContext {
+  sessionId?: string;
+  // Authenticated session; scopes are only enforced when one is present
+  session?: SessionData;
+  // Delivers a notification to the client while the request is still in flight
+  sendNotification?: (notification: JSONRPCNotification) => void;
+  // Sends a request to the client on the same channel, e.g. to elicit input from the user
+  sendRequest?: (request: JSONRPCRequest) => void;
+  // Delivers a notification to the session after the request has completed
+  notifySession?: (notification: JSONRPCNotification) => void;
+  // Token from params._meta.progressToken, set when the client wants progress notifications
+  progressToken?: string | number;
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+  // W3C trace context of the incoming request, e.g. the HTTP traceparent header
+  traceparent?: string;
+  // Bearer credential of the HTTP request, passed on to the backend in `forward` mode
+  credential?: string;
+}
+
+/**
+ * Hints about a tool's behaviour that clients may use, e.g. to ask before calling it
+ */
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+/**
+ * A tool as listed in tools/list
+ */
+export interface ListedTool {
+  name: string;
+  description: string;
+  inputSchema: ReturnType<typeof zodToJsonSchema>;
+  outputSchema: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * A content block in a tools/call result
+ */
+export type ToolContent = { type: 'text'; text: string } | ReturnType<typeof agentLink>;
+
+export interface CallToolResult {
+  content: ToolContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+export interface ToolDefinition<
+  Schema extends z.AnyZodObject = z.AnyZodObject,
+  Output extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  name: string;
+  description: string;
+  inputSchema: Schema;
+  // Shape of the handler's result, listed for clients and returned as structuredContent
+  outputSchema: Output;
+  // Scope a session needs to see and call the tool
+  scope: Scope;
+  annotations?: ToolAnnotations;
+  handler: (args: z.infer<Schema>, context: RequestContext) => Promise<z.infer<Output>>;
+  // Short human-readable text for the result, shown alongside the structured content
+  summarize: (result: z.infer<Output>) => string;
+  // Agents the result is about, returned as resource links
+  agents?: (result: z.infer<Output>) => Array<{ id: string; name?: string }>;
 }
 
 export class BlueprintsMCPServer {
-  private server: Server;
-  private apiClient: BlueprintsAPIClient;
   private config: MCPConfig;
   private httpTransport: HTTPTransport | null = null;
+  private stdioTransport: StdioServerTransport | null = null;
+  private tools: Map<string, ToolDefinition> = new Map();
+  private router: BackendRouter;
+  private backends: BackendPool<Backend>;
+  // Shared by every backend's config editor so one history file serves them all
+  private configHistory: ConfigHistory;
+  private agentConfigOptions: AgentConfigOptions;
+  private commandPolicyOptions: CommandPolicyOptions;
+  // Shared by every backend, with each one's snapshots kept apart
+  private recycleBin: RecycleBin;
+  private confirmations: Confirmations;
+  // Requests still being handled, keyed by session and request ID, so they can be cancelled
+  private inFlight: Map<string, AbortController> = new Map();
+  private clientRequests: ClientRequests = new ClientRequests();
+  // Capabilities each session's client declared in initialize
+  private clientCapabilities: Map<string, Record<string, any>> = new Map();
+  private audit: AuditLog;
+  private rateLimiter: RateLimiter;
+  private metrics: Metrics = new Metrics();
+  private tracer: Tracer;
 
   constructor(config: MCPConfig) {
     this.config = config;
-    this.apiClient = new BlueprintsAPIClient(config.baseUrl, config.apiKey);
-    
-    // Define the MCP server with the SDK
-    this.server = new Server({
-      name: 'blueprints-mcp-server',
-      version: '1.0.0',
-    });
-    
+    this.tracer = new Tracer(config.tracing ?? tracingOptionsFromEnv());
+    this.agentConfigOptions = config.agentConfig ?? agentConfigOptionsFromEnv();
+    this.configHistory = new ConfigHistory(this.agentConfigOptions.historySize, this.agentConfigOptions.historyFile);
+    this.commandPolicyOptions = config.commandPolicy ?? commandPolicyOptionsFromEnv();
+    this.recycleBin = new RecycleBin(config.recycleBin ?? recycleBinOptionsFromEnv());
+    this.confirmations = new Confirmations(
+      (context, message, timeoutMs) => this.elicitApproval(context, message, 'Go ahead', timeoutMs),
+      config.confirmation ?? confirmationOptionsFromEnv()
+    );
+    this.audit = new AuditLog(config.audit ?? auditOptionsFromEnv());
+    this.rateLimiter = new RateLimiter(config.rateLimit ?? rateLimitOptionsFromEnv());
+
+    this.router = new BackendRouter({ baseUrl: config.baseUrl, apiKey: config.apiKey }, config.tenants ?? tenantConfigFromEnv());
+    this.backends = new BackendPool(
+      (credentials) => this.createBackend(credentials, credentials.owner),
+      {
+        isIdle: (backend) => backend.terminals.size === 0 && backend.subscriptions.size === 0,
+        dispose: disposeBackend,
+      },
+      this.router.maxBackends
+    );
+
     this.registerTools();
   }
 
+  /**
+   * Builds the helpers for one backend identity. `historyScope` keeps its config history
+   * and removed agents apart from other tenants' and users'; the server's own identity has none.
+   */
+  private createBackend(credentials: BackendCredentials, historyScope: string | undefined): Backend {
+    const apiClient = new BlueprintsAPIClient(credentials.baseUrl, credentials.apiKey, {
+      cache: this.config.apiCache,
+      metrics: this.metrics,
+      tracer: this.tracer,
+    });
+    const terminals = new TerminalSessions(apiClient, this.config.terminal);
+    const agentConfigs = new AgentConfigEditor(apiClient, {
+      ...this.agentConfigOptions,
+      history: this.configHistory,
+      historyScope,
+    });
+    const removals = new AgentRemovals(apiClient, this.recycleBin, agentConfigs, historyScope);
+    return {
+      apiClient,
+      resources: new AgentResources(apiClient),
+      subscriptions: new ResourceSubscriptions(apiClient, this.config.resourcePollIntervalMs),
+      terminals,
+      fleet: new FleetOperations(apiClient, agentConfigs),
+      blueprints: new BlueprintRunner(apiClient, agentConfigs, removals),
+      waiter: new AgentWaiter(apiClient, this.config.lifecycle),
+      conversations: new Conversations(apiClient, this.config.messages),
+      agentConfigs,
+      commandGuard: new CommandGuard(
+        apiClient,
+        (context, request, timeoutMs) =>
+          this.elicitApproval(
+            context,
+            `Allow this command to run on agent ${request.agentId}?\n\n${request.command}\n\nFlagged because: ${request.reason}`,
+            'Run the command',
+            timeoutMs
+          ),
+        this.commandPolicyOptions
+      ),
+      prompts: new AgentPrompts(apiClient, terminals, agentConfigs),
+      removals,
+    };
+  }
+
+  /**
+   * The backend a request talks to: the server's own for stdio, otherwise the one the
+   * tenant config picks for the session's user
+   */
+  private backendFor(context: RequestContext): Backend {
+    const identity = context.session ? { userId: context.session.userId, credential: context.credential } : null;
+    return this.backends.get(this.router.resolve(identity));
+  }
+
+  /**
+   * Registers a tool for our JSON-RPC dispatch
+   */
+  private registerTool<Schema extends z.AnyZodObject, Output extends z.ZodTypeAny>(tool: ToolDefinition<Schema, Output>) {
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
+  }
+
   private registerTools() {
     // Register all the tools defined in the specification
     
     // list_agents tool
-    this.server.tool({
+    this.registerTool({
       name: 'list_agents',
-      description: 'Returns a list of all agents owned by the user.',
-      inputSchema: z.object({}),
-      handler: async () => {
-        return await this.apiClient.listAgents();
+      description: 'Lists the user\'s agents a page at a time, with optional filters, sorting and field selection. Pass nextCursor back as cursor for the next page.',
+      scope: 'read',
+      inputSchema: z.object(agentQueryShape),
+      outputSchema: agentPageSchema,
+      handler: async (query, context) => {
+        return queryAgents(await this.backendFor(context).apiClient.listAgents(), query);
       },
+      summarize: (page) =>
+        [
+          `${page.agents.length} of ${page.total} agents${page.nextCursor ? '; pass nextCursor as cursor for more' : ''}.`,
+          ...page.agents.map((agent) => `- ${agentLabel(agent)}${agent.status ? `: ${agent.status}` : ''}`),
+        ].join('\n'),
+      agents: (page) => page.agents,
     });
 
     // create_agent tool
-    this.server.tool({
+    this.registerTool({
       name: 'create_agent',
       description: 'Creates a new agent.',
+      scope: 'write',
       inputSchema: z.object({
         project_id: z.string().optional(),
         name: z.string(),
         framework: z.string(),
         config: z.record(z.any()).optional(),
       }),
-      handler: async ({ project_id, name, framework, config }) => {
-        return await this.apiClient.createAgent({
+      outputSchema: agentDataSchema,
+      handler: async ({ project_id, name, framework, config }, context) => {
+        const backend = this.backendFor(context);
+        backend.agentConfigs.validate(framework, config ?? {});
+        const agent = await backend.apiClient.createAgent({
           project_id,
           name,
           framework,
           config
         });
+        backend.agentConfigs.created(agent.id, agent.config ?? config ?? {});
+        return agent;
       },
+      summarize: (agent) => `Created ${agent.framework} agent ${agentLabel(agent)}, status ${agent.status}.`,
+      agents: (agent) => [agent],
     });
 
+    const timeoutSeconds = z.number().int().min(1).max(900).default(120).describe('How long to wait, in seconds.');
+    const confirmationToken = z
+      .string()
+      .optional()
+      .describe('confirmation_token from an earlier call that returned confirmation_required; send it only once the user has agreed.');
+
     // start_agent tool
-    this.server.tool({
+    this.registerTool({
       name: 'start_agent',
-      description: 'Triggers an agent to start.',
+      description: 'Triggers an agent to start. With wait_until, waits until the agent is running or healthy and returns its status.',
+      scope: 'execute',
       inputSchema: z.object({
         agent_id: z.string(),
+        wait_until: z.enum(['running', 'healthy']).optional(),
+        timeout_seconds: timeoutSeconds,
       }),
-      handler: async ({ agent_id }) => {
-        return await this.apiClient.startAgent(agent_id);
+      outputSchema: lifecycleResultSchema,
+      handler: async ({ agent_id, wait_until, timeout_seconds }, context) => {
+        const backend = this.backendFor(context);
+        const since = Date.now();
+        const result = await backend.apiClient.startAgent(agent_id);
+        if (!wait_until) {
+          return result;
+        }
+        return { ...result, ...(await backend.waiter.wait(agent_id, wait_until, timeout_seconds * 1000, context, since)) };
       },
+      summarize: lifecycleSummary,
     });
 
     // stop_agent tool
-    this.server.tool({
+    this.registerTool({
       name: 'stop_agent',
-      description: 'Triggers an agent to stop.',
+      description: 'Triggers an agent to stop, once the user confirms. With wait_until, waits until the agent has stopped and returns its status.',
+      scope: 'execute',
+      annotations: { destructiveHint: true, idempotentHint: true },
+      inputSchema: z.object({
+        agent_id: z.string(),
+        wait_until: z.enum(['stopped']).optional(),
+        timeout_seconds: timeoutSeconds,
+        confirmation_token: confirmationToken,
+      }),
+      outputSchema: orConfirmation(lifecycleResultSchema),
+      handler: async ({ confirmation_token, ...args }, context) => {
+        const { agent_id, wait_until, timeout_seconds } = args;
+        const backend = this.backendFor(context);
+        const agent = await backend.apiClient.getAgent(agent_id);
+        const pending = await this.confirmations.confirm(
+          'stop_agent',
+          args,
+          `Stop agent "${agent.name}" (${agent_id}, ${agent.framework}, currently ${agent.status})`,
+          confirmation_token,
+          context
+        );
+        if (pending) {
+          return pending;
+        }
+
+        const since = Date.now();
+        const result = await backend.apiClient.stopAgent(agent_id);
+        if (!wait_until) {
+          return result;
+        }
+        return { ...result, ...(await backend.waiter.wait(agent_id, wait_until, timeout_seconds * 1000, context, since)) };
+      },
+      summarize: (result) => (isPending(result) ? pendingSummary(result) : lifecycleSummary(result)),
+    });
+
+    // wait_for_agent tool
+    this.registerTool({
+      name: 'wait_for_agent',
+      description: 'Waits until an agent is running, stopped or healthy, sending progress while it waits. Returns the final status and how long it took.',
+      scope: 'read',
       inputSchema: z.object({
         agent_id: z.string(),
+        state: z.enum(['running', 'stopped', 'healthy']),
+        timeout_seconds: timeoutSeconds,
       }),
-      handler: async ({ agent_id }) => {
-        return await this.apiClient.stopAgent(agent_id);
+      outputSchema: waitResultSchema,
+      handler: async ({ agent_id, state, timeout_seconds }, context) => {
+        return await this.backendFor(context).waiter.wait(agent_id, state, timeout_seconds * 1000, context);
+      },
+      summarize: (result) => `Agent ${result.agent_id} is ${result.target} after ${result.elapsed_ms}ms: ${statusLine(result.status)}.`,
+      agents: (result) => [{ id: result.agent_id }],
+    });
+
+    // start_agents tool
+    this.registerTool({
+      name: 'start_agents',
+      description: 'Starts many agents at once. Agents already running are skipped. Reports the outcome per agent.',
+      scope: 'execute',
+      inputSchema: z.object(fleetTargetShape),
+      outputSchema: fleetReportSchema,
+      handler: async (target, context) => {
+        return await this.backendFor(context).fleet.run('start', target, context);
       },
+      summarize: fleetSummary,
+      agents: fleetAgents,
     });
 
+    // stop_agents and restart_agents tools
+    const fleetActions: Array<[FleetAction, string, ToolAnnotations]> = [
+      ['stop', 'Stops many agents at once. Agents not running are skipped.', { destructiveHint: true, idempotentHint: true }],
+      [
+        'restart',
+        'Restarts many agents at once; agents not running are just started.',
+        { destructiveHint: true, idempotentHint: false },
+      ],
+    ];
+    for (const [action, description, annotations] of fleetActions) {
+      const name = `${action}_agents`;
+      this.registerTool({
+        name,
+        description: `${description} Asks the user to confirm unless dry_run is set. Reports the outcome per agent.`,
+        scope: 'execute',
+        annotations,
+        inputSchema: z.object({ ...fleetTargetShape, confirmation_token: confirmationToken }),
+        outputSchema: orConfirmation(fleetReportSchema),
+        handler: async ({ confirmation_token, ...target }, context) => {
+          if (!target.dry_run) {
+            const pending = await this.confirmations.confirm(
+              name,
+              target,
+              `${action === 'stop' ? 'Stop' : 'Restart'} ${describeFleetTarget(target)}`,
+              confirmation_token,
+              context
+            );
+            if (pending) {
+              return pending;
+            }
+          }
+          return await this.backendFor(context).fleet.run(action, target, context);
+        },
+        summarize: (result) => (isPending(result) ? pendingSummary(result) : fleetSummary(result)),
+        agents: (result) => (isPending(result) ? [] : fleetAgents(result)),
+      });
+    }
+
     // edit_agent_config tool
-    this.server.tool({
+    this.registerTool({
       name: 'edit_agent_config',
-      description: 'Updates agent parameters.',
+      description: 'Updates agent parameters. Give one of config, merge_patch or json_patch. The result is validated against the framework\'s config schema before it is sent, and the previous config is kept for rollback_agent_config.',
+      scope: 'write',
+      inputSchema: z.object({
+        agent_id: z.string(),
+        ...configUpdateShape,
+      }),
+      outputSchema: configChangeSchema,
+      handler: async ({ agent_id, ...update }, context) => {
+        return await this.backendFor(context).agentConfigs.edit(agent_id, update);
+      },
+      summarize: configChangeSummary,
+      agents: (result) => [{ id: result.agent_id }],
+    });
+
+    // preview_agent_config tool
+    this.registerTool({
+      name: 'preview_agent_config',
+      description: 'Shows what edit_agent_config would do: the resulting config, the changes against the current one and any validation issues. Changes nothing.',
+      scope: 'read',
       inputSchema: z.object({
         agent_id: z.string(),
+        ...configUpdateShape,
+      }),
+      outputSchema: configPreviewSchema,
+      handler: async ({ agent_id, ...update }, context) => {
+        return await this.backendFor(context).agentConfigs.preview(agent_id, update);
+      },
+      summarize: (preview) =>
+        [
+          `${preview.changes.length} changes to agent ${preview.agent_id}'s config; ${preview.valid ? 'valid' : 'invalid'} for ${preview.framework}.`,
+          ...preview.issues.map((issue) => `- ${issue.path}: ${issue.message}`),
+        ].join('\n'),
+      agents: (preview) => [{ id: preview.agent_id }],
+    });
+
+    // get_agent_config_history tool
+    this.registerTool({
+      name: 'get_agent_config_history',
+      description: 'Lists the recorded versions of an agent\'s config, newest first.',
+      scope: 'read',
+      inputSchema: z.object({
+        agent_id: z.string(),
+      }),
+      outputSchema: configHistorySchema,
+      handler: async ({ agent_id }, context) => {
+        return { agent_id, versions: this.backendFor(context).agentConfigs.versions(agent_id) };
+      },
+      summarize: ({ agent_id, versions }) =>
+        versions.length === 0
+          ? `No config versions are recorded for agent ${agent_id}.`
+          : `${versions.length} config versions recorded for agent ${agent_id}; the newest is version ${versions[0].version} (${versions[0].source}, ${versions[0].saved_at}).`,
+      agents: (history) => [{ id: history.agent_id }],
+    });
+
+    // rollback_agent_config tool
+    this.registerTool({
+      name: 'rollback_agent_config',
+      description: 'Restores a recorded version of an agent\'s config. Without version, restores the newest version that differs from the current config.',
+      scope: 'write',
+      inputSchema: z.object({
+        agent_id: z.string(),
+        version: z.number().int().positive().optional(),
+      }),
+      outputSchema: configChangeSchema,
+      handler: async ({ agent_id, version }, context) => {
+        return await this.backendFor(context).agentConfigs.rollback(agent_id, version);
+      },
+      summarize: configChangeSummary,
+      agents: (result) => [{ id: result.agent_id }],
+    });
+
+    // bulk_edit_agent_config tool
+    this.registerTool({
+      name: 'bulk_edit_agent_config',
+      description: 'Applies the same config update to many agents. Each result is validated and recorded like edit_agent_config, so rollback_agent_config can undo it. Use dry_run to see which keys would change.',
+      scope: 'write',
+      inputSchema: z.object({
+        ...fleetTargetShape,
         config: z.record(z.any()),
       }),
-      handler: async ({ agent_id, config }) => {
-        return await this.apiClient.editAgentConfig(agent_id, config);
+      outputSchema: fleetReportSchema,
+      handler: async ({ config, ...target }, context) => {
+        return await this.backendFor(context).fleet.editConfig(target, config, context);
+      },
+      summarize: fleetSummary,
+      agents: fleetAgents,
+    });
+
+    // blueprint_plan tool
+    this.registerTool({
+      name: 'blueprint_plan',
+      description: 'Compares a blueprint (YAML or JSON) with the agents that exist and lists the creates, updates, replacements and removals needed to match it. Changes nothing.',
+      scope: 'read',
+      inputSchema: z.object({
+        blueprint: z.string().describe('Blueprint file contents.'),
+      }),
+      outputSchema: blueprintPlanSchema,
+      handler: async ({ blueprint }, context) => {
+        return await this.backendFor(context).blueprints.plan(blueprint);
       },
+      summarize: (plan) =>
+        [
+          `Plan ${plan.plan_id}: ${countsLine(plan.summary)}.`,
+          ...plan.actions.filter((action) => action.action !== 'unchanged').map((action) => `- ${action.action} ${action.name}`),
+        ].join('\n'),
+    });
+
+    // blueprint_apply tool
+    this.registerTool({
+      name: 'blueprint_apply',
+      description: 'Creates, updates, replaces and removes agents so they match a blueprint (YAML or JSON). Agents are only removed when the blueprint sets prune, and plans that remove or replace agents need the user\'s confirmation. Removed agents can be brought back with restore_agent.',
+      scope: 'write',
+      annotations: { destructiveHint: true, idempotentHint: true },
+      inputSchema: z.object({
+        blueprint: z.string().describe('Blueprint file contents.'),
+        plan_id: z.string().optional().describe('plan_id from blueprint_plan; the apply is refused if the plan has changed since.'),
+        confirmation_token: confirmationToken,
+      }),
+      outputSchema: orConfirmation(blueprintApplySchema),
+      handler: async ({ blueprint, plan_id, confirmation_token }, context) => {
+        const { blueprints } = this.backendFor(context);
+        const plan = await blueprints.reviewedPlan(blueprint, plan_id);
+        const removed = plan.actions.filter((action) => action.action === 'remove' || action.action === 'replace');
+        if (removed.length > 0) {
+          const pending = await this.confirmations.confirm(
+            'blueprint_apply',
+            // Bound to the plan, so a token cannot confirm removals it was not issued for
+            { blueprint, plan_id: plan.plan_id },
+            `Apply blueprint plan ${plan.plan_id}, which ` +
+              removed.map((action) => `${action.action}s agent "${action.name}" (${action.agent_id})`).join(', '),
+            confirmation_token,
+            context
+          );
+          if (pending) {
+            return pending;
+          }
+        }
+        return await blueprints.run(plan, context);
+      },
+      summarize: (result) =>
+        isPending(result)
+          ? pendingSummary(result)
+          : [
+              `Applied plan ${result.plan_id}: ${result.succeeded} succeeded, ${result.failed} failed.`,
+              ...result.results
+                .filter((outcome) => outcome.result === 'failed')
+                .map((outcome) => `- ${outcome.action} ${outcome.name} failed: ${outcome.detail}`),
+            ].join('\n'),
+      agents: (result) =>
+        isPending(result)
+          ? []
+          : result.results
+              .filter((outcome) => outcome.result === 'succeeded' && outcome.action !== 'remove' && outcome.agent_id)
+              .map((outcome) => ({ id: outcome.agent_id!, name: outcome.name })),
     });
 
     // remove_agent tool
-    this.server.tool({
+    this.registerTool({
       name: 'remove_agent',
-      description: 'Deletes an agent.',
+      description: 'Deletes an agent, once the user confirms. Its record and config are kept for a grace period so restore_agent can recreate it.',
+      scope: 'write',
+      annotations: { destructiveHint: true, idempotentHint: true },
       inputSchema: z.object({
         agent_id: z.string(),
+        confirmation_token: confirmationToken,
+      }),
+      outputSchema: orConfirmation(removalSchema),
+      handler: async ({ agent_id, confirmation_token }, context) => {
+        const backend = this.backendFor(context);
+        const agent = await backend.apiClient.getAgent(agent_id);
+        const pending = await this.confirmations.confirm(
+          'remove_agent',
+          { agent_id },
+          `Remove agent "${agent.name}" (${agent_id}, ${agent.framework}, currently ${agent.status})`,
+          confirmation_token,
+          context
+        );
+        if (pending) {
+          return pending;
+        }
+        return await backend.removals.remove(agent, context.session?.userId);
+      },
+      summarize: (result) => {
+        if (isPending(result)) {
+          return pendingSummary(result);
+        }
+        return result.restorable_until
+          ? `Removed agent ${result.agent_id}. restore_agent can recreate it until ${result.restorable_until}.`
+          : `Removed agent ${result.agent_id} for good.`;
+      },
+    });
+
+    // list_removed_agents tool
+    this.registerTool({
+      name: 'list_removed_agents',
+      description: 'Lists removed agents that restore_agent can still recreate, most recently removed first.',
+      scope: 'read',
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({}),
+      outputSchema: removedAgentsSchema,
+      handler: async (_args, context) => {
+        return this.backendFor(context).removals.list();
+      },
+      summarize: ({ removed_agents }) =>
+        [
+          `${removed_agents.length} removed agents can be restored.`,
+          ...removed_agents.map(
+            (agent) => `- ${agentLabel({ id: agent.agent_id, name: agent.name })}, removed ${agent.removed_at}, until ${agent.restorable_until}`
+          ),
+        ].join('\n'),
+    });
+
+    // restore_agent tool
+    this.registerTool({
+      name: 'restore_agent',
+      description: 'Recreates a removed agent from the snapshot taken when it was removed, with the same name, framework, project and config. The restored agent gets a new ID.',
+      scope: 'write',
+      annotations: { destructiveHint: false, idempotentHint: false },
+      inputSchema: z.object({
+        agent_id: z.string().describe('ID the agent had before it was removed.'),
       }),
-      handler: async ({ agent_id }) => {
-        return await this.apiClient.removeAgent(agent_id);
+      outputSchema: restorationSchema,
+      handler: async ({ agent_id }, context) => {
+        return await this.backendFor(context).removals.restore(agent_id);
       },
+      summarize: (result) => `Restored agent ${result.restored_from} as ${agentLabel(result.agent)}.`,
+      agents: (result) => [result.agent],
     });
 
     // send_message tool
-    this.server.tool({
+    this.registerTool({
       name: 'send_message',
-      description: 'Posts a message to the agent\'s interaction log.',
+      description: 'Posts a message to the agent\'s interaction log. With wait_for_reply, waits for the agent\'s answer, streaming it as progress, and returns it.',
+      scope: 'write',
       inputSchema: z.object({
         agent_id: z.string(),
         content: z.string(),
+        attachments: z.array(attachmentSchema).max(10).optional(),
+        wait_for_reply: z.boolean().default(false),
+        timeout_seconds: z.number().int().min(1).max(600).default(120).describe('How long to wait for the reply, in seconds.'),
       }),
-      handler: async ({ agent_id, content }) => {
-        return await this.apiClient.sendMessage(agent_id, content);
+      outputSchema: sendResultSchema,
+      handler: async ({ agent_id, content, attachments, wait_for_reply, timeout_seconds }, context) => {
+        const waitMs = wait_for_reply ? timeout_seconds * 1000 : undefined;
+        return await this.backendFor(context).conversations.send(agent_id, content, attachments, waitMs, context);
       },
+      summarize: (result) => {
+        if (result.reply === undefined) {
+          return `Sent message ${result.message_id}.`;
+        }
+        if (result.reply === null) {
+          return `Sent message ${result.message_id}; the agent has not started replying.`;
+        }
+        return `Sent message ${result.message_id}. The agent's reply${result.complete ? '' : ' so far'}:\n\n${result.reply.content}`;
+      },
+    });
+
+    // get_messages tool
+    this.registerTool({
+      name: 'get_messages',
+      description: 'Lists an agent\'s messages and replies, newest first. Pass next_cursor back as cursor for older messages.',
+      scope: 'read',
+      inputSchema: z.object({
+        agent_id: z.string(),
+        cursor: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        after_message_id: z.string().optional().describe('Only messages sent after this one, oldest first.'),
+      }),
+      outputSchema: messagePageSchema,
+      handler: async ({ agent_id, cursor, limit, after_message_id }, context) => {
+        return await this.backendFor(context).apiClient.listMessages(agent_id, { cursor, limit, after: after_message_id });
+      },
+      summarize: (page) =>
+        [
+          `${page.messages.length} messages${page.next_cursor ? '; pass next_cursor as cursor for older ones' : ''}.`,
+          ...page.messages.map((message) => `- [${message.role}] ${message.id}: ${excerpt(message.content)}`),
+        ].join('\n'),
+    });
+
+    // get_message tool
+    this.registerTool({
+      name: 'get_message',
+      description: 'Gets one message, including its attachments and, for replies, whether the agent has finished writing it.',
+      scope: 'read',
+      inputSchema: z.object({
+        agent_id: z.string(),
+        message_id: z.string(),
+      }),
+      outputSchema: messageDataSchema,
+      handler: async ({ agent_id, message_id }, context) => {
+        return await this.backendFor(context).apiClient.getMessage(agent_id, message_id);
+      },
+      summarize: (message) => `[${message.role}] ${message.id}${message.status ? ` (${message.status})` : ''}:\n\n${message.content}`,
     });
 
     // send_terminal tool
-    this.server.tool({
+    this.registerTool({
       name: 'send_terminal',
       description: 'Executes a command directly in the agent\'s shell terminal.',
+      scope: 'terminal',
       inputSchema: z.object({
         agent_id: z.string(),
         command: z.string(),
       }),
-      handler: async ({ agent_id, command }) => {
-        return await this.apiClient.sendTerminal(agent_id, command);
+      outputSchema: terminalResultSchema,
+      handler: async ({ agent_id, command }, context) => {
+        const backend = this.backendFor(context);
+        await backend.commandGuard.authorize('send_terminal', agent_id, command, context);
+        // Output is streamed as progress notifications when the client sends a progress token
+        return await backend.terminals.run(agent_id, command, context);
+      },
+      summarize: terminalSummary,
+    });
+
+    // terminal_open tool
+    this.registerTool({
+      name: 'terminal_open',
+      description: 'Opens an interactive terminal session on an agent and returns its terminal_id.',
+      scope: 'terminal',
+      inputSchema: z.object({
+        agent_id: z.string(),
+      }),
+      outputSchema: z.object({ terminal_id: z.string() }),
+      handler: async ({ agent_id }, context) => {
+        return await this.backendFor(context).terminals.open(agent_id, context);
+      },
+      summarize: ({ terminal_id }) => `Opened terminal ${terminal_id}.`,
+    });
+
+    // terminal_write tool
+    this.registerTool({
+      name: 'terminal_write',
+      description: 'Writes input to an open terminal. Include a trailing newline to run a command; input is held until a newline ends the command, including any backslash continuation, open quote or heredoc.',
+      scope: 'terminal',
+      inputSchema: z.object({
+        terminal_id: z.string(),
+        input: z.string(),
+      }),
+      outputSchema: successSchema.extend({
+        // Set when the input did not end a command and was held back
+        pending: z.boolean().optional(),
+      }),
+      handler: async ({ terminal_id, input }, context) => {
+        const backend = this.backendFor(context);
+        const agentId = backend.terminals.agentOf(terminal_id, context);
+        // Lines typed into a shell run as commands, so each goes through the same policy
+        const { commands, text } = backend.terminals.completeCommands(terminal_id, input, context);
+        for (const command of commands.filter((command) => command.trim() !== '')) {
+          await backend.commandGuard.authorize('terminal_write', agentId, command, context);
+        }
+        if (text === '') {
+          return { success: true, pending: true };
+        }
+        return await backend.terminals.write(terminal_id, text, context);
+      },
+      summarize: ({ success, pending }) =>
+        pending
+          ? 'Input held until a newline ends the command.'
+          : success
+            ? 'Input sent.'
+            : 'The terminal did not accept the input.',
+    });
+
+    // terminal_read tool
+    this.registerTool({
+      name: 'terminal_read',
+      description: 'Reads output produced since the last read, waiting up to wait_ms for new output.',
+      scope: 'terminal',
+      inputSchema: z.object({
+        terminal_id: z.string(),
+        wait_ms: z.number().int().min(0).max(60_000).default(5_000),
+      }),
+      outputSchema: terminalResultSchema,
+      handler: async ({ terminal_id, wait_ms }, context) => {
+        return await this.backendFor(context).terminals.read(terminal_id, wait_ms, context);
+      },
+      summarize: terminalSummary,
+    });
+
+    // terminal_close tool
+    this.registerTool({
+      name: 'terminal_close',
+      description: 'Closes a terminal session.',
+      scope: 'terminal',
+      inputSchema: z.object({
+        terminal_id: z.string(),
+      }),
+      outputSchema: successSchema,
+      handler: async ({ terminal_id }, context) => {
+        return await this.backendFor(context).terminals.close(terminal_id, context);
       },
+      summarize: ({ success }) => (success ? 'Terminal closed.' : 'The terminal could not be closed.'),
     });
 
     // agent_status tool
-    this.server.tool({
+    this.registerTool({
       name: 'agent_status',
       description: 'Get detailed health/stats for an agent.',
+      scope: 'read',
       inputSchema: z.object({
         agent_id: z.string(),
       }),
-      handler: async ({ agent_id }) => {
-        return await this.apiClient.agentStatus(agent_id);
+      outputSchema: statusDataSchema,
+      handler: async ({ agent_id }, context) => {
+        return await this.backendFor(context).apiClient.agentStatus(agent_id);
       },
+      summarize: (status) =>
+        [
+          `Agent ${status.id} is ${statusLine(status)}.`,
+          ...Object.entries(status.stats).map(([key, value]) => `- ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`),
+        ].join('\n'),
+      agents: (status) => [{ id: status.id }],
     });
 
     // account_register tool
-    this.server.tool({
+    this.registerTool({
       name: 'account_register',
       description: 'Information on signing up.',
+      scope: 'read',
       inputSchema: z.object({
         email: z.string().email(),
       }),
-      handler: async ({ email }) => {
-        return await this.apiClient.accountRegister(email);
+      outputSchema: actionResultSchema,
+      handler: async ({ email }, context) => {
+        return await this.backendFor(context).apiClient.accountRegister(email);
       },
+      summarize: (result) => result.message,
     });
 
     // pay_upgrade tool
-    this.server.tool({
+    this.registerTool({
       name: 'pay_upgrade',
-      description: 'Information on upgrading.',
+      description: 'Starts a paid upgrade of the account to a tier, once the user confirms.',
+      scope: 'billing',
+      annotations: { destructiveHint: true, idempotentHint: false, openWorldHint: true },
       inputSchema: z.object({
         tier: z.string(),
+        confirmation_token: confirmationToken,
       }),
-      handler: async ({ tier }) => {
-        return await this.apiClient.payUpgrade(tier);
+      outputSchema: orConfirmation(actionResultSchema),
+      handler: async ({ tier, confirmation_token }, context) => {
+        const pending = await this.confirmations.confirm(
+          'pay_upgrade',
+          { tier },
+          `Upgrade the account to the "${tier}" tier, which may be charged`,
+          confirmation_token,
+          context
+        );
+        if (pending) {
+          return pending;
+        }
+        return await this.backendFor(context).apiClient.payUpgrade(tier);
       },
+      summarize: (result) => (isPending(result) ? pendingSummary(result) : result.message),
     });
   }
 
-  // Start the server with stdio transport
-  async startStdio() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.log('Blueprints MCP server started with stdio transport');
+  /**
+   * Start the server with stdio transport; logs go to stderr as stdout carries the protocol.
+   * Messages are handled by receiveMessage, as HTTP ones are, with the server's own key.
+   */
+  async startStdio(transport: StdioServerTransport = new StdioServerTransport()) {
+    const send = (message: JSONRPCRequest | JSONRPCNotification | JSONRPCResponse) => {
+      transport.send(message as JSONRPCMessage).catch((error) => console.error('Failed to write to stdout:', error));
+    };
+    const context: RequestContext = { sendNotification: send, sendRequest: send, notifySession: send };
+
+    // Requests still being handled, and those among them the client has cancelled,
+    // whose responses must not be sent
+    const pending = new Set<string | number | null>();
+    const cancelled = new Set<string | number | null>();
+
+    transport.onmessage = (message) => {
+      const request = message as JSONRPCRequest | JSONRPCResponse;
+      const id = 'method' in request && !isNotification(request) ? request.id ?? null : undefined;
+      if ('method' in request && request.method === 'notifications/cancelled' && pending.has(request.params?.requestId)) {
+        cancelled.add(request.params?.requestId);
+      }
+      if (id !== undefined) {
+        pending.add(id);
+      }
+
+      this.receiveMessage(request, context).then((response) => {
+        if (id !== undefined) {
+          pending.delete(id);
+          if (cancelled.delete(id)) {
+            return;
+          }
+        }
+        if (response) {
+          send(response);
+        }
+      });
+    };
+    await transport.start();
+    this.stdioTransport = transport;
+    console.error('Blueprints MCP server started with stdio transport');
   }
 
-  // Start the server with HTTP transport
-  async startHTTP(port: number = 3000) {
-    this.httpTransport = new HTTPTransport(this.config);
-    this.httpTransport.setServerInstance(this.server);
-    await this.server.connect(this.httpTransport);
-    console.log(`Blueprints MCP server started on port ${port}`);
+  // Start the server with HTTP transport, on all interfaces unless a host is given
+  async startHTTP(port: number = 3000, host?: string) {
+    this.httpTransport = new HTTPTransport(this.config, { port, host, metrics: this.metrics });
+    this.httpTransport.setServerInstance(this);
+    await this.httpTransport.connect();
+    console.error(`Blueprints MCP server started on port ${this.httpTransport.listeningPort()}`);
   }
 
-  // Method to handle incoming messages (for transport to use)
-  async receiveMessage(message: any) {
-    // This is a simplified approach - in a real implementation you'd need to properly
-    // route the message through the server's internal mechanisms
+  /**
+   * Handles a single JSON-RPC message and returns the response to send back,
+   * or null for notifications
+   */
+  async receiveMessage(
+    message: JSONRPCRequest | JSONRPCResponse,
+    context: RequestContext = {}
+  ): Promise<JSONRPCResponse | null> {
+    if (typeof message === 'object' && message !== null && isResponse(message)) {
+      // Answer to a request we sent the client, e.g. elicitation/create
+      this.clientRequests.handleResponse(context.sessionId, message);
+      return null;
+    }
+
+    if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      return errorResponse(message?.id ?? null, ErrorCode.InvalidRequest, 'Invalid Request');
+    }
+
+    if (isNotification(message)) {
+      this.handleNotification(message, context);
+      return null;
+    }
+
+    const id = message.id ?? null;
+    const params = message.params ?? {};
+    const inFlightKey = `${context.sessionId ?? ''}:${id}`;
+    const controller = new AbortController();
+    this.inFlight.set(inFlightKey, controller);
+
+    const requestContext: RequestContext = {
+      ...context,
+      progressToken: params._meta?.progressToken,
+      signal: controller.signal,
+    };
+
+    const startedAt = Date.now();
+    const backendRequestIds: string[] = [];
+    const tool = message.method === 'tools/call' && typeof params.name === 'string' ? params.name : undefined;
+
+    const response = await this.tracer.withSpan(
+      tool ? `tools/call ${tool}` : message.method,
+      {
+        kind: 'server',
+        parent: parseTraceparent(context.traceparent ?? params._meta?.traceparent),
+        attributes: {
+          'mcp.method.name': message.method,
+          ...(tool !== undefined && { 'gen_ai.tool.name': tool }),
+          ...(context.sessionId !== undefined && { 'mcp.session.id': context.sessionId }),
+          ...(id !== null && { 'jsonrpc.request.id': String(id) }),
+        },
+      },
+      async (span) => {
+        let response: JSONRPCResponse;
+        try {
+          // HTTP requests were already counted by the transport; stdio ones are counted here
+          if (!context.session && message.method !== 'ping') {
+            const refusal = await this.rateLimiter.checkRequest(LOCAL_USER);
+            if (refusal) {
+              throw rateLimitError(refusal);
+            }
+          }
+
+          const result = await trackBackendRequests(backendRequestIds, () =>
+            this.dispatch(message.method, params, requestContext)
+          );
+          response = resultResponse(id, result);
+        } catch (error) {
+          if (error instanceof JSONRPCError) {
+            response = errorResponse(id, error.code, error.message, error.data);
+          } else {
+            response = errorResponse(
+              id,
+              ErrorCode.InternalError,
+              'Internal error',
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        } finally {
+          this.inFlight.delete(inFlightKey);
+        }
+
+        if (response.error) {
+          span.setError(response.error.message);
+        } else if (response.result?.isError) {
+          span.setError(response.result.content?.[0]?.text ?? 'Tool error');
+        }
+        return response;
+      }
+    );
+
+    const latencyMs = Date.now() - startedAt;
+    // Names come from the client, so unknown ones share one label rather than each adding a series
+    this.metrics.recordRequest(
+      REQUEST_METHODS.has(message.method) ? message.method : 'unknown',
+      tool === undefined || this.tools.has(tool) ? tool : 'unknown',
+      outcomeOf(response),
+      latencyMs / 1000
+    );
+    this.auditRequest(message, context, response, latencyMs, backendRequestIds);
+    return response;
+  }
+
+  /**
+   * Records who made a request, what it asked for and how it ended
+   */
+  private auditRequest(
+    message: JSONRPCRequest,
+    context: RequestContext,
+    response: JSONRPCResponse,
+    latencyMs: number,
+    backendRequestIds: string[]
+  ): void {
+    // Keep-alive pings would drown out everything else
+    if (message.method === 'ping') {
+      return;
+    }
+
+    const params = message.params ?? {};
+    const isToolCall = message.method === 'tools/call';
+    const event: AuditEvent = {
+      timestamp: new Date().toISOString(),
+      sessionId: context.sessionId,
+      userId: context.session?.userId,
+      requestId: message.id ?? null,
+      method: message.method,
+      tool: isToolCall && typeof params.name === 'string' ? params.name : undefined,
+      arguments: isToolCall ? params.arguments : params,
+      outcome: outcomeOf(response),
+      latencyMs,
+      backendRequestIds,
+    };
+
+    if (response.error) {
+      event.error = { code: response.error.code, message: response.error.message };
+    } else if (response.result?.isError) {
+      event.error = { message: response.result.content?.[0]?.text ?? 'Tool error' };
+    }
+
+    this.audit.record(event);
+  }
+
+  private handleNotification(message: JSONRPCRequest, context: RequestContext): void {
+    switch (message.method) {
+      case 'notifications/cancelled': {
+        const requestId = message.params?.requestId;
+        const controller = this.inFlight.get(`${context.sessionId ?? ''}:${requestId}`);
+        controller?.abort(
+          new JSONRPCError(ErrorCode.RequestCancelled, message.params?.reason ?? 'Request cancelled')
+        );
+        break;
+      }
+      default:
+        // Notifications such as notifications/initialized need no handling
+        break;
+    }
+  }
+
+  private async dispatch(
+    method: string,
+    params: Record<string, any>,
+    context: RequestContext
+  ): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.handleInitialize(params, context);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return this.handleListTools(context);
+      case 'tools/call':
+        return this.handleCallTool(params, context);
+      case 'resources/list':
+        this.requireScope(context, 'read');
+        return this.backendFor(context).resources.list();
+      case 'resources/templates/list':
+        this.requireScope(context, 'read');
+        return this.backendFor(context).resources.templates();
+      case 'resources/read':
+        this.requireScope(context, 'read');
+        return this.backendFor(context).resources.read(this.requireURI(params));
+      case 'resources/subscribe':
+        return this.handleSubscribe(params, context);
+      case 'prompts/list':
+        this.requireScope(context, 'read');
+        return this.backendFor(context).prompts.list();
+      case 'prompts/get':
+        this.requireScope(context, 'read');
+        if (typeof params.name !== 'string') {
+          throw new JSONRPCError(ErrorCode.InvalidParams, 'Missing prompt name');
+        }
+        return this.backendFor(context).prompts.get(
+          params.name,
+          params.arguments ?? {},
+          // Terminal output may hold secrets, so only the session's own, and only with the terminal scope
+          !context.session || hasScope(context.session.scopes, 'terminal') ? context.sessionId ?? '' : null
+        );
+      case 'completion/complete':
+        return this.handleComplete(params, context);
+      case 'resources/unsubscribe':
+        this.requireScope(context, 'read');
+        this.backendFor(context).subscriptions.unsubscribe(context.sessionId ?? '', this.requireURI(params));
+        return {};
+      default:
+        throw new JSONRPCError(ErrorCode.MethodNotFound, `Method not found: ${method}`);
+    }
+  }
+
+  private handleInitialize(params: Record<string, any>, context: RequestContext) {
+    this.clientCapabilities.set(context.sessionId ?? '', params.capabilities ?? {});
+
+    const requested = params.protocolVersion;
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: false },
+        prompts: { listChanged: false },
+        completions: {},
+      },
+      serverInfo: {
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
+      },
+    };
+  }
+
+  private handleListTools(context: RequestContext): { tools: ListedTool[] } {
+    return {
+      tools: this.visibleTools(context).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: zodToJsonSchema(tool.inputSchema, { $refStrategy: 'none' }),
+        outputSchema: outputJSONSchema(tool.outputSchema),
+        ...(tool.annotations && { annotations: tool.annotations }),
+      })),
+    };
+  }
+
+  private handleSubscribe(params: Record<string, any>, context: RequestContext) {
+    this.requireScope(context, 'read');
+    const uri = this.requireURI(params);
+    if (!context.notifySession) {
+      throw new JSONRPCError(ErrorCode.InvalidRequest, 'Subscriptions require a session');
+    }
+
+    this.backendFor(context).subscriptions.subscribe(context.sessionId ?? '', uri, context.notifySession);
+    return {};
+  }
+
+  private handleComplete(params: Record<string, any>, context: RequestContext) {
+    this.requireScope(context, 'read');
+    const { ref, argument } = params;
+    if (typeof ref?.type !== 'string' || typeof argument?.name !== 'string' || typeof argument?.value !== 'string') {
+      throw new JSONRPCError(ErrorCode.InvalidParams, 'completion/complete needs ref.type, argument.name and argument.value');
+    }
+    return this.backendFor(context).prompts.complete(ref, argument, params.context?.arguments);
+  }
+
+  private requireURI(params: Record<string, any>): string {
+    if (typeof params.uri !== 'string') {
+      throw new JSONRPCError(ErrorCode.InvalidParams, 'Missing resource uri');
+    }
+    return params.uri;
+  }
+
+  /**
+   * Throws unless the session (if any) holds the scope
+   */
+  private requireScope(context: RequestContext, scope: Scope): void {
+    if (context.session && !hasScope(context.session.scopes, scope)) {
+      throw new JSONRPCError(
+        ErrorCode.Forbidden,
+        `Insufficient permissions. Required scope: ${scope}`,
+        { requiredScope: scope }
+      );
+    }
+  }
+
+  /**
+   * Asks the user a yes-or-no question through elicitation, e.g. whether a command
+   * flagged by the policy may run
+   */
+  private async elicitApproval(
+    context: RequestContext,
+    message: string,
+    title: string,
+    timeoutMs: number
+  ): Promise<ApprovalOutcome> {
+    const capabilities = this.clientCapabilities.get(context.sessionId ?? '');
+    if (!capabilities?.elicitation || !context.sendRequest) {
+      return 'unsupported';
+    }
+
+    const result = await this.clientRequests.send(
+      context,
+      'elicitation/create',
+      {
+        message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: { type: 'boolean', title },
+          },
+          required: ['approve'],
+        },
+      },
+      timeoutMs
+    );
+
+    if (result?.action === 'accept') {
+      return result.content?.approve === true ? 'accept' : 'decline';
+    }
+    return result?.action === 'decline' ? 'decline' : 'cancel';
+  }
+
+  /**
+   * Counts an HTTP request against the key owner's and the session's rate limits, once
+   * for each of the `count` JSON-RPC requests it carries
+   */
+  async checkRateLimit(userId: string, sessionId?: string, count: number = 1): Promise<RateLimitRefusal | null> {
+    return this.rateLimiter.checkRequest(userId, sessionId, count);
+  }
+
+  /**
+   * Releases per-session state such as resource subscriptions
+   */
+  releaseSession(sessionId: string): void {
+    this.clientCapabilities.delete(sessionId);
+    this.clientRequests.rejectAll(sessionId);
+    for (const backend of this.backends.values()) {
+      backend.subscriptions.unsubscribeAll(sessionId);
+      void backend.terminals.closeAllFor(sessionId);
+    }
+  }
+
+  /**
+   * Tools the session's scopes allow; every tool when there is no session (stdio)
+   */
+  private visibleTools(context: RequestContext): ToolDefinition[] {
+    const tools = Array.from(this.tools.values());
+    const session = context.session;
+    if (!session) {
+      return tools;
+    }
+    return tools.filter((tool) => hasScope(session.scopes, tool.scope));
+  }
+
+  private async handleCallTool(params: Record<string, any>, context: RequestContext): Promise<CallToolResult> {
+    const { name, arguments: args } = params;
+    if (typeof name !== 'string') {
+      throw new JSONRPCError(ErrorCode.InvalidParams, 'Missing tool name');
+    }
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    if (context.session && !hasScope(context.session.scopes, tool.scope)) {
+      throw new JSONRPCError(
+        ErrorCode.Forbidden,
+        `Insufficient permissions. Required scope: ${tool.scope}`,
+        { tool: name, requiredScope: tool.scope }
+      );
+    }
+
+    // Validate first so malformed calls don't use up the caller's quota
+    const parsed = tool.inputSchema.safeParse(args ?? {});
+    if (!parsed.success) {
+      throw new JSONRPCError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for tool ${name}`,
+        parsed.error.issues
+      );
+    }
+
+    const refusal = await this.rateLimiter.checkTool(context.session?.userId ?? LOCAL_USER, name);
+    if (refusal) {
+      throw rateLimitError(refusal);
+    }
+
+    let result: unknown;
     try {
-      if (message.id) {
-        // This is a request that expects a response
-        // In a real implementation, you'd need to call the appropriate tool handler
-        // based on the message.method and return the result
-        
-        // For now, returning a placeholder response
+      result = await tool.handler(parsed.data, context);
+    } catch (error) {
+      // Backend failures and refusals are reported as tool errors so the model can see them and recover
+      if (error instanceof BlueprintsAPIError || error instanceof ToolError) {
         return {
-          jsonrpc: '2.0',
-          id: message.id,
-          result: { success: true, message: `Processed ${message.method}` }
+          content: [{ type: 'text', text: error.toToolMessage() }],
+          isError: true,
         };
-      } else {
-        // This is a notification (no response expected)
-        // Just handle the notification and return empty
-        console.log(`Received notification: ${message.method}`);
-        return {};
       }
-    } catch (error) {
-      return {
-        jsonrpc: '2.0',
-        id: message.id,
-        error: { code: -32603, message: 'Internal error', data: error instanceof Error ? error.message : String(error) }
-      };
+      throw error;
     }
+
+    return {
+      content: [{ type: 'text', text: tool.summarize(result) }, ...(tool.agents?.(result) ?? []).map(agentLink)],
+      structuredContent: result,
+    };
   }
 
   async close() {
-    await this.server.close();
+    for (const backend of this.backends.values()) {
+      disposeBackend(backend);
+    }
+    await this.audit.close();
+    await this.rateLimiter.close();
+    await this.httpTransport?.close();
+    await this.stdioTransport?.close();
   }
 }
 
-export default BlueprintsMCPServer;
\ No newline at end of file
+export default BlueprintsMCPServer;
+export * from './key-store.js';
+export * from './session-store.js';
+export * from './oauth.js';
+export * from './errors.js';
+export * from './command-policy.js';
+export * from './audit.js';
+export * from './redaction.js';
+export * from './rate-limit.js';
+export * from './agent-config.js';
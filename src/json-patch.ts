@@ -0,0 +1,221 @@
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
+import { ToolError } from './errors.js';
+
+export const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: z.string(), value: z.any() }),
+  z.object({ op: z.literal('remove'), path: z.string() }),
+  z.object({ op: z.literal('replace'), path: z.string(), value: z.any() }),
+  z.object({ op: z.literal('move'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('copy'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('test'), path: z.string(), value: z.any() }),
+]);
+
+export type JSONPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+
+/**
+ * One difference between two documents, addressed by JSON Pointer
+ */
+export const jsonChangeSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace']),
+  path: z.string(),
+  from: z.unknown().optional(),
+  to: z.unknown().optional(),
+});
+
+export type JSONChange = z.infer<typeof jsonChangeSchema>;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function patchError(message: string): ToolError {
+  return new ToolError(message);
+}
+
+// Keys that would reach an object's prototype instead of the document
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function checkKey(key: string): void {
+  if (FORBIDDEN_KEYS.has(key)) {
+    throw patchError(`Key not allowed: ${key}`);
+  }
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw patchError(`Invalid JSON Pointer: ${pointer}`);
+  }
+  const tokens = pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  tokens.forEach(checkKey);
+  return tokens;
+}
+
+function toPointer(tokens: string[]): string {
+  return tokens.map((token) => '/' + token.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+function arrayIndex(array: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') {
+    return array.length;
+  }
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw patchError(`Array index out of range: ${pointer}`);
+  }
+  return index;
+}
+
+/**
+ * The container holding the last token of the pointer, and that token
+ */
+function locate(doc: unknown, pointer: string): { parent: any; key: string } {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw patchError('Patching the whole document is not supported');
+  }
+
+  let parent: any = doc;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(parent)) {
+      parent = parent[arrayIndex(parent, token, pointer, false)];
+    } else if (isPlainObject(parent) && Object.hasOwn(parent, token)) {
+      parent = parent[token];
+    } else {
+      throw patchError(`Path does not exist: ${pointer}`);
+    }
+  }
+  if (!Array.isArray(parent) && !isPlainObject(parent)) {
+    throw patchError(`Path does not exist: ${pointer}`);
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function getValue(doc: unknown, pointer: string): unknown {
+  const { parent, key } = locate(doc, pointer);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, pointer, false)];
+  }
+  if (!Object.hasOwn(parent, key)) {
+    throw patchError(`Path does not exist: ${pointer}`);
+  }
+  return parent[key];
+}
+
+function addValue(doc: unknown, pointer: string, value: unknown): void {
+  const { parent, key } = locate(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeValue(doc: unknown, pointer: string): unknown {
+  const { parent, key } = locate(doc, pointer);
+  if (Array.isArray(parent)) {
+    return parent.splice(arrayIndex(parent, key, pointer, false), 1)[0];
+  }
+  if (!Object.hasOwn(parent, key)) {
+    throw patchError(`Path does not exist: ${pointer}`);
+  }
+  const value = parent[key];
+  delete parent[key];
+  return value;
+}
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a copy of the document. The whole patch is
+ * rejected when any operation fails.
+ */
+export function applyJsonPatch<T>(doc: T, operations: JSONPatchOperation[]): T {
+  const result = structuredClone(doc);
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'add':
+          addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case 'remove':
+          removeValue(result, operation.path);
+          break;
+        case 'replace':
+          removeValue(result, operation.path);
+          addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case 'move':
+          if (operation.path.startsWith(operation.from + '/')) {
+            throw patchError('Cannot move a value into itself');
+          }
+          addValue(result, operation.path, removeValue(result, operation.from));
+          break;
+        case 'copy':
+          addValue(result, operation.path, structuredClone(getValue(result, operation.from)));
+          break;
+        case 'test':
+          if (!isDeepStrictEqual(getValue(result, operation.path), operation.value)) {
+            throw patchError(`Test failed at ${operation.path}`);
+          }
+          break;
+      }
+    } catch (error) {
+      if (error instanceof ToolError) {
+        throw patchError(`JSON Patch operation ${index} (${operation.op}) failed: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+  return result;
+}
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396): objects merge recursively, null removes a
+ * key, and anything else replaces the target. Keys that reach a prototype are refused.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): any {
+  if (!isPlainObject(patch)) {
+    return structuredClone(patch);
+  }
+
+  const result: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    checkKey(key);
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Lists the differences between two documents. Objects are compared key by key;
+ * arrays and other values are replaced whole.
+ */
+export function diffJson(from: unknown, to: unknown, path: string[] = []): JSONChange[] {
+  if (isDeepStrictEqual(from, to)) {
+    return [];
+  }
+  if (!isPlainObject(from) || !isPlainObject(to)) {
+    return [{ op: 'replace', path: toPointer(path), from, to }];
+  }
+
+  const changes: JSONChange[] = [];
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (!Object.hasOwn(to, key)) {
+      changes.push({ op: 'remove', path: toPointer([...path, key]), from: from[key] });
+    } else if (!Object.hasOwn(from, key)) {
+      changes.push({ op: 'add', path: toPointer([...path, key]), to: to[key] });
+    } else {
+      changes.push(...diffJson(from[key], to[key], [...path, key]));
+    }
+  }
+  return changes;
+}
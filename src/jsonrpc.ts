@@ -0,0 +1,84 @@
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export interface JSONRPCNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * JSON-RPC 2.0 error codes
+ */
+export const ErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  // Implementation-defined server errors
+  Forbidden: -32001,
+  ResourceNotFound: -32002,
+  RateLimited: -32003,
+  RequestCancelled: -32800,
+} as const;
+
+/**
+ * Error thrown by method handlers that should be reported to the client as a JSON-RPC error
+ */
+export class JSONRPCError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: any
+  ) {
+    super(message);
+    this.name = 'JSONRPCError';
+  }
+}
+
+/**
+ * Returns true when the message is a notification (no response expected)
+ */
+export function isNotification(message: JSONRPCRequest): boolean {
+  return message.id === undefined;
+}
+
+/**
+ * Returns true when the message is a response to a request the server sent
+ */
+export function isResponse(message: JSONRPCRequest | JSONRPCResponse): message is JSONRPCResponse {
+  return !('method' in message) && ('result' in message || 'error' in message);
+}
+
+export function resultResponse(id: string | number | null, result: any): JSONRPCResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+export function errorResponse(
+  id: string | number | null,
+  code: number,
+  message: string,
+  data?: any
+): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  };
+}
@@ -0,0 +1,297 @@
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import fetch from 'node-fetch';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { z } from 'zod';
+
+/**
+ * What the server knows about an API key once it has been looked up
+ */
+export interface KeyRecord {
+  userId: string;
+  scopes: string[];
+  expiresAt?: Date;
+  revoked?: boolean;
+}
+
+/**
+ * Backend that maps API keys to users and scopes
+ */
+export interface KeyStore {
+  /**
+   * Returns the record for the key, or null if the key is unknown
+   */
+  lookup(apiKey: string): Promise<KeyRecord | null>;
+}
+
+/**
+ * Hashes an API key so stores never need to hold keys in plain text
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+const keyEntrySchema = z
+  .object({
+    // Either the plain key or its SHA-256 hex digest
+    key: z.string().optional(),
+    hash: z.string().regex(/^[a-f0-9]{64}$/i).optional(),
+    userId: z.string(),
+    scopes: z.array(z.string()),
+    expiresAt: z.coerce.date().optional(),
+    revoked: z.boolean().optional(),
+  })
+  .refine((entry) => entry.key || entry.hash, {
+    message: 'Each key entry needs either "key" or "hash"',
+  });
+
+export type KeyEntry = z.infer<typeof keyEntrySchema>;
+
+const keyFileSchema = z.object({
+  keys: z.array(keyEntrySchema),
+});
+
+function isYamlFile(filePath: string): boolean {
+  const ext = extname(filePath).toLowerCase();
+  return ext === '.yaml' || ext === '.yml';
+}
+
+function readKeyFile(filePath: string): KeyEntry[] {
+  const raw = readFileSync(filePath, 'utf8');
+  return keyFileSchema.parse(isYamlFile(filePath) ? parseYaml(raw) : JSON.parse(raw)).keys;
+}
+
+function entryHash(entry: KeyEntry): string {
+  return entry.hash ? entry.hash.toLowerCase() : hashApiKey(entry.key!);
+}
+
+function indexEntries(entries: KeyEntry[]): Map<string, KeyRecord> {
+  const index = new Map<string, KeyRecord>();
+  for (const entry of entries) {
+    index.set(entryHash(entry), {
+      userId: entry.userId,
+      scopes: entry.scopes,
+      expiresAt: entry.expiresAt,
+      revoked: entry.revoked,
+    });
+  }
+  return index;
+}
+
+/**
+ * Reads keys from a JSON or YAML file of the form `{ keys: [...] }`.
+ * The file is re-read whenever its modification time changes.
+ */
+export class FileKeyStore implements KeyStore {
+  private index: Map<string, KeyRecord> = new Map();
+  private loadedMtime = 0;
+
+  constructor(private filePath: string) {}
+
+  async lookup(apiKey: string): Promise<KeyRecord | null> {
+    this.reloadIfChanged();
+    return this.index.get(hashApiKey(apiKey)) ?? null;
+  }
+
+  private reloadIfChanged(): void {
+    const mtime = statSync(this.filePath).mtimeMs;
+    if (mtime === this.loadedMtime) {
+      return;
+    }
+
+    this.index = indexEntries(readKeyFile(this.filePath));
+    this.loadedMtime = mtime;
+  }
+}
+
+/**
+ * Generates a new API key in the `bp_sk_` format
+ */
+export function generateApiKey(): string {
+  return `bp_sk_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Short identifier for a key entry, the first 12 characters of its hash, so keys can be
+ * listed and revoked without showing them
+ */
+export function keyId(entry: KeyEntry): string {
+  return entryHash(entry).slice(0, 12);
+}
+
+/**
+ * Edits the key file read by FileKeyStore. New keys are stored as hashes only; a running
+ * server picks up changes when the file's modification time moves.
+ */
+export class KeyFile {
+  constructor(private filePath: string) {}
+
+  list(): KeyEntry[] {
+    return existsSync(this.filePath) ? readKeyFile(this.filePath) : [];
+  }
+
+  /**
+   * Adds a key and returns it; this is the only time the plain key is available
+   */
+  create(params: { userId: string; scopes: string[]; expiresAt?: Date }): { key: string; entry: KeyEntry } {
+    const key = generateApiKey();
+    const entry: KeyEntry = { hash: hashApiKey(key), userId: params.userId, scopes: params.scopes };
+    if (params.expiresAt) {
+      entry.expiresAt = params.expiresAt;
+    }
+    this.write([...this.list(), entry]);
+    return { key, entry };
+  }
+
+  /**
+   * Marks the key with the given ID (or ID prefix) or plain key as revoked. Entries are
+   * kept so the revocation stays visible in `list`.
+   */
+  revoke(idOrKey: string): KeyEntry {
+    const entries = this.list();
+    const wanted = idOrKey.startsWith('bp_sk_') ? hashApiKey(idOrKey) : idOrKey.toLowerCase();
+    const matches = entries.filter((entry) => entryHash(entry).startsWith(wanted));
+    if (matches.length === 0) {
+      throw new Error(`No key matches ${idOrKey}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`${idOrKey} matches ${matches.length} keys; use a longer ID`);
+    }
+
+    matches[0].revoked = true;
+    this.write(entries);
+    return matches[0];
+  }
+
+  private write(entries: KeyEntry[]): void {
+    const data = {
+      keys: entries.map((entry) => ({ ...entry, expiresAt: entry.expiresAt?.toISOString() })),
+    };
+    const text = isYamlFile(this.filePath) ? stringifyYaml(data) : JSON.stringify(data, null, 2) + '\n';
+    writeFileSync(this.filePath, text, { mode: 0o600 });
+  }
+}
+
+/**
+ * Reads hashed keys from an environment variable holding a JSON array of entries.
+ * Only `hash` entries are accepted so plain keys never end up in the environment.
+ */
+export class EnvKeyStore implements KeyStore {
+  private index: Map<string, KeyRecord>;
+
+  constructor(variable: string = 'MCP_API_KEYS', env: NodeJS.ProcessEnv = process.env) {
+    const raw = env[variable];
+    if (!raw) {
+      throw new Error(`${variable} environment variable is not set`);
+    }
+
+    const entries = z.array(keyEntrySchema).parse(JSON.parse(raw));
+    if (entries.some((entry) => !entry.hash)) {
+      throw new Error(`${variable} must contain hashed keys only`);
+    }
+
+    this.index = indexEntries(entries);
+  }
+
+  async lookup(apiKey: string): Promise<KeyRecord | null> {
+    return this.index.get(hashApiKey(apiKey)) ?? null;
+  }
+}
+
+const verifyResponseSchema = z.object({
+  valid: z.boolean(),
+  user_id: z.string().optional(),
+  scopes: z.array(z.string()).default([]),
+  expires_at: z.coerce.date().nullish(),
+  revoked: z.boolean().optional(),
+});
+
+export interface RemoteKeyStoreOptions {
+  // Path of the verification endpoint on the backend
+  endpoint?: string;
+  // How long verification results are reused before asking the backend again
+  cacheTtlMs?: number;
+  // How long an unknown key is remembered, kept short so a new key works soon after issue
+  negativeCacheTtlMs?: number;
+  // Keys whose results are cached; the least recently used is dropped first
+  maxCacheEntries?: number;
+}
+
+/**
+ * Verifies keys against the Blueprints backend, caching results briefly
+ */
+export class RemoteKeyStore implements KeyStore {
+  private baseUrl: string;
+  private endpoint: string;
+  private cacheTtlMs: number;
+  private negativeCacheTtlMs: number;
+  private maxCacheEntries: number;
+  private cache: Map<string, { record: KeyRecord | null; cachedAt: number }> = new Map();
+
+  constructor(baseUrl: string, options: RemoteKeyStoreOptions = {}) {
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+    this.endpoint = options.endpoint ?? '/auth/verify-key';
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 1000;
+    this.negativeCacheTtlMs = options.negativeCacheTtlMs ?? 5 * 1000;
+    this.maxCacheEntries = options.maxCacheEntries ?? 10_000;
+  }
+
+  async lookup(apiKey: string): Promise<KeyRecord | null> {
+    const hash = hashApiKey(apiKey);
+    const cached = this.cache.get(hash);
+    if (cached) {
+      this.cache.delete(hash);
+      const ttl = cached.record ? this.cacheTtlMs : this.negativeCacheTtlMs;
+      if (Date.now() - cached.cachedAt < ttl) {
+        this.cache.set(hash, cached);
+        return cached.record;
+      }
+    }
+
+    const response = await fetch(`${this.baseUrl}${this.endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ api_key: apiKey }),
+    });
+
+    let record: KeyRecord | null = null;
+    if (response.ok) {
+      const data = verifyResponseSchema.parse(await response.json());
+      if (data.valid && data.user_id) {
+        record = {
+          userId: data.user_id,
+          scopes: data.scopes,
+          expiresAt: data.expires_at ?? undefined,
+          revoked: data.revoked,
+        };
+      }
+    } else if (response.status !== 401 && response.status !== 404) {
+      // Don't cache backend failures as "unknown key"
+      throw new Error(`Key verification failed: HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    this.cache.set(hash, { record, cachedAt: Date.now() });
+    if (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return record;
+  }
+}
+
+/**
+ * Picks a key store from the environment: MCP_KEY_FILE, then MCP_API_KEYS,
+ * falling back to verifying keys against the Blueprints backend
+ */
+export function createKeyStoreFromEnv(baseUrl: string, env: NodeJS.ProcessEnv = process.env): KeyStore {
+  if (env.MCP_KEY_FILE) {
+    return new FileKeyStore(env.MCP_KEY_FILE);
+  }
+  if (env.MCP_API_KEYS) {
+    return new EnvKeyStore('MCP_API_KEYS', env);
+  }
+  return new RemoteKeyStore(baseUrl);
+}
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { BlueprintsAPIClient, StatusData, statusDataSchema } from './blueprints-api.js';
+import type { RequestContext } from './index.js';
+import { ToolError } from './errors.js';
+import { reportProgress, sleep } from './progress.js';
+
+const agentTargetSchema = z.enum(['running', 'stopped', 'healthy']);
+
+export type AgentTarget = z.infer<typeof agentTargetSchema>;
+
+// Statuses an agent will not leave on its own, so waiting for it to run is pointless
+const FAILED_STATUSES = ['error', 'failed', 'crashed'];
+
+export interface WaitOptions {
+  // Delay before the second status check; doubles up to maxIntervalMs
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+}
+
+export const waitResultSchema = z.object({
+  agent_id: z.string(),
+  target: agentTargetSchema,
+  status: statusDataSchema,
+  // From when the transition was requested until the target state was seen
+  elapsed_ms: z.number(),
+});
+
+export type WaitResult = z.infer<typeof waitResultSchema>;
+
+function reached(status: StatusData, target: AgentTarget): boolean {
+  switch (target) {
+    case 'running':
+      return status.status === 'running';
+    case 'stopped':
+      return status.status === 'stopped';
+    case 'healthy':
+      return status.status === 'running' && status.health === 'healthy';
+  }
+}
+
+function describe(status: StatusData): string {
+  return status.health ? `${status.status}, ${status.health}` : status.status;
+}
+
+/**
+ * Polls agent status with backoff until an agent reaches a target state
+ */
+export class AgentWaiter {
+  private options: Required<WaitOptions>;
+
+  constructor(private apiClient: BlueprintsAPIClient, options: WaitOptions = {}) {
+    this.options = {
+      initialIntervalMs: options.initialIntervalMs ?? 500,
+      maxIntervalMs: options.maxIntervalMs ?? 5000,
+    };
+  }
+
+  /**
+   * Resolves with the status once the agent reaches `target`. Fails with a ToolError on
+   * timeout or when the agent fails while it is expected to run. `since` is when the
+   * transition was requested, for the elapsed time reported.
+   */
+  async wait(
+    agentId: string,
+    target: AgentTarget,
+    timeoutMs: number,
+    context: RequestContext,
+    since: number = Date.now()
+  ): Promise<WaitResult> {
+    const deadline = Date.now() + timeoutMs;
+    let interval = this.options.initialIntervalMs;
+    let checks = 0;
+
+    for (;;) {
+      const status = await this.apiClient.agentStatus(agentId);
+      reportProgress(context, ++checks, `${agentId}: ${describe(status)}`);
+
+      if (reached(status, target)) {
+        return { agent_id: agentId, target, status, elapsed_ms: Date.now() - since };
+      }
+      if (target !== 'stopped' && FAILED_STATUSES.includes(status.status)) {
+        throw new ToolError(`Agent ${agentId} ${status.status} while waiting for it to be ${target} (${describe(status)})`);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new ToolError(
+          `Agent ${agentId} was not ${target} after ${Math.round((Date.now() - since) / 1000)}s (last status: ${describe(status)})`
+        );
+      }
+
+      await sleep(Math.min(interval, remaining), context.signal);
+      interval = Math.min(interval * 2, this.options.maxIntervalMs);
+    }
+  }
+}
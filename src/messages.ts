@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { BlueprintsAPIClient, MessageAttachment, MessageData, messageDataSchema } from './blueprints-api.js';
+import type { RequestContext } from './index.js';
+import { ErrorCode, JSONRPCError } from './jsonrpc.js';
+import { reportProgress, sleep } from './progress.js';
+
+export const attachmentSchema = z
+  .object({
+    name: z.string().min(1),
+    mime_type: z.string().min(1),
+    data: z.string().optional().describe('Base64-encoded content.'),
+    url: z.string().url().optional().describe('Where the agent can fetch the content.'),
+  })
+  .refine((attachment) => (attachment.data === undefined) !== (attachment.url === undefined), {
+    message: 'Give exactly one of data or url',
+  });
+
+export interface MessageOptions {
+  // Between checks for the agent's reply
+  pollIntervalMs?: number;
+  // Largest attachment accepted inline, after base64 decoding
+  maxAttachmentBytes?: number;
+}
+
+export const sendResultSchema = z
+  .object({
+    success: z.boolean(),
+    message_id: z.string(),
+    // Only when waiting for the reply: null if the agent had not started answering
+    reply: messageDataSchema.nullable().optional(),
+    // Whether the reply was complete (or failed) before the wait ended
+    complete: z.boolean().optional(),
+  })
+  .passthrough();
+
+export type SendResult = z.infer<typeof sendResultSchema>;
+
+function inProgress(message: MessageData): boolean {
+  return message.status === 'pending' || message.status === 'streaming';
+}
+
+/**
+ * Sends messages to agents and follows their replies
+ */
+export class Conversations {
+  private options: Required<MessageOptions>;
+
+  constructor(private apiClient: BlueprintsAPIClient, options: MessageOptions = {}) {
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? 1000,
+      maxAttachmentBytes: options.maxAttachmentBytes ?? 5 * 1024 * 1024,
+    };
+  }
+
+  /**
+   * Sends a message. With a `waitMs`, waits up to that long for the agent's reply,
+   * streaming its text as progress while the agent writes it.
+   */
+  async send(
+    agentId: string,
+    content: string,
+    attachments: MessageAttachment[] | undefined,
+    waitMs: number | undefined,
+    context: RequestContext
+  ): Promise<SendResult> {
+    for (const attachment of attachments ?? []) {
+      if (attachment.data !== undefined && Buffer.byteLength(attachment.data, 'base64') > this.options.maxAttachmentBytes) {
+        throw new JSONRPCError(
+          ErrorCode.InvalidParams,
+          `Attachment ${attachment.name} is larger than ${this.options.maxAttachmentBytes} bytes; pass a url instead`
+        );
+      }
+    }
+
+    const sent = await this.apiClient.sendMessage(agentId, content, attachments);
+    if (waitMs === undefined) {
+      return sent;
+    }
+
+    const { reply, complete } = await this.followReply(agentId, sent.message_id, Date.now() + waitMs, context);
+    return { ...sent, reply, complete };
+  }
+
+  private async followReply(
+    agentId: string,
+    messageId: string,
+    deadline: number,
+    context: RequestContext
+  ): Promise<{ reply: MessageData | null; complete: boolean }> {
+    let reply: MessageData | undefined;
+    let streamed = 0;
+
+    for (;;) {
+      reply = reply
+        ? await this.apiClient.getMessage(agentId, reply.id)
+        : (await this.apiClient.listMessages(agentId, { after: messageId })).messages.find(
+            (message) => message.in_reply_to === messageId
+          );
+
+      if (reply && reply.content.length > streamed) {
+        reportProgress(context, reply.content.length, reply.content.slice(streamed));
+        streamed = reply.content.length;
+      }
+      if (reply && !inProgress(reply)) {
+        return { reply, complete: true };
+      }
+      if (Date.now() >= deadline) {
+        return { reply: reply ?? null, complete: false };
+      }
+
+      await sleep(Math.min(this.options.pollIntervalMs, deadline - Date.now()), context.signal);
+    }
+  }
+}
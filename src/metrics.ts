@@ -0,0 +1,181 @@
+type Labels = Record<string, string>;
+
+// Seconds; covers fast cache-backed calls through slow terminal commands
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Series of one metric, keyed by their label values in label-name order
+ */
+abstract class Metric<Value> {
+  protected series: Map<string, { labels: Labels; value: Value }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[]) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected entry(labels: Labels, initial: () => Value): { labels: Labels; value: Value } {
+    const ordered = Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? '']));
+    const key = JSON.stringify(Object.values(ordered));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  abstract lines(): string[];
+}
+
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+  // Called before each scrape to bring values up to date
+  collect?: () => Promise<void>;
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: string[], private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map(
+        (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * Holds metrics and renders them in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics: Array<Counter | Gauge | Histogram> = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.add(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.add(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, labelNames, buckets));
+  }
+
+  async render(): Promise<string> {
+    const blocks: string[] = [];
+    for (const metric of this.metrics) {
+      if (metric instanceof Gauge && metric.collect) {
+        // A failing collector leaves the last values in place rather than failing the scrape
+        await metric.collect().catch(() => undefined);
+      }
+      blocks.push([`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.lines()].join('\n'));
+    }
+    return blocks.join('\n') + '\n';
+  }
+
+  private add<M extends Counter | Gauge | Histogram>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Collapses IDs in a backend endpoint so metrics get one series per route,
+ * e.g. `/agents/a1/terminal/sessions/t1/output?cursor=3` becomes
+ * `/agents/:id/terminal/sessions/:id/output`
+ */
+export function routeOf(endpoint: string): string {
+  const path = endpoint.split('?')[0];
+  const segments = path.split('/');
+  return segments
+    .map((segment, index) => (index > 0 && ['agents', 'sessions', 'messages'].includes(segments[index - 1]) ? ':id' : segment))
+    .join('/');
+}
+
+/**
+ * The metrics this server exposes
+ */
+export class Metrics {
+  readonly registry: MetricsRegistry = new MetricsRegistry();
+
+  private requests = this.registry.counter(
+    'mcp_requests_total',
+    'MCP requests handled, by method, tool and outcome (success, tool_error or error)',
+    ['method', 'tool', 'outcome']
+  );
+  private requestDuration = this.registry.histogram(
+    'mcp_request_duration_seconds',
+    'Time to handle MCP requests',
+    ['method', 'tool']
+  );
+  private backendDuration = this.registry.histogram(
+    'blueprints_api_request_duration_seconds',
+    'Time taken by Blueprints API calls, by route and HTTP status (or error for failures without a response)',
+    ['method', 'route', 'status']
+  );
+  readonly activeSessions = this.registry.gauge('mcp_active_sessions', 'Authenticated MCP sessions that have not expired');
+
+  recordRequest(method: string, tool: string | undefined, outcome: string, seconds: number): void {
+    this.requests.inc({ method, tool: tool ?? '', outcome });
+    this.requestDuration.observe({ method, tool: tool ?? '' }, seconds);
+  }
+
+  recordBackendCall(method: string, endpoint: string, status: number | 'error', seconds: number): void {
+    this.backendDuration.observe({ method, route: routeOf(endpoint), status: String(status) }, seconds);
+  }
+}
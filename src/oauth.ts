@@ -0,0 +1,164 @@
+import { readFileSync } from 'fs';
+import {
+  JSONWebKeySet,
+  JWTPayload,
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors as joseErrors,
+  jwtVerify,
+} from 'jose';
+import type { Scope } from './auth.js';
+import type { KeyRecord } from './key-store.js';
+
+export const ALL_SCOPES: Scope[] = ['read', 'write', 'execute', 'terminal', 'billing', 'admin'];
+
+export interface OAuthOptions {
+  // Canonical URL of this MCP server, e.g. https://mcp.example.com/mcp
+  resource: string;
+  // Authorization servers that issue tokens for this resource
+  authorizationServers: string[];
+  // JWKS URL or path to a local JWKS file
+  jwks: string;
+  // Expected `iss` claim; defaults to the first authorization server
+  issuer?: string;
+  // Expected `aud` claim; defaults to the resource URL
+  audience?: string;
+  // Maps token scope values onto server scopes
+  scopeMap?: Record<string, Scope[]>;
+}
+
+/**
+ * Default mapping accepts each server scope as-is or with a `blueprints:` prefix
+ */
+function defaultScopeMap(): Record<string, Scope[]> {
+  const map: Record<string, Scope[]> = {};
+  for (const scope of ALL_SCOPES) {
+    map[scope] = [scope];
+    map[`blueprints:${scope}`] = [scope];
+  }
+  return map;
+}
+
+/**
+ * Validates OAuth 2.1 JWT access tokens and describes this server as a protected resource
+ */
+export class OAuthTokenVerifier {
+  private options: OAuthOptions;
+  private keySet: ReturnType<typeof createRemoteJWKSet> | ReturnType<typeof createLocalJWKSet>;
+  private scopeMap: Record<string, Scope[]>;
+
+  constructor(options: OAuthOptions) {
+    this.options = options;
+    this.scopeMap = options.scopeMap ?? defaultScopeMap();
+
+    if (/^https?:\/\//.test(options.jwks)) {
+      this.keySet = createRemoteJWKSet(new URL(options.jwks));
+    } else {
+      const jwks: JSONWebKeySet = JSON.parse(readFileSync(options.jwks, 'utf8'));
+      this.keySet = createLocalJWKSet(jwks);
+    }
+  }
+
+  /**
+   * Verifies the token's signature, issuer, audience and expiry. Returns null for
+   * tokens that fail validation; errors reaching the JWKS are thrown.
+   */
+  async verify(token: string): Promise<KeyRecord | null> {
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, this.keySet, {
+        issuer: this.options.issuer ?? this.options.authorizationServers[0],
+        audience: this.options.audience ?? this.options.resource,
+      }));
+    } catch (error) {
+      if (error instanceof joseErrors.JOSEError && !(error instanceof joseErrors.JWKSTimeout)) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (!payload.sub) {
+      return null;
+    }
+
+    return {
+      userId: payload.sub,
+      scopes: this.mapScopes(payload),
+      expiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
+    };
+  }
+
+  /**
+   * Protected resource metadata (RFC 9728)
+   */
+  metadata() {
+    return {
+      resource: this.options.resource,
+      authorization_servers: this.options.authorizationServers,
+      scopes_supported: Object.keys(this.scopeMap),
+      bearer_methods_supported: ['header'],
+    };
+  }
+
+  /**
+   * Path the metadata is published under for this resource
+   */
+  metadataPath(): string {
+    const { pathname } = new URL(this.options.resource);
+    return `/.well-known/oauth-protected-resource${pathname === '/' ? '' : pathname}`;
+  }
+
+  metadataUrl(): string {
+    return new URL(this.metadataPath(), this.options.resource).toString();
+  }
+
+  /**
+   * Builds the `WWW-Authenticate` challenge for a 401 response
+   */
+  challenge(error?: 'invalid_token', description?: string): string {
+    let value = `Bearer resource_metadata="${this.metadataUrl()}"`;
+    if (error) {
+      value += `, error="${error}"`;
+    }
+    if (description) {
+      value += `, error_description="${description}"`;
+    }
+    return value;
+  }
+
+  private mapScopes(payload: JWTPayload): Scope[] {
+    // `scope` is a space-separated string; some providers use an `scp` array instead
+    const claimed = typeof payload.scope === 'string'
+      ? payload.scope.split(' ')
+      : Array.isArray(payload.scp) ? payload.scp.map(String) : [];
+
+    const scopes = new Set<Scope>();
+    for (const value of claimed) {
+      for (const scope of this.scopeMap[value] ?? []) {
+        scopes.add(scope);
+      }
+    }
+    return Array.from(scopes);
+  }
+}
+
+/**
+ * Reads OAuth settings from MCP_OAUTH_* environment variables; null when OAuth is off
+ */
+export function oauthOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): OAuthOptions | null {
+  if (!env.MCP_OAUTH_JWKS) {
+    return null;
+  }
+
+  if (!env.MCP_OAUTH_RESOURCE || !env.MCP_OAUTH_AUTHORIZATION_SERVERS) {
+    throw new Error('MCP_OAUTH_RESOURCE and MCP_OAUTH_AUTHORIZATION_SERVERS are required when MCP_OAUTH_JWKS is set');
+  }
+
+  return {
+    resource: env.MCP_OAUTH_RESOURCE,
+    authorizationServers: env.MCP_OAUTH_AUTHORIZATION_SERVERS.split(',').map((s) => s.trim()),
+    jwks: env.MCP_OAUTH_JWKS,
+    issuer: env.MCP_OAUTH_ISSUER,
+    audience: env.MCP_OAUTH_AUDIENCE,
+  };
+}
@@ -0,0 +1,48 @@
+import type { RequestContext } from './index.js';
+
+/**
+ * Sends notifications/progress for the current request when the client asked for
+ * progress by supplying a progress token; does nothing otherwise
+ */
+export function reportProgress(
+  context: RequestContext,
+  progress: number,
+  message?: string,
+  total?: number
+): void {
+  if (context.progressToken === undefined || !context.sendNotification) {
+    return;
+  }
+
+  const params: Record<string, unknown> = { progressToken: context.progressToken, progress };
+  if (total !== undefined) {
+    params.total = total;
+  }
+  if (message !== undefined) {
+    params.message = message;
+  }
+
+  context.sendNotification({ jsonrpc: '2.0', method: 'notifications/progress', params });
+}
+
+/**
+ * Resolves after `ms`, or rejects as soon as the request is cancelled
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,270 @@
+import type { AgentData, BlueprintsAPIClient } from './blueprints-api.js';
+import type { AgentConfigEditor } from './agent-config.js';
+import type { TerminalSessions } from './terminal.js';
+import { NotFoundError } from './errors.js';
+import { ErrorCode, JSONRPCError } from './jsonrpc.js';
+import { RESOURCE_TEMPLATES, agentURI } from './resources.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+// Most values a completion returns, as the MCP spec allows
+const MAX_COMPLETIONS = 100;
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface Prompt {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+type PromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: PromptContent;
+}
+
+const agentArgument: PromptArgument = { name: 'agent_id', description: 'ID of the agent.', required: true };
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'diagnose_agent',
+    title: 'Diagnose unhealthy agent',
+    description: 'Works out why an agent is unhealthy from its status and recent terminal output, and proposes a fix.',
+    arguments: [agentArgument],
+  },
+  {
+    name: 'deploy_agent',
+    title: 'Deploy new agent from framework',
+    description: 'Creates an agent for a framework with a valid config, starts it and checks it becomes healthy.',
+    arguments: [
+      { name: 'framework', description: 'Framework the agent runs on.', required: true },
+      { name: 'name', description: 'Name of the new agent.', required: true },
+      { name: 'project_id', description: 'Project to create the agent in.' },
+    ],
+  },
+  {
+    name: 'fleet_health',
+    title: 'Summarize fleet health',
+    description: 'Summarizes the status of every agent, or of one project\'s agents, and flags those needing attention.',
+    arguments: [{ name: 'project_id', description: 'Only include agents in this project.' }],
+  },
+  {
+    name: 'safe_config_change',
+    title: 'Safe config change',
+    description: 'Previews a config change, asks before applying it, verifies the agent stays healthy and rolls back if not.',
+    arguments: [agentArgument, { name: 'change', description: 'The change to make, in plain words.', required: true }],
+  },
+];
+
+function text(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function embedded(uri: string, data: unknown): PromptMessage {
+  return { role: 'user', content: { type: 'resource', resource: { uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) } } };
+}
+
+/**
+ * Prompts for common agent workflows, filled in with live data from the Blueprints API,
+ * and completion of their arguments
+ */
+export class AgentPrompts {
+  constructor(
+    private apiClient: BlueprintsAPIClient,
+    private terminals: TerminalSessions,
+    private agentConfigs: AgentConfigEditor
+  ) {}
+
+  list() {
+    return { prompts: PROMPTS };
+  }
+
+  /**
+   * Fills in a prompt. `terminalOwner` is the session whose terminal output diagnose_agent
+   * may include, or null when the caller may not read terminal output at all.
+   */
+  async get(name: string, args: Record<string, string> = {}, terminalOwner: string | null = '') {
+    const prompt = PROMPTS.find((candidate) => candidate.name === name);
+    if (!prompt) {
+      throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new JSONRPCError(
+        ErrorCode.InvalidParams,
+        `Missing arguments for prompt ${name}: ${missing.map((argument) => argument.name).join(', ')}`
+      );
+    }
+
+    let messages: PromptMessage[];
+    switch (prompt.name) {
+      case 'diagnose_agent':
+        messages = await this.diagnose(args.agent_id, terminalOwner);
+        break;
+      case 'deploy_agent':
+        messages = this.deploy(args.framework, args.name, args.project_id);
+        break;
+      case 'fleet_health':
+        messages = await this.fleetHealth(args.project_id);
+        break;
+      default:
+        messages = await this.configChange(args.agent_id, args.change);
+        break;
+    }
+    return { description: prompt.description, messages };
+  }
+
+  /**
+   * Values for a prompt argument or resource template variable starting with what the
+   * user has typed. Agents can be found by name as well as ID.
+   */
+  async complete(
+    ref: { type: string; name?: string; uri?: string },
+    argument: { name: string; value: string },
+    known: Record<string, string> = {}
+  ) {
+    let kind: string | undefined;
+    if (ref.type === 'ref/prompt') {
+      const prompt = PROMPTS.find((candidate) => candidate.name === ref.name);
+      if (!prompt) {
+        throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+      }
+      kind = prompt.arguments.some((candidate) => candidate.name === argument.name) ? argument.name : undefined;
+    } else if (ref.type === 'ref/resource') {
+      if (!RESOURCE_TEMPLATES.some((template) => template.uriTemplate === ref.uri)) {
+        throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+      }
+      kind = argument.name === 'id' ? 'agent_id' : undefined;
+    } else {
+      throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown reference type: ${ref.type}`);
+    }
+
+    const typed = argument.value.toLowerCase();
+    let values: string[] = [];
+    switch (kind) {
+      case 'agent_id': {
+        const agents = (await this.apiClient.listAgents()).filter(
+          (agent) => !known.project_id || agent.project_id === known.project_id
+        );
+        values = agents
+          .filter((agent) => agent.id.toLowerCase().startsWith(typed) || agent.name.toLowerCase().startsWith(typed))
+          .map((agent) => agent.id);
+        break;
+      }
+      case 'framework': {
+        const frameworks = new Set([
+          ...this.agentConfigs.frameworks(),
+          ...(await this.apiClient.listAgents()).map((agent) => agent.framework),
+        ]);
+        values = [...frameworks].filter((framework) => framework.toLowerCase().startsWith(typed));
+        break;
+      }
+      case 'project_id': {
+        const projects = new Set((await this.apiClient.listAgents()).map((agent) => agent.project_id));
+        values = [...projects].filter((project): project is string => !!project && project.toLowerCase().startsWith(typed));
+        break;
+      }
+    }
+
+    values.sort();
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETIONS),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETIONS,
+      },
+    };
+  }
+
+  private async diagnose(agentId: string, terminalOwner: string | null): Promise<PromptMessage[]> {
+    const [agent, status] = await Promise.all([
+      this.agentOrThrow(agentId),
+      this.apiClient.agentStatus(agentId).catch((error) => ({ error: String(error?.message ?? error) })),
+    ]);
+    const output = terminalOwner === null ? null : this.terminals.recentOutput(agentId, terminalOwner);
+
+    return [
+      text(
+        `Diagnose why the ${agent.framework} agent "${agent.name}" (${agentId}) is unhealthy. ` +
+          'Its current status and recent terminal output follow.'
+      ),
+      embedded(agentURI(agentId, 'status'), status),
+      text(
+        terminalOwner === null
+          ? 'Terminal output is left out, as reading it needs the terminal scope.'
+          : output
+            ? `Recent terminal output:\n\n${output}`
+            : 'No terminal output has been seen for this agent yet. Use send_terminal to read its logs if you need them.'
+      ),
+      text(
+        'Identify the most likely cause, citing the status fields or output lines that point to it. ' +
+          'Use agent_status and read-only send_terminal commands to check your theory. ' +
+          'Propose a fix, but ask before restarting the agent or changing its config.'
+      ),
+    ];
+  }
+
+  private deploy(framework: string, name: string, projectId?: string): PromptMessage[] {
+    const where = projectId ? ` in project ${projectId}` : '';
+    return [
+      text(
+        `Deploy a new ${framework} agent named "${name}"${where}.\n\n` +
+          '1. Ask me for any config values you need, then call create_agent. It validates the config against the ' +
+          `${framework} schema; if it reports issues, fix them and try again.\n` +
+          '2. Call start_agent with wait_until "healthy".\n' +
+          '3. Report the new agent\'s ID and status. If it does not become healthy, show the status and suggest next steps ' +
+          'instead of retrying on your own.'
+      ),
+    ];
+  }
+
+  private async fleetHealth(projectId?: string): Promise<PromptMessage[]> {
+    const agents = (await this.apiClient.listAgents()).filter((agent) => !projectId || agent.project_id === projectId);
+    const summary = agents.map(({ id, name, framework, status, project_id }) => ({ id, name, framework, status, project_id }));
+    const scope = projectId ? `the agents in project ${projectId}` : 'all agents';
+
+    return [
+      text(`Summarize the health of ${scope}. There are ${agents.length}; their current records follow.`),
+      embedded('blueprints://agents', summary),
+      text(
+        'Group the agents by status. For any that are not running, or that you suspect are unhealthy, call agent_status ' +
+          'and include the health and key stats. End with a short list of agents needing attention and why, most urgent first.'
+      ),
+    ];
+  }
+
+  private async configChange(agentId: string, change: string): Promise<PromptMessage[]> {
+    const agent = await this.agentOrThrow(agentId);
+    return [
+      text(`Change the config of agent "${agent.name}" (${agentId}): ${change}\n\nIts current config follows.`),
+      embedded(agentURI(agentId, 'config'), agent.config ?? {}),
+      text(
+        '1. Work out the smallest update that makes this change and call preview_agent_config with it.\n' +
+          '2. Show me the changes and any validation issues, and wait for my go-ahead.\n' +
+          '3. Apply it with edit_agent_config and note the version it returns.\n' +
+          '4. If the agent was running, restart it with restart_agents, then call wait_for_agent with state "healthy".\n' +
+          '5. If it does not become healthy, call rollback_agent_config and tell me what happened.'
+      ),
+    ];
+  }
+
+  private async agentOrThrow(agentId: string): Promise<AgentData> {
+    try {
+      return await this.apiClient.getAgent(agentId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown agent: ${agentId}`);
+      }
+      throw error;
+    }
+  }
+}
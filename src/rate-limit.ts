@@ -0,0 +1,389 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ErrorCode, JSONRPCError } from './jsonrpc.js';
+import { RedisClient } from './redis-client.js';
+
+const bucketSchema = z.object({
+  // Requests that can be made in a burst
+  capacity: z.number().positive(),
+  // Requests regained per second once the burst is spent
+  refillPerSecond: z.number().positive(),
+});
+
+export type BucketConfig = z.infer<typeof bucketSchema>;
+
+const limitSchema = bucketSchema
+  .partial()
+  .extend({
+    // Tool calls allowed per UTC day
+    dailyQuota: z.number().int().positive().optional(),
+  })
+  .refine((limit) => (limit.capacity === undefined) === (limit.refillPerSecond === undefined), {
+    message: 'capacity and refillPerSecond must be set together',
+  });
+
+export const rateLimitConfigSchema = z.object({
+  // Every request made with a key (per key owner)
+  key: limitSchema.optional(),
+  // Every request made within one MCP session
+  session: bucketSchema.optional(),
+  // Calls to a given tool, per key owner
+  tools: z.record(limitSchema).default({}),
+});
+
+export type RateLimitConfig = z.input<typeof rateLimitConfigSchema>;
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  // Until enough tokens for the refused request, when refused
+  retryAfterMs: number;
+  // Until the bucket is full again
+  resetMs: number;
+}
+
+export interface QuotaCounter {
+  key: string;
+  limit: number;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  // Uses counted so far, one per counter in the order given
+  used: number[];
+}
+
+/**
+ * Where limiter state lives. The memory store is per process; the Redis store lets
+ * replicas share limits.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes `cost` tokens from the bucket if that many are available, otherwise none
+   */
+  take(key: string, bucket: BucketConfig, cost?: number): Promise<BucketResult>;
+  /**
+   * Counts one use against each quota, all resetting at `resetAt` (epoch ms). Nothing is
+   * counted unless every quota has room.
+   */
+  increment(counters: QuotaCounter[], resetAt: number): Promise<QuotaResult>;
+  close(): Promise<void>;
+}
+
+function bucketResult(tokens: number, allowed: boolean, bucket: BucketConfig, cost: number): BucketResult {
+  const perMs = bucket.refillPerSecond / 1000;
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterMs: allowed ? 0 : Math.ceil((Math.min(cost, bucket.capacity) - tokens) / perMs),
+    resetMs: Math.ceil((bucket.capacity - tokens) / perMs),
+  };
+}
+
+/**
+ * Keeps buckets and quota counters in process memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { tokens: number; updatedAt: number; fullAt: number }> = new Map();
+  private counters: Map<string, { count: number; resetAt: number }> = new Map();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 60_000) {
+    this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  async take(key: string, bucket: BucketConfig, cost: number = 1): Promise<BucketResult> {
+    const now = Date.now();
+    const perMs = bucket.refillPerSecond / 1000;
+    const state = this.buckets.get(key);
+    let tokens = state
+      ? Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) * perMs)
+      : bucket.capacity;
+
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + (bucket.capacity - tokens) / perMs });
+    return bucketResult(tokens, allowed, bucket, cost);
+  }
+
+  async increment(counters: QuotaCounter[], resetAt: number): Promise<QuotaResult> {
+    const now = Date.now();
+    const current = counters.map(({ key }) => {
+      let counter = this.counters.get(key);
+      if (!counter || counter.resetAt <= now) {
+        counter = { count: 0, resetAt };
+        this.counters.set(key, counter);
+      }
+      return counter;
+    });
+
+    const allowed = current.every((counter, i) => counter.count < counters[i].limit);
+    if (allowed) {
+      for (const counter of current) {
+        counter.count++;
+      }
+    }
+    return { allowed, used: current.map((counter) => counter.count) };
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    // A full bucket is the same as no bucket
+    for (const [key, state] of this.buckets.entries()) {
+      if (state.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+    for (const [key, counter] of this.counters.entries()) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// Refills and takes atomically on the Redis server, using its clock so replicas agree
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local per_ms = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * per_ms)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / per_ms) + 1000)
+return {allowed, tostring(tokens)}
+`;
+
+// Checks every quota before counting against any, so a refusal charges none of them
+const INCREMENT_SCRIPT = `
+local allowed = 1
+local used = {}
+for i, key in ipairs(KEYS) do
+  used[i] = tonumber(redis.call('GET', key) or '0')
+  if used[i] >= tonumber(ARGV[i + 1]) then
+    allowed = 0
+  end
+end
+if allowed == 1 then
+  for i, key in ipairs(KEYS) do
+    used[i] = redis.call('INCR', key)
+    if used[i] == 1 then
+      redis.call('PEXPIREAT', key, ARGV[1])
+    end
+  end
+end
+return {allowed, used}
+`;
+
+/**
+ * Keeps buckets and quota counters in Redis (or anything speaking its protocol)
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisClient, private prefix: string = 'mcp:ratelimit:') {}
+
+  async take(key: string, bucket: BucketConfig, cost: number = 1): Promise<BucketResult> {
+    const reply = (await this.client.command(
+      'EVAL',
+      TAKE_SCRIPT,
+      1,
+      this.prefix + key,
+      bucket.capacity,
+      bucket.refillPerSecond / 1000,
+      cost
+    )) as [number, string];
+    return bucketResult(Number(reply[1]), reply[0] === 1, bucket, cost);
+  }
+
+  async increment(counters: QuotaCounter[], resetAt: number): Promise<QuotaResult> {
+    const reply = (await this.client.command(
+      'EVAL',
+      INCREMENT_SCRIPT,
+      counters.length,
+      ...counters.map(({ key }) => this.prefix + key),
+      resetAt,
+      ...counters.map(({ limit }) => limit)
+    )) as [number, number[]];
+    return { allowed: reply[0] === 1, used: reply[1].map(Number) };
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
+
+/**
+ * Why and for how long a request was refused
+ */
+export interface RateLimitRefusal {
+  scope: 'key' | 'session' | 'tool' | 'quota';
+  tool?: string;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+  resetSeconds: number;
+}
+
+export interface RateLimitOptions {
+  limits?: RateLimitConfig;
+  // Where limiter state lives; defaults to memory
+  store?: RateLimitStore;
+}
+
+/**
+ * Applies the configured token buckets and daily quotas
+ */
+export class RateLimiter {
+  private limits: z.infer<typeof rateLimitConfigSchema>;
+  private store: RateLimitStore;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.limits = rateLimitConfigSchema.parse(options.limits ?? {});
+    this.store = options.store ?? new MemoryRateLimitStore();
+  }
+
+  /**
+   * Counts `count` requests, such as the requests in a batch, against the key owner's and
+   * the session's buckets; returns the refusal when either lacks that many tokens
+   */
+  async checkRequest(userId: string, sessionId?: string, count: number = 1): Promise<RateLimitRefusal | null> {
+    const key = this.limits.key;
+    if (key?.capacity && key.refillPerSecond) {
+      const bucket = { capacity: key.capacity, refillPerSecond: key.refillPerSecond };
+      const refusal = refusalFor('key', bucket, await this.store.take(`key:${userId}`, bucket, count));
+      if (refusal) {
+        return refusal;
+      }
+    }
+
+    const session = this.limits.session;
+    if (session && sessionId) {
+      const refusal = refusalFor('session', session, await this.store.take(`session:${sessionId}`, session, count));
+      if (refusal) {
+        return refusal;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Counts a tool call against the tool's bucket and the daily quotas. The quotas are
+   * only charged when all of them have room.
+   */
+  async checkTool(userId: string, tool: string): Promise<RateLimitRefusal | null> {
+    const limit = this.limits.tools[tool];
+    if (limit?.capacity && limit.refillPerSecond) {
+      const bucket = { capacity: limit.capacity, refillPerSecond: limit.refillPerSecond };
+      const refusal = refusalFor('tool', bucket, await this.store.take(`tool:${userId}:${tool}`, bucket));
+      if (refusal) {
+        return { ...refusal, tool };
+      }
+    }
+
+    const day = new Date().toISOString().slice(0, 10);
+    const resetAt = nextUtcMidnight();
+    const quotas: Array<QuotaCounter & { tool?: string }> = [];
+    if (limit?.dailyQuota) {
+      quotas.push({ key: `quota:${userId}:${tool}:${day}`, limit: limit.dailyQuota, tool });
+    }
+    if (this.limits.key?.dailyQuota) {
+      quotas.push({ key: `quota:${userId}:${day}`, limit: this.limits.key.dailyQuota });
+    }
+    if (quotas.length === 0) {
+      return null;
+    }
+
+    const result = await this.store.increment(quotas, resetAt);
+    if (result.allowed) {
+      return null;
+    }
+    const spent = quotas.find((quota, i) => result.used[i] >= quota.limit)!;
+    const seconds = Math.ceil((resetAt - Date.now()) / 1000);
+    return { scope: 'quota', tool: spent.tool, limit: spent.limit, remaining: 0, retryAfterSeconds: seconds, resetSeconds: seconds };
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
+
+function refusalFor(scope: RateLimitRefusal['scope'], bucket: BucketConfig, result: BucketResult): RateLimitRefusal | null {
+  if (result.allowed) {
+    return null;
+  }
+  return {
+    scope,
+    limit: bucket.capacity,
+    remaining: result.remaining,
+    retryAfterSeconds: Math.ceil(result.retryAfterMs / 1000),
+    resetSeconds: Math.ceil(result.resetMs / 1000),
+  };
+}
+
+function nextUtcMidnight(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+}
+
+/**
+ * The JSON-RPC error reported for a refusal; its data carries the refusal itself
+ */
+export function rateLimitError(refusal: RateLimitRefusal): JSONRPCError {
+  const message = refusal.scope === 'quota'
+    ? `Daily quota of ${refusal.limit} ${refusal.tool ? `${refusal.tool} calls` : 'tool calls'} used up; resets in ${refusal.resetSeconds}s`
+    : `Rate limit exceeded for ${refusal.tool ?? `this ${refusal.scope}`}; retry after ${refusal.retryAfterSeconds}s`;
+  return new JSONRPCError(ErrorCode.RateLimited, message, refusal);
+}
+
+/**
+ * HTTP headers describing a refusal: Retry-After plus the RateLimit-* fields
+ */
+export function rateLimitHeaders(refusal: RateLimitRefusal): Record<string, string> {
+  return {
+    'Retry-After': String(refusal.retryAfterSeconds),
+    'RateLimit-Limit': String(refusal.limit),
+    'RateLimit-Remaining': String(refusal.remaining),
+    'RateLimit-Reset': String(refusal.resetSeconds),
+  };
+}
+
+/**
+ * Rate limit options from the environment: MCP_RATE_LIMIT_FILE (JSON or YAML limits) and
+ * MCP_RATE_LIMIT_STORE (`memory` or `redis`, which uses MCP_REDIS_URL)
+ */
+export function rateLimitOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitOptions {
+  let limits: RateLimitConfig | undefined;
+  const limitsFile = env.MCP_RATE_LIMIT_FILE;
+  if (limitsFile) {
+    const raw = readFileSync(limitsFile, 'utf8');
+    const ext = extname(limitsFile).toLowerCase();
+    limits = rateLimitConfigSchema.parse(ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw));
+  }
+
+  switch (env.MCP_RATE_LIMIT_STORE ?? 'memory') {
+    case 'memory':
+      return { limits };
+    case 'redis':
+      return { limits, store: new RedisRateLimitStore(new RedisClient(env.MCP_REDIS_URL)) };
+    default:
+      throw new Error(`Unknown MCP_RATE_LIMIT_STORE: ${env.MCP_RATE_LIMIT_STORE}`);
+  }
+}
@@ -0,0 +1,232 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { z } from 'zod';
+import { AgentData, BlueprintsAPIClient, agentDataSchema } from './blueprints-api.js';
+import type { AgentConfigEditor } from './agent-config.js';
+import { ToolError } from './errors.js';
+
+/**
+ * Snapshot of an agent taken just before it was removed
+ */
+export interface RemovedAgent {
+  // The agent's record as it was, config included
+  agent: AgentData;
+  removed_at: string;
+  // restore_agent can recreate the agent until then
+  restorable_until: string;
+  removed_by?: string;
+}
+
+export const removalSchema = z.object({
+  agent_id: z.string(),
+  removed: z.boolean(),
+  // null when the agent was removed for good
+  restorable_until: z.string().nullable(),
+  note: z.string().optional(),
+});
+
+export const removedAgentsSchema = z.object({
+  removed_agents: z.array(
+    z.object({
+      agent_id: z.string(),
+      name: z.string(),
+      framework: z.string(),
+      project_id: z.string().optional(),
+      status: z.string(),
+      removed_at: z.string(),
+      restorable_until: z.string(),
+    })
+  ),
+});
+
+export const restorationSchema = z.object({
+  restored_from: z.string(),
+  agent: agentDataSchema,
+  previous_status: z.string(),
+  note: z.string(),
+});
+
+export interface RecycleBinOptions {
+  // How long removed agents can be restored; 0 removes them for good straight away
+  gracePeriodMs?: number;
+  // JSON file keeping snapshots across restarts; memory only when unset
+  file?: string;
+}
+
+/**
+ * Snapshots of removed agents, kept for a grace period. Entries belong to a scope so
+ * backend identities sharing the bin cannot see each other's agents.
+ */
+export class RecycleBin {
+  readonly gracePeriodMs: number;
+  private entries: Map<string, RemovedAgent> = new Map();
+  private filePath?: string;
+
+  constructor(options: RecycleBinOptions = {}) {
+    this.gracePeriodMs = options.gracePeriodMs ?? 24 * 60 * 60 * 1000;
+    this.filePath = options.file;
+    if (this.filePath && existsSync(this.filePath)) {
+      const saved: Record<string, RemovedAgent> = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      this.entries = new Map(Object.entries(saved));
+    }
+  }
+
+  put(scope: string, agent: AgentData, removedBy?: string): RemovedAgent {
+    const now = Date.now();
+    const entry: RemovedAgent = {
+      agent,
+      removed_at: new Date(now).toISOString(),
+      restorable_until: new Date(now + this.gracePeriodMs).toISOString(),
+      removed_by: removedBy,
+    };
+    this.entries.set(this.key(scope, agent.id), entry);
+    this.prune();
+    this.save();
+    return entry;
+  }
+
+  get(scope: string, agentId: string): RemovedAgent | undefined {
+    this.prune();
+    return this.entries.get(this.key(scope, agentId));
+  }
+
+  /**
+   * The scope's entries, most recently removed first
+   */
+  list(scope: string): RemovedAgent[] {
+    this.prune();
+    return [...this.entries.entries()]
+      .filter(([key]) => key.startsWith(this.key(scope, '')))
+      .map(([, entry]) => entry)
+      .sort((a, b) => b.removed_at.localeCompare(a.removed_at));
+  }
+
+  delete(scope: string, agentId: string): void {
+    if (this.entries.delete(this.key(scope, agentId))) {
+      this.save();
+    }
+  }
+
+  private prune(): void {
+    const now = new Date().toISOString();
+    let pruned = false;
+    for (const [key, entry] of this.entries) {
+      if (entry.restorable_until <= now) {
+        this.entries.delete(key);
+        pruned = true;
+      }
+    }
+    if (pruned) {
+      this.save();
+    }
+  }
+
+  private key(scope: string, agentId: string): string {
+    return `${scope}\n${agentId}`;
+  }
+
+  private save(): void {
+    if (this.filePath) {
+      writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.entries)), { mode: 0o600 });
+    }
+  }
+}
+
+/**
+ * Removes agents through the recycle bin and brings them back
+ */
+export class AgentRemovals {
+  constructor(
+    private apiClient: BlueprintsAPIClient,
+    private bin: RecycleBin,
+    private agentConfigs: AgentConfigEditor,
+    // Keeps this backend's entries apart in a shared bin; the server's own identity has none
+    private scope: string = ''
+  ) {}
+
+  /**
+   * Snapshots the agent, then removes it. The snapshot is dropped again if the backend
+   * refuses the removal.
+   */
+  async remove(agent: AgentData, removedBy?: string): Promise<z.infer<typeof removalSchema>> {
+    if (this.bin.gracePeriodMs <= 0) {
+      await this.apiClient.removeAgent(agent.id);
+      return { agent_id: agent.id, removed: true, restorable_until: null };
+    }
+
+    const entry = this.bin.put(this.scope, agent, removedBy);
+    try {
+      await this.apiClient.removeAgent(agent.id);
+    } catch (error) {
+      this.bin.delete(this.scope, agent.id);
+      throw error;
+    }
+    return {
+      agent_id: agent.id,
+      removed: true,
+      restorable_until: entry.restorable_until,
+      note: 'Call restore_agent with this agent_id before then to recreate the agent from its snapshot.',
+    };
+  }
+
+  list(): z.infer<typeof removedAgentsSchema> {
+    return {
+      removed_agents: this.bin.list(this.scope).map(({ agent, removed_at, restorable_until }) => ({
+        agent_id: agent.id,
+        name: agent.name,
+        framework: agent.framework,
+        project_id: agent.project_id,
+        status: agent.status,
+        removed_at,
+        restorable_until,
+      })),
+    };
+  }
+
+  /**
+   * Recreates a removed agent with its name, framework, project and config. The backend
+   * gives it a new ID.
+   */
+  async restore(agentId: string): Promise<z.infer<typeof restorationSchema>> {
+    const entry = this.bin.get(this.scope, agentId);
+    if (!entry) {
+      throw new ToolError(
+        `Agent ${agentId} cannot be restored: it was not removed through this server or its grace period has ended. ` +
+          'list_removed_agents shows the agents that can be.'
+      );
+    }
+
+    const { agent } = entry;
+    const restored = await this.apiClient.createAgent({
+      project_id: agent.project_id,
+      name: agent.name,
+      framework: agent.framework,
+      config: agent.config,
+    });
+    this.bin.delete(this.scope, agentId);
+    this.agentConfigs.created(restored.id, restored.config ?? agent.config ?? {});
+
+    return {
+      restored_from: agentId,
+      agent: restored,
+      previous_status: agent.status,
+      note:
+        `The restored agent has the new ID ${restored.id}.` +
+        (agent.status === 'running' ? ' It was running when removed; start it with start_agent if it should be again.' : ''),
+    };
+  }
+}
+
+/**
+ * Recycle bin options from the environment: MCP_SOFT_DELETE_GRACE_PERIOD (seconds) and
+ * MCP_RECYCLE_BIN_FILE
+ */
+export function recycleBinOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RecycleBinOptions {
+  const options: RecycleBinOptions = {};
+  if (env.MCP_SOFT_DELETE_GRACE_PERIOD) {
+    options.gracePeriodMs = Number(env.MCP_SOFT_DELETE_GRACE_PERIOD) * 1000;
+  }
+  if (env.MCP_RECYCLE_BIN_FILE) {
+    options.file = env.MCP_RECYCLE_BIN_FILE;
+  }
+  return options;
+}
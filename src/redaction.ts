@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+const REDACTED = '[REDACTED]';
+
+export const redactionConfigSchema = z.object({
+  // Keep the built-in rules and add these to them
+  includeDefaults: z.boolean().default(true),
+  // Regular expressions for object keys whose values are always redacted. Keys are compared in
+  // snake_case and may carry a prefix, so `api_key` also covers `apiKey` and `OPENAI_API_KEY`.
+  keys: z.array(z.string()).default([]),
+  // Regular expressions applied to every string; matches are replaced. Use a capture group
+  // named `keep` for text to leave in place, e.g. the `--password=` part of a flag.
+  patterns: z
+    .array(
+      z.object({
+        regex: z.string(),
+        replacement: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+export type RedactionConfig = z.input<typeof redactionConfigSchema>;
+
+const DEFAULT_KEYS = [
+  'pass(word|wd)?',
+  'secret',
+  'token',
+  'api_?key',
+  'auth(orization)?',
+  'credentials?',
+  'private_key',
+  'cookie',
+];
+
+const DEFAULT_PATTERNS = [
+  // Blueprints API keys
+  'bp_sk_[A-Za-z0-9_-]+',
+  // Bearer and basic credentials in headers
+  '(?<keep>\\b(?:Bearer|Basic)\\s+)[A-Za-z0-9._~+/=-]+',
+  // Credentials embedded in URLs
+  '(?<keep>[a-z][a-z0-9+.-]*://[^\\s:/@]+:)[^\\s@]+(?=@)',
+  // NAME=value assignments of secret-looking variables, e.g. in terminal commands
+  '(?<keep>\\b\\w*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD)\\w*=)(?:"[^"]*"|\'[^\']*\'|\\S+)',
+  // --password=value and --token value style flags
+  '(?<keep>--?(?:password|passwd|token|secret|api-key)(?:=|\\s+))\\S+',
+  // AWS access key IDs
+  'AKIA[0-9A-Z]{16}',
+  // Private key blocks
+  '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+];
+
+/**
+ * Strips secrets from values before they are logged: values under secret-looking keys
+ * are replaced wholesale, and secret-looking substrings of other strings are masked
+ */
+export class Redactor {
+  private keyPattern: RegExp | null;
+  private patterns: Array<{ regex: RegExp; replacement: string }>;
+
+  constructor(config: RedactionConfig = {}) {
+    const parsed = redactionConfigSchema.parse(config);
+    const keys = [...(parsed.includeDefaults ? DEFAULT_KEYS : []), ...parsed.keys];
+    const patterns = [
+      ...(parsed.includeDefaults ? DEFAULT_PATTERNS.map((regex) => ({ regex, replacement: undefined })) : []),
+      ...parsed.patterns,
+    ];
+
+    this.keyPattern = keys.length > 0 ? new RegExp(`^(?:.*_)?(?:${keys.join('|')})$`) : null;
+    this.patterns = patterns.map(({ regex, replacement }) => ({
+      regex: new RegExp(regex, 'g'),
+      replacement: replacement ?? REDACTED,
+    }));
+  }
+
+  redact(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+    if (value !== null && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.isSecretKey(key) && item !== null && item !== undefined
+          ? REDACTED
+          : this.redact(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private isSecretKey(key: string): boolean {
+    if (!this.keyPattern) {
+      return false;
+    }
+    const snakeCase = key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toLowerCase();
+    return this.keyPattern.test(snakeCase);
+  }
+
+  private redactString(value: string): string {
+    let result = value;
+    for (const { regex, replacement } of this.patterns) {
+      result = result.replace(regex, (...args) => {
+        const groups = args[args.length - 1];
+        const keep = typeof groups === 'object' && groups?.keep ? groups.keep : '';
+        return keep + replacement;
+      });
+    }
+    return result;
+  }
+}
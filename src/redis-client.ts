@@ -0,0 +1,198 @@
+import { Socket, createConnection } from 'net';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Minimal client for the Redis serialization protocol (RESP2). Enough for the
+ * handful of commands the shared stores use; works against Redis, Valkey,
+ * KeyDB or any other server speaking the protocol.
+ */
+export class RedisClient {
+  private socket: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private url: URL;
+
+  constructor(url: string = 'redis://127.0.0.1:6379') {
+    this.url = new URL(url);
+  }
+
+  /**
+   * Sends a command and resolves with its reply. Error replies reject with RedisReplyError.
+   */
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    this.connecting = null;
+    if (socket) {
+      await new Promise<void>((resolve) => socket.end(resolve));
+    }
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const conn = createConnection(
+        { host: this.url.hostname || '127.0.0.1', port: Number(this.url.port) || 6379 },
+        () => resolve(conn)
+      );
+      conn.once('error', reject);
+    });
+
+    socket.on('data', (chunk) => this.handleData(chunk));
+    socket.on('error', (error) => this.failPending(error));
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      this.failPending(new Error('Redis connection closed'));
+    });
+
+    // AUTH and SELECT are sent before the socket is handed to other callers
+    if (this.url.password) {
+      const user = decodeURIComponent(this.url.username);
+      const password = decodeURIComponent(this.url.password);
+      await this.send(socket, user ? ['AUTH', user, password] : ['AUTH', password]);
+    }
+    const db = this.url.pathname.slice(1);
+    if (db) {
+      await this.send(socket, ['SELECT', db]);
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private send(socket: Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.pending.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) {
+        return;
+      }
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const command = this.pending.shift()!;
+      if (parsed.reply instanceof RedisReplyError) {
+        command.reject(parsed.reply);
+      } else {
+        command.resolve(parsed.reply);
+      }
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    for (const command of pending) {
+      command.reject(error);
+    }
+  }
+}
+
+export function encodeCommand(args: Array<string | number>): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return out;
+}
+
+/**
+ * Parses one reply starting at `offset`; returns null if the buffer holds only part of it
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset: number
+): { reply: RedisReply | RedisReplyError; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next };
+    case '-':
+      return { reply: new RedisReplyError(line), offset: next };
+    case ':':
+      return { reply: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { reply: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { reply: null, offset: next };
+      }
+      const items: RedisReply[] = [];
+      let error: RedisReplyError | null = null;
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        if (item.reply instanceof RedisReplyError) {
+          error = error ?? item.reply;
+        } else {
+          items.push(item.reply);
+        }
+        cursor = item.offset;
+      }
+      return { reply: error ?? items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type: ${type}`);
+  }
+}
@@ -0,0 +1,281 @@
+import type { BlueprintsAPIClient } from './blueprints-api.js';
+import { NotFoundError } from './errors.js';
+import { ErrorCode, JSONRPCError, JSONRPCNotification } from './jsonrpc.js';
+
+const URI_SCHEME = 'blueprints://';
+const JSON_MIME_TYPE = 'application/json';
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'blueprints://agents/{id}',
+    name: 'Agent',
+    description: 'An agent\'s full record.',
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'blueprints://agents/{id}/status',
+    name: 'Agent status',
+    description: 'Health and stats for an agent. Subscribe to be notified when status or health changes.',
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'blueprints://agents/{id}/config',
+    name: 'Agent config',
+    description: 'An agent\'s configuration.',
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+type ParsedURI =
+  | { kind: 'agents' }
+  | { kind: 'agent' | 'status' | 'config'; agentId: string };
+
+/**
+ * Parses a blueprints:// URI; null if it does not name a known resource
+ */
+export function parseResourceURI(uri: string): ParsedURI | null {
+  if (!uri.startsWith(URI_SCHEME)) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = uri.slice(URI_SCHEME.length).split('/').map(decodeURIComponent);
+  } catch {
+    // Malformed percent-encoding, e.g. a truncated UTF-8 sequence
+    return null;
+  }
+  if (segments[0] !== 'agents') {
+    return null;
+  }
+
+  if (segments.length === 1) {
+    return { kind: 'agents' };
+  }
+
+  const agentId = segments[1];
+  if (!agentId) {
+    return null;
+  }
+
+  if (segments.length === 2) {
+    return { kind: 'agent', agentId };
+  }
+  if (segments.length === 3 && (segments[2] === 'status' || segments[2] === 'config')) {
+    return { kind: segments[2], agentId };
+  }
+  return null;
+}
+
+export function agentURI(agentId: string, suffix?: 'status' | 'config'): string {
+  const base = `${URI_SCHEME}agents/${encodeURIComponent(agentId)}`;
+  return suffix ? `${base}/${suffix}` : base;
+}
+
+/**
+ * A `resource_link` content block pointing at an agent's resource
+ */
+export function agentLink(agent: { id: string; name?: string }) {
+  return {
+    type: 'resource_link' as const,
+    uri: agentURI(agent.id),
+    name: agent.name ?? agent.id,
+    mimeType: JSON_MIME_TYPE,
+  };
+}
+
+/**
+ * Exposes agents as MCP resources backed by the Blueprints API
+ */
+export class AgentResources {
+  constructor(private apiClient: BlueprintsAPIClient) {}
+
+  async list() {
+    const agents = await this.apiClient.listAgents();
+    return {
+      resources: [
+        {
+          uri: `${URI_SCHEME}agents`,
+          name: 'Agents',
+          description: 'All agents owned by the user.',
+          mimeType: JSON_MIME_TYPE,
+        },
+        ...agents.map((agent) => ({
+          uri: agentURI(agent.id),
+          name: agent.name,
+          description: `${agent.framework} agent (${agent.status})`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      ],
+    };
+  }
+
+  templates() {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  }
+
+  async read(uri: string) {
+    const parsed = parseResourceURI(uri);
+    if (!parsed) {
+      throw new JSONRPCError(ErrorCode.ResourceNotFound, `Resource not found: ${uri}`, { uri });
+    }
+
+    let data: unknown;
+    try {
+      switch (parsed.kind) {
+        case 'agents':
+          data = await this.apiClient.listAgents();
+          break;
+        case 'agent':
+          data = await this.apiClient.getAgent(parsed.agentId);
+          break;
+        case 'status':
+          data = await this.apiClient.agentStatus(parsed.agentId);
+          break;
+        case 'config':
+          data = (await this.apiClient.getAgent(parsed.agentId)).config ?? {};
+          break;
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new JSONRPCError(ErrorCode.ResourceNotFound, `Resource not found: ${uri}`, { uri });
+      }
+      throw error;
+    }
+
+    return {
+      contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+}
+
+type Notify = (notification: JSONRPCNotification) => void;
+
+interface AgentWatch {
+  timer: NodeJS.Timeout;
+  // Last seen status/health, used to detect changes
+  fingerprint: string | null;
+  // Subscribed URIs per subscriber (session)
+  subscribers: Map<string, { uris: Set<string>; notify: Notify }>;
+}
+
+/**
+ * Polls agent status for subscribed resources and sends
+ * notifications/resources/updated when status or health changes
+ */
+export class ResourceSubscriptions {
+  private watches: Map<string, AgentWatch> = new Map();
+
+  constructor(private apiClient: BlueprintsAPIClient, private pollIntervalMs: number = 15_000) {}
+
+  subscribe(subscriberId: string, uri: string, notify: Notify): void {
+    const parsed = parseResourceURI(uri);
+    if (!parsed || parsed.kind === 'agents') {
+      throw new JSONRPCError(ErrorCode.InvalidParams, `Resource does not support subscriptions: ${uri}`, { uri });
+    }
+
+    let watch = this.watches.get(parsed.agentId);
+    if (!watch) {
+      watch = {
+        timer: setInterval(() => this.poll(parsed.agentId), this.pollIntervalMs),
+        fingerprint: null,
+        subscribers: new Map(),
+      };
+      watch.timer.unref();
+      this.watches.set(parsed.agentId, watch);
+      // Take a baseline so the first change is detected
+      void this.poll(parsed.agentId);
+    }
+
+    const subscriber = watch.subscribers.get(subscriberId) ?? { uris: new Set<string>(), notify };
+    subscriber.uris.add(uri);
+    subscriber.notify = notify;
+    watch.subscribers.set(subscriberId, subscriber);
+  }
+
+  unsubscribe(subscriberId: string, uri: string): void {
+    const parsed = parseResourceURI(uri);
+    if (!parsed || parsed.kind === 'agents') {
+      return;
+    }
+
+    const watch = this.watches.get(parsed.agentId);
+    const subscriber = watch?.subscribers.get(subscriberId);
+    if (!watch || !subscriber) {
+      return;
+    }
+
+    subscriber.uris.delete(uri);
+    if (subscriber.uris.size === 0) {
+      watch.subscribers.delete(subscriberId);
+    }
+    this.stopIfUnused(parsed.agentId, watch);
+  }
+
+  /**
+   * Drops every subscription held by a subscriber, e.g. when its session ends
+   */
+  unsubscribeAll(subscriberId: string): void {
+    for (const [agentId, watch] of this.watches.entries()) {
+      watch.subscribers.delete(subscriberId);
+      this.stopIfUnused(agentId, watch);
+    }
+  }
+
+  /**
+   * Agents currently watched
+   */
+  get size(): number {
+    return this.watches.size;
+  }
+
+  close(): void {
+    for (const watch of this.watches.values()) {
+      clearInterval(watch.timer);
+    }
+    this.watches.clear();
+  }
+
+  private stopIfUnused(agentId: string, watch: AgentWatch): void {
+    if (watch.subscribers.size === 0) {
+      clearInterval(watch.timer);
+      this.watches.delete(agentId);
+    }
+  }
+
+  private async poll(agentId: string): Promise<void> {
+    let fingerprint: string;
+    try {
+      const status = await this.apiClient.agentStatus(agentId);
+      fingerprint = JSON.stringify([status.status, status.health]);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        console.error(`Error polling status for agent ${agentId}:`, error);
+        return;
+      }
+      // A removed agent is a change subscribers want to hear about
+      fingerprint = 'not_found';
+    }
+
+    const watch = this.watches.get(agentId);
+    if (!watch) {
+      return;
+    }
+
+    const previous = watch.fingerprint;
+    watch.fingerprint = fingerprint;
+    if (previous === null || previous === fingerprint) {
+      return;
+    }
+
+    for (const subscriber of watch.subscribers.values()) {
+      for (const uri of subscriber.uris) {
+        subscriber.notify({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri },
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,146 @@
+export interface CacheOptions {
+  // Defaults to true
+  enabled?: boolean;
+  // Milliseconds responses stay fresh, by route such as `/agents/:id/status`; merged over
+  // DEFAULT_CACHE_TTLS. Routes not listed are never cached. With 0, responses are kept
+  // only for ETag revalidation.
+  ttls?: Record<string, number>;
+  maxEntries?: number;
+}
+
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  '/agents': 5000,
+  '/agents/:id': 5000,
+  '/agents/:id/status': 2000,
+};
+
+/**
+ * A backend response as the cache needs it
+ */
+export interface FetchedResponse {
+  body: any;
+  etag?: string;
+  // The backend answered 304 to If-None-Match
+  notModified: boolean;
+}
+
+interface CacheEntry {
+  body: any;
+  etag?: string;
+  expiresAt: number;
+}
+
+function routePattern(route: string): RegExp {
+  const source = route
+    .split('/')
+    .map((segment) => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('/');
+  return new RegExp(`^${source}$`);
+}
+
+function pathOf(endpoint: string): string {
+  const query = endpoint.indexOf('?');
+  return query === -1 ? endpoint : endpoint.slice(0, query);
+}
+
+/**
+ * Short-lived cache of backend GET responses, keyed by endpoint
+ */
+export class ResponseCache {
+  private enabled: boolean;
+  private maxEntries: number;
+  private routes: Array<{ pattern: RegExp; ttlMs: number }>;
+  private entries: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<any>> = new Map();
+  // Bumped on every invalidation so responses fetched before it are not stored
+  private generation = 0;
+
+  constructor(options: CacheOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.routes = Object.entries({ ...DEFAULT_CACHE_TTLS, ...options.ttls }).map(([route, ttlMs]) => ({
+      pattern: routePattern(route),
+      ttlMs,
+    }));
+  }
+
+  /**
+   * Returns a fresh cached response, or loads one. Identical loads in flight are shared,
+   * and stale entries with an ETag are revalidated rather than fetched again.
+   */
+  async get(endpoint: string, load: (etag?: string) => Promise<FetchedResponse>): Promise<any> {
+    if (!this.enabled) {
+      return (await load()).body;
+    }
+
+    const ttlMs = this.ttlFor(endpoint);
+    const entry = ttlMs === undefined ? undefined : this.entries.get(endpoint);
+    if (entry && entry.expiresAt > Date.now()) {
+      return structuredClone(entry.body);
+    }
+
+    let pending = this.inFlight.get(endpoint);
+    if (!pending) {
+      pending = this.load(endpoint, ttlMs, entry, load).finally(() => {
+        if (this.inFlight.get(endpoint) === pending) {
+          this.inFlight.delete(endpoint);
+        }
+      });
+      this.inFlight.set(endpoint, pending);
+    }
+    // Callers each get their own copy to modify
+    return structuredClone(await pending);
+  }
+
+  /**
+   * Drops what a mutating call to `endpoint` may have changed: the agent list and, for
+   * calls under `/agents/:id`, everything cached for that agent
+   */
+  invalidate(endpoint: string): void {
+    const path = pathOf(endpoint);
+    if (!path.startsWith('/agents')) {
+      return;
+    }
+
+    this.generation++;
+    const agentPrefix = /^\/agents\/[^/]+/.exec(path)?.[0];
+    const affected = (key: string) => {
+      const keyPath = pathOf(key);
+      return keyPath === '/agents' || (agentPrefix !== undefined && (keyPath === agentPrefix || keyPath.startsWith(agentPrefix + '/')));
+    };
+
+    for (const key of [...this.entries.keys()].filter(affected)) {
+      this.entries.delete(key);
+    }
+    // Later callers must not join a load that started before the change
+    for (const key of [...this.inFlight.keys()].filter(affected)) {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async load(
+    endpoint: string,
+    ttlMs: number | undefined,
+    entry: CacheEntry | undefined,
+    load: (etag?: string) => Promise<FetchedResponse>
+  ): Promise<any> {
+    const generation = this.generation;
+    const response = await load(entry?.etag);
+    const body = response.notModified && entry ? entry.body : response.body;
+
+    if (ttlMs !== undefined && generation === this.generation) {
+      this.entries.delete(endpoint);
+      this.entries.set(endpoint, { body, etag: response.etag ?? entry?.etag, expiresAt: Date.now() + ttlMs });
+      if (this.entries.size > this.maxEntries) {
+        // Maps keep insertion order, so the first key is the least recently stored
+        this.entries.delete(this.entries.keys().next().value!);
+      }
+    }
+    return body;
+  }
+
+  private ttlFor(endpoint: string): number | undefined {
+    const path = pathOf(endpoint);
+    return this.routes.find((route) => route.pattern.test(path))?.ttlMs;
+  }
+}
@@ -0,0 +1,234 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import type { SessionData } from './auth.js';
+import { RedisClient } from './redis-client.js';
+
+/**
+ * Storage for authenticated sessions. Stores are responsible for evicting
+ * sessions once `expiresAt` has passed.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionData | null>;
+  set(session: SessionData): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  close(): Promise<void>;
+  // Sessions that have not expired, for metrics; optional for custom stores
+  count?(): Promise<number>;
+}
+
+export interface SweepOptions {
+  // How often expired sessions are removed
+  sweepIntervalMs?: number;
+}
+
+// Dates come back from JSON as strings
+function reviveSession(data: any): SessionData {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    lastActivity: new Date(data.lastActivity),
+    expiresAt: new Date(data.expiresAt),
+  };
+}
+
+function isExpired(session: SessionData, now: Date = new Date()): boolean {
+  return now > session.expiresAt;
+}
+
+/**
+ * Keeps sessions in process memory. Sessions are lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  protected sessions: Map<string, SessionData> = new Map();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: SweepOptions = {}) {
+    this.sweepTimer = setInterval(() => this.sweep(), options.sweepIntervalMs ?? 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    if (isExpired(session)) {
+      await this.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  async set(session: SessionData): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async count(): Promise<number> {
+    const now = new Date();
+    return [...this.sessions.values()].filter((session) => !isExpired(session, now)).length;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Removes every expired session
+   */
+  protected sweep(): void {
+    const now = new Date();
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (isExpired(session, now)) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps sessions in memory and mirrors them to a JSON file so they survive restarts.
+ * The file is rewritten atomically on every change.
+ */
+export class FileSessionStore extends MemorySessionStore {
+  constructor(private filePath: string, options: SweepOptions = {}) {
+    super(options);
+
+    if (existsSync(filePath)) {
+      const stored: unknown[] = JSON.parse(readFileSync(filePath, 'utf8'));
+      for (const data of stored) {
+        const session = reviveSession(data);
+        if (!isExpired(session)) {
+          this.sessions.set(session.id, session);
+        }
+      }
+    }
+  }
+
+  async set(session: SessionData): Promise<void> {
+    await super.set(session);
+    this.persist();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const existed = this.sessions.has(sessionId);
+    await super.delete(sessionId);
+    if (existed) {
+      this.persist();
+    }
+  }
+
+  protected sweep(): void {
+    const before = this.sessions.size;
+    super.sweep();
+    if (this.sessions.size !== before) {
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(Array.from(this.sessions.values())), { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Shares sessions between replicas through a Redis-protocol server.
+ * Expiry is delegated to the server via key TTLs.
+ */
+export class RedisSessionStore implements SessionStore {
+  private client: RedisClient;
+  private prefix: string;
+
+  constructor(client: RedisClient, prefix: string = 'mcp:session:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    const raw = await this.client.command('GET', this.prefix + sessionId);
+    if (typeof raw !== 'string') {
+      return null;
+    }
+    const session = reviveSession(JSON.parse(raw));
+    return isExpired(session) ? null : session;
+  }
+
+  async set(session: SessionData): Promise<void> {
+    const ttlMs = session.expiresAt.getTime() - Date.now();
+    if (ttlMs <= 0) {
+      await this.delete(session.id);
+      return;
+    }
+    await this.client.command('SET', this.prefix + session.id, JSON.stringify(session), 'PX', ttlMs);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + sessionId);
+  }
+
+  async count(): Promise<number> {
+    let cursor = '0';
+    let total = 0;
+    do {
+      const reply = (await this.client.command('SCAN', cursor, 'MATCH', this.prefix + '*', 'COUNT', 1000)) as [string, string[]];
+      cursor = reply[0];
+      total += reply[1].length;
+    } while (cursor !== '0');
+    return total;
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
+
+export type SessionExpiry = 'sliding' | 'absolute';
+
+export interface SessionOptions {
+  store?: SessionStore;
+  // 'sliding' pushes expiry back on every request, 'absolute' fixes it at creation
+  expiry?: SessionExpiry;
+  // Lifetime of a session, or its idle timeout when sliding
+  ttlMs?: number;
+  // Upper bound on a sliding session's total lifetime
+  maxLifetimeMs?: number;
+  // How often last activity is written back to the store; a tenth of the TTL, at most a minute, by default
+  touchIntervalMs?: number;
+}
+
+/**
+ * Builds session settings from MCP_SESSION_* environment variables.
+ * MCP_SESSION_STORE selects `memory` (default), `file` or `redis`.
+ */
+export function sessionOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SessionOptions {
+  let store: SessionStore;
+  switch (env.MCP_SESSION_STORE ?? 'memory') {
+    case 'memory':
+      store = new MemorySessionStore();
+      break;
+    case 'file':
+      store = new FileSessionStore(env.MCP_SESSION_FILE ?? '.mcp-sessions.json');
+      break;
+    case 'redis':
+      store = new RedisSessionStore(new RedisClient(env.MCP_REDIS_URL));
+      break;
+    default:
+      throw new Error(`Unknown MCP_SESSION_STORE: ${env.MCP_SESSION_STORE}`);
+  }
+
+  const expiry = env.MCP_SESSION_EXPIRY ?? 'absolute';
+  if (expiry !== 'sliding' && expiry !== 'absolute') {
+    throw new Error(`Unknown MCP_SESSION_EXPIRY: ${expiry}`);
+  }
+
+  return {
+    store,
+    expiry,
+    ttlMs: env.MCP_SESSION_TTL ? Number(env.MCP_SESSION_TTL) * 1000 : undefined,
+    maxLifetimeMs: env.MCP_SESSION_MAX_LIFETIME ? Number(env.MCP_SESSION_MAX_LIFETIME) * 1000 : undefined,
+  };
+}
@@ -0,0 +1,392 @@
+import { z } from 'zod';
+import type { BlueprintsAPIClient, TerminalChunk } from './blueprints-api.js';
+import type { RequestContext } from './index.js';
+import { ErrorCode, JSONRPCError } from './jsonrpc.js';
+import { reportProgress, sleep } from './progress.js';
+
+export interface TerminalOptions {
+  // Delay between output polls
+  pollIntervalMs?: number;
+  // Output kept per call; older output is dropped behind a truncation marker
+  maxOutputBytes?: number;
+  // Longest a command run through send_terminal may take
+  commandTimeoutMs?: number;
+  // Terminals idle for longer than this are closed
+  idleTimeoutMs?: number;
+}
+
+export const terminalResultSchema = z.object({
+  terminal_id: z.string(),
+  output: z.string(),
+  truncated: z.boolean(),
+  exited: z.boolean(),
+  exit_code: z.number().nullable().optional(),
+});
+
+export type TerminalResult = z.infer<typeof terminalResultSchema>;
+
+// Output kept per session and agent for diagnosis, across terminals
+const RECENT_OUTPUT_BYTES = 8 * 1024;
+// Session and agent pairs whose recent output is kept; the least recently written is dropped first
+const RECENT_OUTPUT_AGENTS = 100;
+// Longest unfinished command held for a terminal before writes are refused
+const MAX_PENDING_INPUT = 64 * 1024;
+
+interface TerminalHandle {
+  agentId: string;
+  // MCP session that opened the terminal; other sessions cannot use it
+  owner: string;
+  cursor: number;
+  lastUsed: number;
+  // Input written since the last complete command, not yet sent to the agent
+  pendingLine: string;
+}
+
+/**
+ * Collects terminal output up to a byte limit, keeping the most recent output
+ */
+export class OutputBuffer {
+  private chunks: string[] = [];
+  private bytes = 0;
+  private droppedBytes = 0;
+  private receivedBytes = 0;
+
+  constructor(private maxBytes: number) {}
+
+  append(data: string): void {
+    this.chunks.push(data);
+    this.bytes += Buffer.byteLength(data);
+    this.receivedBytes += Buffer.byteLength(data);
+
+    while (this.bytes > this.maxBytes && this.chunks.length > 0) {
+      const excess = this.bytes - this.maxBytes;
+      const first = this.chunks[0];
+      const firstBytes = Buffer.byteLength(first);
+      if (firstBytes <= excess) {
+        this.chunks.shift();
+        this.bytes -= firstBytes;
+        this.droppedBytes += firstBytes;
+      } else {
+        const kept = Buffer.from(first).subarray(excess).toString();
+        this.chunks[0] = kept;
+        this.bytes -= firstBytes - Buffer.byteLength(kept);
+        this.droppedBytes += firstBytes - Buffer.byteLength(kept);
+      }
+    }
+  }
+
+  // Total bytes appended, including dropped ones; only ever grows
+  get totalBytes(): number {
+    return this.receivedBytes;
+  }
+
+  get truncated(): boolean {
+    return this.droppedBytes > 0;
+  }
+
+  toString(): string {
+    const output = this.chunks.join('');
+    return this.truncated ? `[... ${this.droppedBytes} bytes truncated ...]\n${output}` : output;
+  }
+}
+
+/**
+ * Terminal sessions opened on agents, streaming their output back as progress notifications
+ */
+export class TerminalSessions {
+  private terminals: Map<string, TerminalHandle> = new Map();
+  private recent: Map<string, OutputBuffer> = new Map();
+  private options: Required<TerminalOptions>;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private apiClient: BlueprintsAPIClient, options: TerminalOptions = {}) {
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? 500,
+      maxOutputBytes: options.maxOutputBytes ?? 64 * 1024,
+      commandTimeoutMs: options.commandTimeoutMs ?? 30 * 60 * 1000,
+      idleTimeoutMs: options.idleTimeoutMs ?? 15 * 60 * 1000,
+    };
+    this.sweepTimer = setInterval(() => void this.closeIdle(), 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  async open(agentId: string, context: RequestContext): Promise<{ terminal_id: string }> {
+    const { session_id } = await this.apiClient.openTerminal(agentId);
+    this.terminals.set(session_id, {
+      agentId,
+      owner: context.sessionId ?? '',
+      cursor: 0,
+      lastUsed: Date.now(),
+      pendingLine: '',
+    });
+    return { terminal_id: session_id };
+  }
+
+  /**
+   * Agent a terminal belongs to, checking the caller owns it
+   */
+  agentOf(terminalId: string, context: RequestContext): string {
+    return this.get(terminalId, context).agentId;
+  }
+
+  /**
+   * Adds input to the terminal's unfinished command and returns the commands it completes,
+   * with the text to send for them. Input after the last complete command is held back
+   * until a later write finishes it, so a command split across writes, continued with a
+   * backslash, left in open quotes or carrying a heredoc is checked as a whole.
+   */
+  completeCommands(terminalId: string, input: string, context: RequestContext): { commands: string[]; text: string } {
+    const terminal = this.get(terminalId, context);
+    const buffered = terminal.pendingLine + input;
+    const { commands, end } = splitCommands(buffered);
+    if (buffered.length - end > MAX_PENDING_INPUT) {
+      terminal.pendingLine = '';
+      throw new JSONRPCError(ErrorCode.InvalidParams, `Commands written to a terminal are limited to ${MAX_PENDING_INPUT} characters`);
+    }
+
+    terminal.pendingLine = buffered.slice(end);
+    return { commands, text: buffered.slice(0, end) };
+  }
+
+  async write(terminalId: string, input: string, context: RequestContext): Promise<{ success: boolean }> {
+    const terminal = this.get(terminalId, context);
+    return this.apiClient.writeTerminal(terminal.agentId, terminalId, input);
+  }
+
+  /**
+   * Returns output produced since the last read, waiting up to `waitMs` for some to arrive
+   */
+  async read(terminalId: string, waitMs: number, context: RequestContext): Promise<TerminalResult> {
+    const terminal = this.get(terminalId, context);
+    const output = new OutputBuffer(this.options.maxOutputBytes);
+    const deadline = Date.now() + waitMs;
+
+    for (;;) {
+      const result = await this.poll(terminalId, terminal, output, context);
+      if (result.exited || result.received || Date.now() >= deadline) {
+        return this.result(terminalId, output, result.exited, result.exitCode);
+      }
+      await this.wait(terminalId, terminal, context);
+    }
+  }
+
+  async close(terminalId: string, context: RequestContext): Promise<{ success: boolean }> {
+    const terminal = this.get(terminalId, context);
+    this.terminals.delete(terminalId);
+    return this.apiClient.closeTerminal(terminal.agentId, terminalId);
+  }
+
+  /**
+   * Runs a command to completion in a fresh terminal, streaming output as progress
+   */
+  async run(agentId: string, command: string, context: RequestContext): Promise<TerminalResult> {
+    const { session_id: terminalId } = await this.apiClient.openTerminal(agentId, command);
+    const terminal: TerminalHandle = {
+      agentId,
+      owner: context.sessionId ?? '',
+      cursor: 0,
+      lastUsed: Date.now(),
+      pendingLine: '',
+    };
+    const output = new OutputBuffer(this.options.maxOutputBytes);
+    const deadline = Date.now() + this.options.commandTimeoutMs;
+
+    try {
+      for (;;) {
+        const result = await this.poll(terminalId, terminal, output, context);
+        if (result.exited) {
+          return this.result(terminalId, output, true, result.exitCode);
+        }
+        if (Date.now() >= deadline) {
+          await this.apiClient.signalTerminal(agentId, terminalId, 'SIGTERM');
+          output.append(`\n[command timed out after ${this.options.commandTimeoutMs}ms]\n`);
+          return this.result(terminalId, output, false);
+        }
+        await this.wait(terminalId, terminal, context);
+      }
+    } finally {
+      await this.apiClient.closeTerminal(agentId, terminalId).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Closes every terminal opened by an MCP session
+   */
+  async closeAllFor(owner: string): Promise<void> {
+    for (const [terminalId, terminal] of this.terminals.entries()) {
+      if (terminal.owner === owner) {
+        this.terminals.delete(terminalId);
+        await this.apiClient.closeTerminal(terminal.agentId, terminalId).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * The latest output the session's terminals on the agent produced, or null if none was
+   * seen. Other sessions' output is never returned, as it may hold their secrets.
+   */
+  recentOutput(agentId: string, owner: string): string | null {
+    return this.recent.get(this.recentKey(owner, agentId))?.toString() ?? null;
+  }
+
+  /**
+   * Terminals currently open
+   */
+  get size(): number {
+    return this.terminals.size;
+  }
+
+  /**
+   * Stops the idle sweep
+   */
+  dispose(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  private get(terminalId: string, context: RequestContext): TerminalHandle {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal || terminal.owner !== (context.sessionId ?? '')) {
+      throw new JSONRPCError(ErrorCode.InvalidParams, `Unknown terminal: ${terminalId}`);
+    }
+    terminal.lastUsed = Date.now();
+    return terminal;
+  }
+
+  private async poll(
+    terminalId: string,
+    terminal: TerminalHandle,
+    output: OutputBuffer,
+    context: RequestContext
+  ): Promise<{ received: boolean; exited: boolean; exitCode?: number | null }> {
+    const response = await this.apiClient.readTerminal(terminal.agentId, terminalId, terminal.cursor);
+    terminal.cursor = response.cursor;
+
+    for (const chunk of response.chunks) {
+      output.append(chunk.data);
+      this.remember(this.recentKey(terminal.owner, terminal.agentId), formatChunk(chunk));
+      reportProgress(context, output.totalBytes, formatChunk(chunk));
+    }
+
+    return {
+      received: response.chunks.length > 0,
+      exited: response.exited,
+      exitCode: response.exit_code,
+    };
+  }
+
+  private recentKey(owner: string, agentId: string): string {
+    return `${owner}\n${agentId}`;
+  }
+
+  private remember(key: string, data: string): void {
+    const buffer = this.recent.get(key) ?? new OutputBuffer(RECENT_OUTPUT_BYTES);
+    this.recent.delete(key);
+    this.recent.set(key, buffer);
+    buffer.append(data);
+    if (this.recent.size > RECENT_OUTPUT_AGENTS) {
+      this.recent.delete(this.recent.keys().next().value!);
+    }
+  }
+
+  /**
+   * Waits for the next poll; on cancellation interrupts the running command
+   */
+  private async wait(terminalId: string, terminal: TerminalHandle, context: RequestContext): Promise<void> {
+    try {
+      await sleep(this.options.pollIntervalMs, context.signal);
+    } catch (error) {
+      await this.apiClient.signalTerminal(terminal.agentId, terminalId, 'SIGINT').catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private result(
+    terminalId: string,
+    output: OutputBuffer,
+    exited: boolean,
+    exitCode?: number | null
+  ): TerminalResult {
+    const result: TerminalResult = {
+      terminal_id: terminalId,
+      output: output.toString(),
+      truncated: output.truncated,
+      exited,
+    };
+    if (exited) {
+      result.exit_code = exitCode ?? null;
+    }
+    return result;
+  }
+
+  private async closeIdle(): Promise<void> {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    for (const [terminalId, terminal] of this.terminals.entries()) {
+      if (terminal.lastUsed < cutoff) {
+        this.terminals.delete(terminalId);
+        await this.apiClient.closeTerminal(terminal.agentId, terminalId).catch(() => undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Splits input into the commands a shell would run. A line break only ends a command when
+ * it is not escaped by a backslash, not inside quotes and not followed by a pending heredoc
+ * body. Returns the complete commands, with backslash continuations joined, and where the
+ * last one ends; anything after that is unfinished.
+ */
+function splitCommands(input: string): { commands: string[]; end: number } {
+  const commands: string[] = [];
+  const heredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+  let end = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quote === "'") {
+      quote = char === "'" ? null : quote;
+    } else if (char === '\\') {
+      // Skips the escaped character; an escaped line break continues the command
+      i += input.startsWith('\r\n', i + 1) ? 2 : 1;
+    } else if (quote === '"') {
+      quote = char === '"' ? null : quote;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '#' && (i === end || /\s/.test(input[i - 1]))) {
+      while (i + 1 < input.length && input[i + 1] !== '\n' && input[i + 1] !== '\r') {
+        i++;
+      }
+    } else if (input.startsWith('<<<', i)) {
+      i += 2;
+    } else if (char === '<') {
+      const heredoc = /^<<(-?)[ \t]*(['"]?)(\w+)\2/.exec(input.slice(i));
+      if (heredoc) {
+        heredocs.push({ delimiter: heredoc[3], stripTabs: heredoc[1] === '-' });
+        i += heredoc[0].length - 1;
+      }
+    } else if (char === '\n' || char === '\r') {
+      let next = char === '\r' && input[i + 1] === '\n' ? i + 2 : i + 1;
+      // Heredoc bodies follow the line that opened them, up to their delimiter lines
+      while (heredocs.length > 0) {
+        const lineEnd = input.slice(next).search(/\r\n|\r|\n/);
+        if (lineEnd === -1) {
+          return { commands, end };
+        }
+        const line = input.slice(next, next + lineEnd);
+        if ((heredocs[0].stripTabs ? line.replace(/^\t+/, '') : line) === heredocs[0].delimiter) {
+          heredocs.shift();
+        }
+        next += lineEnd + (input.startsWith('\r\n', next + lineEnd) ? 2 : 1);
+      }
+
+      commands.push(input.slice(end, next).replace(/\\(?:\r\n|\r|\n)/g, '').replace(/(?:\r\n|\r|\n)$/, ''));
+      end = next;
+      i = next - 1;
+    }
+  }
+  return { commands, end };
+}
+
+function formatChunk(chunk: TerminalChunk): string {
+  return chunk.stream === 'stderr' ? `[stderr] ${chunk.data}` : chunk.data;
+}
@@ -0,0 +1,254 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { appendFileSync } from 'fs';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type AttributeValue = string | number | boolean;
+
+/**
+ * A finished span, as handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  // Milliseconds since the epoch
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+}
+
+export interface SpanExporter {
+  export(spans: SpanData[]): void;
+}
+
+/**
+ * Writes each span as a JSON line to stderr, which stays clear of the stdio transport
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  export(spans: SpanData[]): void {
+    for (const span of spans) {
+      process.stderr.write(JSON.stringify(span) + '\n');
+    }
+  }
+}
+
+const OTLP_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS: Record<SpanData['status']['code'], number> = { unset: 0, ok: 1, error: 2 };
+
+function otlpValue(value: AttributeValue): Record<string, unknown> {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+function otlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+/**
+ * Appends spans to a file as OTLP/JSON lines, the format the OpenTelemetry Collector's
+ * file exporter writes and its file receiver reads
+ */
+export class OTLPFileSpanExporter implements SpanExporter {
+  constructor(private filePath: string, private serviceName: string) {}
+
+  export(spans: SpanData[]): void {
+    const request = {
+      resourceSpans: [
+        {
+          resource: { attributes: otlpAttributes({ 'service.name': this.serviceName }) },
+          scopeSpans: [
+            {
+              scope: { name: 'blueprints-mcp-server' },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                name: span.name,
+                kind: OTLP_KINDS[span.kind],
+                startTimeUnixNano: String(BigInt(Math.round(span.startTime * 1e6))),
+                endTimeUnixNano: String(BigInt(Math.round(span.endTime * 1e6))),
+                attributes: otlpAttributes(span.attributes),
+                status: { code: OTLP_STATUS[span.status.code], message: span.status.message },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+    appendFileSync(this.filePath, JSON.stringify(request) + '\n');
+  }
+}
+
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+/**
+ * Reads a W3C `traceparent` header; null when absent or malformed
+ */
+export function parseTraceparent(header: string | undefined | null): TraceContext | null {
+  const match = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(header?.trim().toLowerCase() ?? '');
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+export class Span {
+  readonly context: TraceContext;
+  private attributes: Record<string, AttributeValue>;
+  private status: SpanData['status'] = { code: 'unset' };
+  private startTime = Date.now();
+
+  constructor(
+    private tracer: Tracer,
+    private name: string,
+    private kind: SpanKind,
+    private parent: TraceContext | undefined,
+    attributes: Record<string, AttributeValue>
+  ) {
+    this.context = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent?.sampled ?? true,
+    };
+    this.attributes = { ...attributes };
+  }
+
+  /**
+   * W3C traceparent naming this span as the parent of a downstream call
+   */
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): void {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+  }
+
+  setError(message: string): void {
+    this.status = { code: 'error', message };
+  }
+
+  end(): void {
+    if (!this.context.sampled) {
+      return;
+    }
+    this.tracer.finish({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parent?.spanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: Date.now(),
+      attributes: this.attributes,
+      status: this.status,
+    });
+  }
+}
+
+export interface TracingOptions {
+  // No spans are recorded without exporters
+  exporters?: SpanExporter[];
+}
+
+/**
+ * Creates spans, keeping the current one in async context so nested calls become its children
+ */
+export class Tracer {
+  private exporters: SpanExporter[];
+  private active: AsyncLocalStorage<Span> = new AsyncLocalStorage();
+  // Handed out while tracing is off; never exported
+  private noop: Span;
+
+  constructor(options: TracingOptions = {}) {
+    this.exporters = options.exporters ?? [];
+    this.noop = new Span(this, 'noop', 'internal', { traceId: '0'.repeat(32), spanId: '0'.repeat(16), sampled: false }, {});
+  }
+
+  get enabled(): boolean {
+    return this.exporters.length > 0;
+  }
+
+  /**
+   * Runs `fn` in a new span, ending it when `fn` settles and marking it failed when it
+   * throws. The parent is the current span, or `parent` (e.g. an incoming traceparent)
+   * when there is none.
+   */
+  async withSpan<T>(
+    name: string,
+    options: { kind?: SpanKind; attributes?: Record<string, AttributeValue>; parent?: TraceContext | null },
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    if (!this.enabled) {
+      return fn(this.noop);
+    }
+
+    const parent = this.active.getStore()?.context ?? options.parent ?? undefined;
+    const span = new Span(this, name, options.kind ?? 'internal', parent, options.attributes ?? {});
+    try {
+      return await this.active.run(span, () => fn(span));
+    } catch (error) {
+      span.setError(error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Hands a finished span to the exporters; a failing exporter never fails the request
+   */
+  finish(span: SpanData): void {
+    for (const exporter of this.exporters) {
+      try {
+        exporter.export([span]);
+      } catch (error) {
+        console.error('Failed to export span:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Tracing options from the environment: MCP_TRACE_EXPORTERS (comma-separated `console`
+ * and `otlp-file`), MCP_TRACE_FILE for the latter and OTEL_SERVICE_NAME
+ */
+export function tracingOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): TracingOptions {
+  const serviceName = env.OTEL_SERVICE_NAME ?? 'blueprints-mcp-server';
+  const names = (env.MCP_TRACE_EXPORTERS ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const exporters = names.map((name): SpanExporter => {
+    switch (name) {
+      case 'console':
+        return new ConsoleSpanExporter();
+      case 'otlp-file':
+        if (!env.MCP_TRACE_FILE) {
+          throw new Error('MCP_TRACE_FILE is required for the otlp-file trace exporter');
+        }
+        return new OTLPFileSpanExporter(env.MCP_TRACE_FILE, serviceName);
+      default:
+        throw new Error(`Unknown trace exporter: ${name}`);
+    }
+  });
+
+  return { exporters };
+}
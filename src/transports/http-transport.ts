@@ -1,37 +1,161 @@
-import { ServerTransport, Message } from '@modelcontextprotocol/sdk';
 import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
 import { URL } from 'url';
-import { Readable } from 'stream';
-import { MCPConfig } from './index.js';
-import { AuthManager, SessionData } from './auth.js';
+import { SUPPORTED_PROTOCOL_VERSIONS } from '../index.js';
+import type { BlueprintsMCPServer, MCPConfig, RequestContext } from '../index.js';
+import { AuthManager, SessionData, hasScope } from '../auth.js';
+import { KeyRecord, createKeyStoreFromEnv } from '../key-store.js';
+import { sessionOptionsFromEnv } from '../session-store.js';
+import { OAuthTokenVerifier, oauthOptionsFromEnv } from '../oauth.js';
+import {
+  ErrorCode,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  errorResponse,
+  isNotification,
+} from '../jsonrpc.js';
+import { rateLimitError, rateLimitHeaders } from '../rate-limit.js';
+import { Metrics } from '../metrics.js';
+import { SSEStream } from './sse.js';
 
-export class HTTPTransport implements ServerTransport {
+const MCP_ENDPOINT = '/mcp';
+const METRICS_ENDPOINT = '/metrics';
+
+// Number of server-initiated events kept per session for Last-Event-ID resumption
+const MAX_BUFFERED_EVENTS = 100;
+
+interface BufferedEvent {
+  id: number;
+  message: JSONRPCNotification | JSONRPCRequest;
+}
+
+/**
+ * Transport-side state for a session's standalone (GET) SSE stream
+ */
+interface SessionStream {
+  stream: SSEStream | null;
+  events: BufferedEvent[];
+  nextEventId: number;
+}
+
+export interface HTTPTransportOptions {
+  // Defaults to 3000; 0 picks a free port
+  port?: number;
+  // Interface to listen on; all interfaces when unset
+  host?: string;
+  // Shared with the server so /metrics covers request handling too
+  metrics?: Metrics;
+  // How often sessions that expired without a further request are cleaned up
+  sweepIntervalMs?: number;
+}
+
+interface AcceptedTypes {
+  json: boolean;
+  sse: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether the client expects an answer: requests do, and so do malformed messages, which
+ * are answered with Invalid Request. Notifications and responses from the client do not.
+ */
+function expectsResponse(message: unknown): boolean {
+  if (!isObject(message)) {
+    return true;
+  }
+  if (typeof message.method !== 'string') {
+    return !('result' in message || 'error' in message);
+  }
+  return !isNotification(message as JSONRPCRequest);
+}
+
+/**
+ * The scopes granted by both sets, taking admin as granting every scope
+ */
+function intersectScopes(a: string[], b: string[]): string[] {
+  return [...new Set([...a.filter((scope) => hasScope(b, scope)), ...b.filter((scope) => hasScope(a, scope))])];
+}
+
+/**
+ * Streamable HTTP transport: a single MCP endpoint accepting POST for client messages,
+ * GET for a server-to-client SSE stream and DELETE to end the session
+ */
+export class HTTPTransport {
   private server: ReturnType<typeof createServer>;
   private authManager: AuthManager;
   private config: MCPConfig;
-  private serverInstance: any; // Will hold reference to the actual server
+  private serverInstance!: BlueprintsMCPServer;
+  private sessionStreams: Map<string, SessionStream> = new Map();
+  private oauth: OAuthTokenVerifier | null;
+  private metrics: Metrics;
+  private metricsToken: string | undefined;
+  private port: number;
+  private host: string | undefined;
+  private sweepTimer: NodeJS.Timeout;
 
-  constructor(config: MCPConfig) {
+  constructor(config: MCPConfig, options: HTTPTransportOptions = {}) {
     this.config = config;
-    this.authManager = new AuthManager();
+    this.port = options.port ?? 3000;
+    this.host = options.host;
+    this.authManager = new AuthManager(
+      undefined,
+      config.keyStore ?? createKeyStoreFromEnv(config.baseUrl),
+      config.session ?? sessionOptionsFromEnv()
+    );
+
+    const oauthOptions = config.oauth ?? oauthOptionsFromEnv();
+    this.oauth = oauthOptions ? new OAuthTokenVerifier(oauthOptions) : null;
+
+    this.metrics = options.metrics ?? new Metrics();
+    this.metricsToken = config.metricsToken ?? process.env.MCP_METRICS_TOKEN;
+    this.metrics.activeSessions.collect = async () => {
+      const count = await this.authManager.countSessions();
+      if (count !== null) {
+        this.metrics.activeSessions.set({}, count);
+      }
+    };
+
     this.server = createServer(this.handleRequest.bind(this));
+    this.sweepTimer = setInterval(() => void this.sweep(), options.sweepIntervalMs ?? 60 * 1000);
+    this.sweepTimer.unref();
   }
 
   // Method to set the server instance so we can route messages to it
-  setServerInstance(server: any) {
+  setServerInstance(server: BlueprintsMCPServer) {
     this.serverInstance = server;
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve) => {
-      this.server.listen(3000, () => {
-        console.log('HTTP transport listening on port 3000');
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        console.error(`HTTP transport listening on ${this.host ?? '*'}:${this.listeningPort()}`);
         resolve();
       });
     });
   }
 
+  /**
+   * The port actually bound, which differs from the configured one when that was 0
+   */
+  listeningPort(): number {
+    const address = this.server.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
   async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    for (const state of this.sessionStreams.values()) {
+      state.stream?.close();
+    }
+    this.sessionStreams.clear();
+    await this.authManager.close();
+
     return new Promise((resolve, reject) => {
       this.server.close((err) => {
         if (err) {
@@ -44,147 +168,458 @@ export class HTTPTransport implements ServerTransport {
   }
 
   private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    const url = new URL(`http://${req.headers.host}${req.url}`);
-    
-    // Only accept POST requests to /mcp/messages
-    if (req.method !== 'POST' || url.pathname !== '/mcp/messages') {
-      res.writeHead(404, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Not found' }));
-      return;
-    }
-
-    // Extract session ID from query parameter and header
-    const sessionIdFromQuery = url.searchParams.get('sessionId');
-    const sessionIdFromHeader = req.headers['mcp-session-id'] as string;
-    
-    // Validate session
-    let sessionId: string | undefined;
-    if (sessionIdFromQuery && sessionIdFromHeader) {
-      if (sessionIdFromQuery === sessionIdFromHeader) {
-        sessionId = sessionIdFromQuery;
+    try {
+      await this.routeRequest(req, res);
+    } catch (error: any) {
+      console.error('Error processing request:', error);
+      if (!res.headersSent) {
+        this.sendJSON(res, 500, { error: error.message || 'Internal server error' });
+      } else {
+        res.end();
       }
     }
+  }
+
+  private async routeRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(`http://${req.headers.host}${req.url}`);
+    } catch {
+      this.sendJSON(res, 400, { error: 'Malformed request URL or Host header' });
+      return;
+    }
+
+    // Protected resource metadata is public so clients can discover the authorization server
+    if (this.oauth && req.method === 'GET' && this.isMetadataPath(url.pathname)) {
+      this.sendJSON(res, 200, this.oauth.metadata());
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === METRICS_ENDPOINT) {
+      await this.handleMetrics(req, res);
+      return;
+    }
+
+    if (url.pathname !== MCP_ENDPOINT) {
+      this.sendJSON(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+      res.setHeader('Allow', 'GET, POST, DELETE');
+      this.sendJSON(res, 405, { error: 'Method not allowed' });
+      return;
+    }
 
+    const keyRecord = await this.authenticateRequest(req, res);
+    if (!keyRecord) {
+      return;
+    }
+
+    // Clients send the negotiated version on every request after initialization
+    const protocolVersion = req.headers['mcp-protocol-version'] as string | undefined;
+    if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      this.sendJSON(res, 400, { error: `Unsupported protocol version: ${protocolVersion}` });
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    switch (req.method) {
+      case 'POST':
+        await this.handlePost(req, res, sessionId, keyRecord);
+        break;
+      case 'GET':
+        await this.handleGet(req, res, sessionId, keyRecord);
+        break;
+      case 'DELETE':
+        await this.handleDelete(res, sessionId, keyRecord);
+        break;
+    }
+  }
+
+  /**
+   * Resolves the bearer credential to a user and scopes. `bp_sk_` API keys go through
+   * the key store; anything else is treated as an OAuth access token when OAuth is on.
+   * Answers 401/503 itself and returns null when the request cannot proceed.
+   */
+  private async authenticateRequest(req: IncomingMessage, res: ServerResponse): Promise<KeyRecord | null> {
     // Check for authorization header
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.writeHead(401, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Missing or invalid authorization header' }));
-      return;
+      this.sendUnauthorized(res, 'Missing or invalid authorization header');
+      return null;
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
-    // Validate API key format
-    if (!this.authManager.validateApiKey(token)) {
-      res.writeHead(401, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Invalid API key format' }));
+    const isApiKey = token.startsWith('bp_sk_') || !this.oauth;
+
+    let keyRecord: KeyRecord | null;
+    try {
+      keyRecord = isApiKey
+        ? await this.authManager.authenticate(token)
+        : await this.oauth!.verify(token);
+    } catch (error) {
+      console.error('Error verifying credentials:', error);
+      this.sendJSON(res, 503, { error: 'Unable to verify credentials' });
+      return null;
+    }
+
+    if (!keyRecord) {
+      this.sendUnauthorized(
+        res,
+        isApiKey ? 'Invalid, expired or revoked API key' : 'Invalid or expired access token',
+        true
+      );
+      return null;
+    }
+
+    return keyRecord;
+  }
+
+  /**
+   * Sends a 401, with an OAuth challenge pointing at the resource metadata when OAuth is on
+   */
+  private sendUnauthorized(res: ServerResponse, message: string, invalidToken = false): void {
+    const headers: Record<string, string> = {};
+    if (this.oauth) {
+      headers['WWW-Authenticate'] = invalidToken
+        ? this.oauth.challenge('invalid_token', message)
+        : this.oauth.challenge();
+    }
+    this.sendJSON(res, 401, { error: message }, headers);
+  }
+
+  /**
+   * Serves metrics in the Prometheus text format. Scrapers authenticate with
+   * MCP_METRICS_TOKEN rather than an API key; without one the endpoint is open.
+   */
+  private async handleMetrics(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.metricsToken) {
+      const digest = (value: string) => createHash('sha256').update(value).digest();
+      const presented = req.headers.authorization?.startsWith('Bearer ') ? req.headers.authorization.substring(7) : '';
+      if (!timingSafeEqual(digest(presented), digest(this.metricsToken))) {
+        this.sendJSON(res, 401, { error: 'Missing or invalid metrics token' });
+        return;
+      }
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(await this.metrics.registry.render());
+  }
+
+  private isMetadataPath(pathname: string): boolean {
+    return pathname === '/.well-known/oauth-protected-resource' || pathname === this.oauth?.metadataPath();
+  }
+
+  /**
+   * Handles client messages: a single JSON-RPC message or a batch array
+   */
+  private async handlePost(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | undefined,
+    keyRecord: KeyRecord
+  ): Promise<void> {
+    const accepted = this.parseAccept(req);
+    const traceparent = req.headers.traceparent as string | undefined;
+    // Already verified by authenticateRequest
+    const credential = req.headers.authorization?.substring(7);
+    if (!accepted.json && !accepted.sse) {
+      this.sendJSON(res, 406, { error: 'Accept must include application/json or text/event-stream' });
+      return;
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(await this.readRequestBody(req));
+    } catch {
+      this.sendJSON(res, 400, errorResponse(null, ErrorCode.ParseError, 'Parse error'));
+      return;
+    }
+
+    const isBatch = Array.isArray(body);
+    const messages: JSONRPCRequest[] = isBatch ? body : [body];
+    if (messages.length === 0) {
+      this.sendJSON(res, 400, errorResponse(null, ErrorCode.InvalidRequest, 'Empty batch'));
+      return;
+    }
+    if (!isBatch && !isObject(body)) {
+      this.sendJSON(res, 400, errorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request'));
       return;
     }
 
     // If this is an initialization request and no session exists yet
     if (!sessionId) {
-      // Handle initialization request
-      const body = await this.readRequestBody(req);
-      const message: Message = JSON.parse(body);
-      
-      if (message.method === 'initialize') {
-        // Create a new session for this user (in a real app, you'd extract user info from the token)
-        // For this demo, we'll use a placeholder user ID
-        const session = this.authManager.createSession('demo-user', ['read', 'write']);
-        sessionId = session.id;
-        
-        // Send successful initialization response
-        const response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          result: {
-            protocolVersion: '2024-11-05',
-            capabilities: {},
-            serverInfo: {
-              name: 'blueprints-mcp-server',
-              version: '1.0.0'
-            }
-          }
-        };
-
-        res.setHeader('Content-Type', 'application/json');
-        res.setHeader('mcp-session-id', session.id);
-        res.writeHead(200);
-        res.end(JSON.stringify(response));
+      if (isBatch || body.method !== 'initialize') {
+        this.sendJSON(res, 400, { error: 'Session required for this request' });
         return;
-      } else {
-        // If not initialization and no session, reject the request
-        res.writeHead(401, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Session required for this request' }));
+      }
+
+      if (await this.rejectIfRateLimited(res, keyRecord.userId)) {
         return;
       }
+
+      // Create a new session carrying the key owner's identity and scopes
+      const session = await this.authManager.createSession(keyRecord.userId, keyRecord.scopes);
+      this.sessionStreams.set(session.id, { stream: null, events: [], nextEventId: 1 });
+
+      // Let the server negotiate the protocol version and capabilities
+      const response = await this.serverInstance.receiveMessage(body, { sessionId: session.id, session, traceparent, credential });
+      this.sendJSON(res, 200, response, { 'mcp-session-id': session.id });
+      return;
     }
 
-    // Validate the session
-    const session = this.authManager.validateSession(sessionId);
+    const session = await this.requireSession(res, sessionId, keyRecord);
     if (!session) {
-      res.writeHead(401, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Invalid or expired session' }));
       return;
     }
 
-    try {
-      // Read request body
-      const body = await this.readRequestBody(req);
-      const message: Message = JSON.parse(body);
-
-      // Handle initialized notification
-      if (message.method === 'notifications/initialized') {
-        // Just acknowledge the initialized notification
-        res.writeHead(200);
-        res.end();
-        return;
+    const requests = messages.filter(expectsResponse);
+
+    // Each request in a batch costs a token, so batching cannot get around the limits
+    if (await this.rejectIfRateLimited(res, keyRecord.userId, sessionId, Math.max(requests.length, 1))) {
+      return;
+    }
+    if (requests.length === 0) {
+      await Promise.all(
+        messages.map((message) => this.serverInstance.receiveMessage(message, { sessionId, session, traceparent, credential }))
+      );
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    if (accepted.sse) {
+      // Stream notifications raised while handling the request, then the responses
+      const stream = new SSEStream(res, { 'mcp-session-id': sessionId });
+      const context: RequestContext = {
+        sessionId,
+        session,
+        traceparent,
+        credential,
+        sendNotification: (notification) => stream.send(notification),
+        sendRequest: (request) => stream.send(request),
+        notifySession: (notification) => this.sendToSession(sessionId, notification),
+      };
+
+      await Promise.all(
+        messages.map(async (message) => {
+          const response = await this.serverInstance.receiveMessage(message, context);
+          if (response) {
+            stream.send(response);
+          }
+        })
+      );
+      stream.close();
+      return;
+    }
+
+    // Plain JSON responses cannot carry notifications, so route them to the GET stream
+    const context: RequestContext = {
+      sessionId,
+      session,
+      traceparent,
+      credential,
+      sendNotification: (notification) => this.sendToSession(sessionId, notification),
+      sendRequest: (request) => this.sendToSession(sessionId, request),
+      notifySession: (notification) => this.sendToSession(sessionId, notification),
+    };
+    const responses = (
+      await Promise.all(messages.map((message) => this.serverInstance.receiveMessage(message, context)))
+    ).filter((response): response is JSONRPCResponse => response !== null);
+
+    // A lone request refused by a tool limit or quota is answered like any other rate limit
+    const refusal = !isBatch && responses[0]?.error?.code === ErrorCode.RateLimited ? responses[0].error.data : null;
+    if (refusal) {
+      this.sendJSON(res, 429, responses[0], { 'mcp-session-id': sessionId, ...rateLimitHeaders(refusal) });
+      return;
+    }
+
+    this.sendJSON(res, 200, isBatch ? responses : responses[0], { 'mcp-session-id': sessionId });
+  }
+
+  /**
+   * Answers 429 with Retry-After and RateLimit-* headers when the key or session is over its limit
+   */
+  private async rejectIfRateLimited(
+    res: ServerResponse,
+    userId: string,
+    sessionId?: string,
+    count: number = 1
+  ): Promise<boolean> {
+    const refusal = await this.serverInstance.checkRateLimit(userId, sessionId, count);
+    if (!refusal) {
+      return false;
+    }
+
+    const error = rateLimitError(refusal);
+    this.sendJSON(res, 429, errorResponse(null, error.code, error.message, error.data), rateLimitHeaders(refusal));
+    return true;
+  }
+
+  /**
+   * Opens the standalone SSE stream used for server-initiated messages, replaying
+   * buffered events when the client resumes with Last-Event-ID
+   */
+  private async handleGet(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | undefined,
+    keyRecord: KeyRecord
+  ): Promise<void> {
+    if (!this.parseAccept(req).sse) {
+      this.sendJSON(res, 406, { error: 'Accept must include text/event-stream' });
+      return;
+    }
+
+    if (!sessionId) {
+      this.sendJSON(res, 400, { error: 'Session required for this request' });
+      return;
+    }
+
+    if (!(await this.requireSession(res, sessionId, keyRecord))) {
+      return;
+    }
+
+    const state = this.getSessionStream(sessionId);
+
+    // A reconnecting client replaces its previous stream
+    state.stream?.close();
+
+    const stream = new SSEStream(res, { 'mcp-session-id': sessionId });
+    state.stream = stream;
+    stream.onClose(() => {
+      if (state.stream === stream) {
+        state.stream = null;
       }
+    });
 
-      // Determine the required scope based on the method
-      const requiredScope = this.getRequiredScope(message.method);
-      if (requiredScope && !this.authManager.hasScope(session, requiredScope)) {
-        res.writeHead(403, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: `Insufficient permissions. Required scope: ${requiredScope}` }));
-        return;
+    const lastEventId = Number(req.headers['last-event-id']);
+    if (Number.isInteger(lastEventId)) {
+      for (const event of state.events) {
+        if (event.id > lastEventId) {
+          stream.send(event.message, event.id);
+        }
       }
+    }
+  }
 
-      // Forward the message to the actual server instance
-      if (this.serverInstance && typeof this.serverInstance.receiveMessage === 'function') {
-        // Process the message using the server instance
-        const response = await this.serverInstance.receiveMessage(message);
-        
-        res.setHeader('Content-Type', 'application/json');
-        res.setHeader('mcp-session-id', sessionId);
-        res.writeHead(200);
-        res.end(JSON.stringify(response));
-      } else {
-        // Fallback: return a generic response
-        if (message.id) {
-          const response = {
-            jsonrpc: '2.0',
-            id: message.id,
-            result: { success: true, message: `Processed ${message.method}` }
-          };
-          
-          res.setHeader('Content-Type', 'application/json');
-          res.setHeader('mcp-session-id', sessionId);
-          res.writeHead(200);
-          res.end(JSON.stringify(response));
-        } else {
-          // For notifications (no id), just return nothing
-          res.writeHead(200);
-          res.end();
+  /**
+   * Terminates a session at the client's request
+   */
+  private async handleDelete(
+    res: ServerResponse,
+    sessionId: string | undefined,
+    keyRecord: KeyRecord
+  ): Promise<void> {
+    if (!sessionId) {
+      this.sendJSON(res, 400, { error: 'Session required for this request' });
+      return;
+    }
+
+    if (!(await this.requireSession(res, sessionId, keyRecord))) {
+      return;
+    }
+
+    await this.endSession(sessionId);
+    res.writeHead(204);
+    res.end();
+  }
+
+  /**
+   * Validates the session, answering 404 so the client knows to re-initialize.
+   * A session can only be used with a key belonging to the user who opened it, and only
+   * with the scopes that key still grants, so a narrower or downscoped key gains nothing.
+   */
+  private async requireSession(
+    res: ServerResponse,
+    sessionId: string,
+    keyRecord: KeyRecord
+  ): Promise<SessionData | null> {
+    const session = await this.authManager.validateSession(sessionId);
+    if (session && session.userId !== keyRecord.userId) {
+      this.sendJSON(res, 403, { error: 'Session belongs to a different user' });
+      return null;
+    }
+    if (!session) {
+      await this.endSession(sessionId);
+      this.sendJSON(res, 404, { error: 'Invalid or expired session' });
+      return null;
+    }
+    return { ...session, scopes: intersectScopes(session.scopes, keyRecord.scopes) };
+  }
+
+  private async endSession(sessionId: string): Promise<void> {
+    this.sessionStreams.get(sessionId)?.stream?.close();
+    this.sessionStreams.delete(sessionId);
+    this.serverInstance.releaseSession(sessionId);
+    await this.authManager.destroySession(sessionId);
+  }
+
+  /**
+   * Ends sessions whose clients went away, so their subscriptions stop polling and their
+   * buffered events are freed
+   */
+  private async sweep(): Promise<void> {
+    for (const sessionId of [...this.sessionStreams.keys()]) {
+      try {
+        if (!(await this.authManager.isActive(sessionId))) {
+          await this.endSession(sessionId);
         }
+      } catch (error) {
+        console.error('Error sweeping session:', error);
       }
-    } catch (error: any) {
-      console.error('Error processing request:', error);
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: error.message || 'Internal server error' }));
     }
   }
 
+  private getSessionStream(sessionId: string): SessionStream {
+    let state = this.sessionStreams.get(sessionId);
+    if (!state) {
+      state = { stream: null, events: [], nextEventId: 1 };
+      this.sessionStreams.set(sessionId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Queues a server-initiated message on the session's standalone stream. Messages are
+   * buffered so they survive a dropped connection until the client resumes.
+   */
+  sendToSession(sessionId: string, message: JSONRPCNotification | JSONRPCRequest): void {
+    const state = this.sessionStreams.get(sessionId);
+    if (!state) {
+      return;
+    }
+
+    const event = { id: state.nextEventId++, message };
+    state.events.push(event);
+    if (state.events.length > MAX_BUFFERED_EVENTS) {
+      state.events.shift();
+    }
+
+    state.stream?.send(event.message, event.id);
+  }
+
+  private parseAccept(req: IncomingMessage): AcceptedTypes {
+    const accept = req.headers.accept || '*/*';
+    const types = accept.split(',').map((part) => part.split(';')[0].trim().toLowerCase());
+    return {
+      json: types.includes('application/json') || types.includes('application/*') || types.includes('*/*'),
+      sse: types.includes('text/event-stream'),
+    };
+  }
+
+  private sendJSON(
+    res: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
   private async readRequestBody(req: IncomingMessage): Promise<string> {
     return new Promise((resolve) => {
       let body = '';
@@ -197,45 +632,12 @@ export class HTTPTransport implements ServerTransport {
     });
   }
 
-  private getRequiredScope(method: string): string | null {
-    // Map MCP methods to required scopes based on the specification
-    const scopeMap: { [key: string]: string } = {
-      'tools/list_agents': 'read',
-      'tools/create_agent': 'write',
-      'tools/start_agent': 'execute',
-      'tools/stop_agent': 'execute',
-      'tools/edit_agent_config': 'write',
-      'tools/remove_agent': 'write',
-      'tools/send_message': 'write',
-      'tools/send_terminal': 'terminal',
-      'tools/agent_status': 'read',
-      'tools/account_register': 'read',
-      'tools/pay_upgrade': 'read',
-      // Direct method names (without tools/ prefix)
-      'list_agents': 'read',
-      'create_agent': 'write',
-      'start_agent': 'execute',
-      'stop_agent': 'execute',
-      'edit_agent_config': 'write',
-      'remove_agent': 'write',
-      'send_message': 'write',
-      'send_terminal': 'terminal',
-      'agent_status': 'read',
-      'account_register': 'read',
-      'pay_upgrade': 'read',
-    };
-
-    return scopeMap[method] || null;
-  }
-
-  async sendMessage(message: Message): Promise<void> {
-    // In a real implementation, this would send a message back to the client
-    // For HTTP transport, this is typically not used since communication is request-response
-    console.log('Sending message:', message);
-  }
-
-  setOnMessage(handler: (message: Message) => void): void {
-    // For HTTP transport, message handling is done in the request handler
-    // This is more relevant for persistent connection transports
+  /**
+   * Broadcasts a server-initiated message to every open session
+   */
+  async sendMessage(message: JSONRPCNotification | JSONRPCRequest): Promise<void> {
+    for (const sessionId of this.sessionStreams.keys()) {
+      this.sendToSession(sessionId, message);
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import { ServerResponse } from 'http';
+
+// Comment lines keep idle connections from being dropped by proxies
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+/**
+ * A single Server-Sent Events stream written to an HTTP response
+ */
+export class SSEStream {
+  private keepAlive: NodeJS.Timeout;
+  private closeHandlers: Array<() => void> = [];
+  private isClosed = false;
+
+  constructor(private res: ServerResponse, headers: Record<string, string> = {}) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      ...headers,
+    });
+    res.flushHeaders();
+
+    this.keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+    this.keepAlive.unref();
+
+    res.on('close', () => this.handleClose());
+  }
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Writes a JSON-RPC message as a `message` event, optionally tagged with an event ID
+   * that the client can send back in `Last-Event-ID` to resume
+   */
+  send(message: unknown, id?: string | number): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    let event = '';
+    if (id !== undefined) {
+      event += `id: ${id}\n`;
+    }
+    event += `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+    this.res.write(event);
+  }
+
+  onClose(handler: () => void): void {
+    this.closeHandlers.push(handler);
+  }
+
+  close(): void {
+    if (this.isClosed) {
+      return;
+    }
+    this.res.end();
+    this.handleClose();
+  }
+
+  private handleClose(): void {
+    if (this.isClosed) {
+      return;
+    }
+    this.isClosed = true;
+    clearInterval(this.keepAlive);
+    for (const handler of this.closeHandlers) {
+      handler();
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AgentConfigEditor, ConfigSchemas } from '../src/agent-config';
+import { ToolError } from '../src/errors';
+import { applyJsonPatch, applyMergePatch, diffJson } from '../src/json-patch';
+
+describe('JSON patches', () => {
+  it('applies JSON Merge Patch', () => {
+    expect(applyMergePatch({ a: 1, llm: { model: 'x', top_p: 1 } }, { a: null, llm: { model: 'y' } })).toEqual({
+      llm: { model: 'y', top_p: 1 },
+    });
+  });
+
+  it('applies JSON Patch without touching the input, all or nothing', () => {
+    const doc = { plugins: ['web'], llm: { model: 'x' } };
+
+    expect(
+      applyJsonPatch(doc, [
+        { op: 'add', path: '/plugins/-', value: 'git' },
+        { op: 'move', from: '/llm/model', path: '/model' },
+        { op: 'test', path: '/model', value: 'x' },
+      ])
+    ).toEqual({ plugins: ['web', 'git'], llm: {}, model: 'x' });
+    expect(doc).toEqual({ plugins: ['web'], llm: { model: 'x' } });
+
+    expect(() => applyJsonPatch(doc, [{ op: 'remove', path: '/missing' }])).toThrow(
+      expect.objectContaining({ name: 'ToolError', message: expect.stringContaining('operation 0 (remove)') })
+    );
+  });
+
+  it('refuses JSON Patch paths that reach a prototype', () => {
+    for (const path of ['/__proto__/model', '/constructor/prototype/model']) {
+      expect(() => applyJsonPatch({ llm: {} }, [{ op: 'add', path, value: 'x' }])).toThrow(/Key not allowed/);
+    }
+    expect(() => applyJsonPatch({}, [{ op: 'add', path: '/toString/x', value: 1 }])).toThrow(/Path does not exist/);
+    expect(({} as any).model).toBeUndefined();
+  });
+
+  it('refuses merge patch keys that reach a prototype', () => {
+    expect(() => applyMergePatch({}, JSON.parse('{"__proto__": {"model": "x"}}'))).toThrow(/Key not allowed: __proto__/);
+    expect(() => applyMergePatch({}, { llm: { constructor: { prototype: { model: 'x' } } } })).toThrow(/Key not allowed/);
+    expect(({} as any).model).toBeUndefined();
+  });
+
+  it('diffs nested objects by JSON Pointer', () => {
+    expect(diffJson({ a: 1, 'x/y': { b: 2 }, gone: true }, { a: 1, 'x/y': { b: 3 }, added: [] })).toEqual([
+      { op: 'replace', path: '/x~1y/b', from: 2, to: 3 },
+      { op: 'remove', path: '/gone', from: true },
+      { op: 'add', path: '/added', to: [] },
+    ]);
+  });
+});
+
+describe('ConfigSchemas', () => {
+  const schemas = new ConfigSchemas({
+    frameworks: {
+      eliza: {
+        fields: {
+          model: { type: 'string', required: true },
+          temperature: { type: 'number', min: 0, max: 2 },
+          style: { type: 'string', enum: ['terse', 'chatty'] },
+        },
+      },
+    },
+  });
+
+  it('reports type errors, enum misses and misspelt keys', () => {
+    expect(schemas.validate('eliza', { model: 'gpt-4o', temperature: 3, style: 'loud', temprature: 1 })).toEqual([
+      { path: '/temperature', message: expect.stringContaining('less than or equal to 2') },
+      { path: '/style', message: 'Expected one of "terse", "chatty"' },
+      { path: '', message: 'Unknown key temprature (did you mean temperature?)' },
+    ]);
+  });
+
+  it('lets frameworks without a schema through', () => {
+    expect(schemas.validate('langchain', { anything: true })).toEqual([]);
+  });
+});
+
+describe('AgentConfigEditor', () => {
+  function fakeClient() {
+    const agent = { id: 'a1', framework: 'eliza', config: { model: 'gpt-4o', temperature: 0.2 } as Record<string, any> };
+    return {
+      agent,
+      getAgent: vi.fn(async () => structuredClone(agent)),
+      editAgentConfig: vi.fn(async (_id: string, patch: Record<string, any>) => {
+        for (const [key, value] of Object.entries(patch)) {
+          if (value === null) delete agent.config[key];
+          else agent.config[key] = value;
+        }
+        return agent;
+      }),
+    } as any;
+  }
+
+  it('refuses invalid configs before sending them', async () => {
+    const client = fakeClient();
+    const editor = new AgentConfigEditor(client);
+
+    await expect(editor.edit('a1', { merge_patch: { temperature: 'hot' } })).rejects.toThrow(
+      expect.objectContaining({ name: 'ToolError', message: expect.stringContaining('Invalid eliza config: /temperature:') })
+    );
+    expect(client.editAgentConfig).not.toHaveBeenCalled();
+
+    const preview = await editor.preview('a1', { merge_patch: { temperature: 'hot' } });
+    expect(preview).toMatchObject({ valid: false, changes: [{ op: 'replace', path: '/temperature', from: 0.2, to: 'hot' }] });
+  });
+
+  it('records history and rolls back to the previous config', async () => {
+    const client = fakeClient();
+    const editor = new AgentConfigEditor(client);
+
+    expect(await editor.edit('a1', { json_patch: [{ op: 'remove', path: '/temperature' }] })).toMatchObject({ version: 2 });
+    expect(client.editAgentConfig).toHaveBeenLastCalledWith('a1', { temperature: null });
+    expect(editor.versions('a1').map((entry) => entry.source)).toEqual(['edit', 'observed']);
+
+    const result = await editor.rollback('a1');
+    expect(result).toMatchObject({ restored_version: 1, version: 3 });
+    expect(client.agent.config).toEqual({ model: 'gpt-4o', temperature: 0.2 });
+
+    await expect(editor.rollback('a1', 99)).rejects.toThrow('Version 99 is not recorded');
+  });
+
+  it('requires exactly one form of update', async () => {
+    const editor = new AgentConfigEditor(fakeClient());
+
+    await expect(editor.edit('a1', {})).rejects.toBeInstanceOf(ToolError);
+    await expect(editor.edit('a1', { config: {}, merge_patch: {} })).rejects.toBeInstanceOf(ToolError);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { agentQueryShape, queryAgents } from '../src/agent-query';
+
+const query = (args: Record<string, unknown>) => z.object(agentQueryShape).parse(args);
+
+const agents = [
+  { id: 'a1', name: 'Support Bot', framework: 'eliza', status: 'running', project_id: 'p1', created_at: '2026-01-05T00:00:00Z', updated_at: '2026-03-01T00:00:00Z' },
+  { id: 'a2', name: 'support-helper', framework: 'eliza', status: 'stopped', project_id: 'p1', created_at: '2026-02-10T00:00:00Z', updated_at: '2026-02-10T00:00:00Z' },
+  { id: 'a3', name: 'trader', framework: 'langchain', status: 'running', project_id: 'p2', created_at: '2026-03-15T00:00:00Z', updated_at: '2026-03-20T00:00:00Z' },
+  { id: 'a4', name: 'archivist', framework: 'eliza', status: 'running', project_id: 'p2', created_at: '2025-12-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z', config: { model: 'gpt-4o' } },
+];
+
+describe('queryAgents', () => {
+  it('filters by fields, name search and date ranges', () => {
+    expect(queryAgents(agents, query({ search: 'SUPPORT' })).agents.map((agent) => agent.id)).toEqual(['a1', 'a2']);
+    expect(queryAgents(agents, query({ framework: 'eliza', status: 'running' })).total).toBe(2);
+    expect(
+      queryAgents(agents, query({ created_after: '2026-01-01T00:00:00Z', created_before: '2026-03-01T00:00:00Z' })).agents.map((agent) => agent.id)
+    ).toEqual(['a1', 'a2']);
+  });
+
+  it('sorts and projects fields, always keeping the ID', () => {
+    const page = queryAgents(agents, query({ sort: 'updated_at', order: 'desc', fields: ['status'] }));
+
+    expect(page.agents).toEqual([
+      { id: 'a3', status: 'running' },
+      { id: 'a1', status: 'running' },
+      { id: 'a2', status: 'stopped' },
+      { id: 'a4', status: 'running' },
+    ]);
+  });
+
+  it('pages with a cursor until nextCursor is absent', () => {
+    const first = queryAgents(agents, query({ limit: 3 }));
+    expect(first.agents.map((agent) => agent.name)).toEqual(['archivist', 'Support Bot', 'support-helper']);
+    expect(first.total).toBe(4);
+
+    const second = queryAgents(agents, query({ limit: 3, cursor: first.nextCursor }));
+    expect(second.agents.map((agent) => agent.name)).toEqual(['trader']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('rejects cursors from a different query', () => {
+    const { nextCursor } = queryAgents(agents, query({ limit: 1 }));
+
+    expect(() => queryAgents(agents, query({ limit: 1, status: 'running', cursor: nextCursor }))).toThrow(
+      expect.objectContaining({ code: -32602 })
+    );
+    expect(() => queryAgents(agents, query({ cursor: 'not-a-cursor' }))).toThrow('Invalid cursor');
+  });
+});
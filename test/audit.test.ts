@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditEvent, AuditLog, JsonlFileSink, noteBackendRequestId, trackBackendRequests } from '../src/audit';
+import { Redactor } from '../src/redaction';
+
+function event(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    sessionId: 's1',
+    userId: 'ops',
+    requestId: 1,
+    method: 'tools/call',
+    tool: 'edit_agent_config',
+    arguments: {},
+    outcome: 'success',
+    latencyMs: 12,
+    backendRequestIds: [],
+    ...overrides,
+  };
+}
+
+describe('Redactor', () => {
+  it('redacts secret-looking keys in nested config objects', () => {
+    const redactor = new Redactor();
+
+    expect(redactor.redact({
+      agent_id: 'a1',
+      config: { model: 'gpt', max_tokens: 512, OPENAI_API_KEY: 'sk-123', auth: { clientSecret: 'x' } },
+    })).toEqual({
+      agent_id: 'a1',
+      config: { model: 'gpt', max_tokens: 512, OPENAI_API_KEY: '[REDACTED]', auth: '[REDACTED]' },
+    });
+  });
+
+  it('masks secrets inside terminal commands', () => {
+    const redactor = new Redactor();
+
+    expect(redactor.redact('DB_PASSWORD=hunter2 psql --password=hunter2 postgres://app:hunter2@db/app'))
+      .toBe('DB_PASSWORD=[REDACTED] psql --password=[REDACTED] postgres://app:[REDACTED]@db/app');
+    expect(redactor.redact('curl -H "Authorization: Bearer abc.def" https://x')).toBe(
+      'curl -H "Authorization: Bearer [REDACTED]" https://x'
+    );
+  });
+
+  it('applies configured rules', () => {
+    const redactor = new Redactor({
+      includeDefaults: false,
+      keys: ['webhook_url'],
+      patterns: [{ regex: 'acct-\\d+', replacement: 'acct-***' }],
+    });
+
+    expect(redactor.redact({ webhookUrl: 'https://hooks', note: 'bill acct-42', token: 't' })).toEqual({
+      webhookUrl: '[REDACTED]',
+      note: 'bill acct-***',
+      token: 't',
+    });
+  });
+});
+
+describe('JsonlFileSink', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rotates the file once it reaches the size limit', () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    const file = join(dir, 'audit.jsonl');
+    const sink = new JsonlFileSink(file, { maxBytes: 400, maxFiles: 2 });
+
+    for (let i = 0; i < 12; i++) {
+      sink.write(event({ requestId: i }));
+    }
+
+    expect(readdirSync(dir).sort()).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines[lines.length - 1].requestId).toBe(11);
+  });
+});
+
+describe('AuditLog', () => {
+  it('redacts arguments before they reach the sinks', () => {
+    const sink = { write: vi.fn() };
+    const audit = new AuditLog({ sinks: [sink] });
+
+    audit.record(event({ tool: 'send_terminal', arguments: { agent_id: 'a1', command: 'export API_TOKEN=abc' } }));
+
+    expect(sink.write.mock.calls[0][0].arguments).toEqual({ agent_id: 'a1', command: 'export API_TOKEN=[REDACTED]' });
+  });
+
+  it('collects backend request IDs within a tracked call', async () => {
+    const ids: string[] = [];
+
+    await trackBackendRequests(ids, async () => {
+      noteBackendRequestId('req-1');
+      await Promise.resolve();
+      noteBackendRequestId('req-2');
+    });
+    noteBackendRequestId('req-3');
+
+    expect(ids).toEqual(['req-1', 'req-2']);
+  });
+});
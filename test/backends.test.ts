@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fetch from 'node-fetch';
+import { BackendPool, BackendRouter, tenantConfigSchema } from '../src/backends';
+import { BlueprintsMCPServer } from '../src/index';
+
+vi.mock('node-fetch', () => ({ default: vi.fn() }));
+
+const fetchMock = vi.mocked(fetch);
+const server = { baseUrl: 'https://api.example.com', apiKey: 'bp_sk_server' };
+
+function session(userId: string) {
+  const now = new Date();
+  return { id: `s-${userId}`, userId, scopes: ['admin'], createdAt: now, lastActivity: now, expiresAt: new Date(now.getTime() + 60_000) };
+}
+
+describe('BackendRouter', () => {
+  it('routes users to their tenant, using the tenant key in server mode', () => {
+    const router = new BackendRouter(server, {
+      tenants: { eu: { baseUrl: 'https://eu.example.com', apiKeyEnv: 'EU_KEY' } },
+      users: { alice: { tenant: 'eu' } },
+    }, { EU_KEY: 'bp_sk_eu' });
+
+    expect(router.resolve(null)).toBe(server);
+    expect(router.resolve({ userId: 'alice' })).toEqual({ baseUrl: 'https://eu.example.com', apiKey: 'bp_sk_eu', tenant: 'eu', owner: 'tenant:eu' });
+    expect(router.resolve({ userId: 'bob' })).toEqual({ baseUrl: server.baseUrl, apiKey: server.apiKey, tenant: undefined, owner: undefined });
+  });
+
+  it('forwards API keys, falling back to mapped keys for OAuth users', () => {
+    const router = new BackendRouter(server, { credentials: 'forward', users: { carol: { apiKey: 'bp_sk_carol' } } });
+
+    expect(router.resolve({ userId: 'alice', credential: 'bp_sk_alice' })).toMatchObject({ apiKey: 'bp_sk_alice', owner: 'user:alice' });
+    expect(router.resolve({ userId: 'carol', credential: 'eyJhbGciOi' }).apiKey).toBe('bp_sk_carol');
+    expect(() => router.resolve({ userId: 'dave', credential: 'eyJhbGciOi' })).toThrow('No Blueprints API credentials for user dave');
+  });
+
+  it('refuses users without mapped credentials and rejects unknown tenants', () => {
+    const router = new BackendRouter(server, { credentials: 'mapped', users: { alice: { apiKey: 'bp_sk_alice' } } });
+
+    expect(router.resolve({ userId: 'alice', credential: 'bp_sk_other' }).apiKey).toBe('bp_sk_alice');
+    expect(() => router.resolve({ userId: 'bob', credential: 'bp_sk_bob' })).toThrow('No Blueprints API credentials');
+    expect(tenantConfigSchema.safeParse({ users: { alice: { tenant: 'mars' } } }).success).toBe(false);
+  });
+});
+
+describe('BackendPool', () => {
+  it('reuses entries per identity and only evicts idle ones', () => {
+    const disposed: string[] = [];
+    const pool = new BackendPool(
+      (credentials) => ({ key: credentials.apiKey, busy: credentials.apiKey === 'bp_sk_a' }),
+      { isIdle: (entry) => !entry.busy, dispose: (entry) => disposed.push(entry.key) },
+      2
+    );
+
+    const a = pool.get({ baseUrl: server.baseUrl, apiKey: 'bp_sk_a' });
+    pool.get({ baseUrl: server.baseUrl, apiKey: 'bp_sk_b' });
+    expect(pool.get({ baseUrl: server.baseUrl, apiKey: 'bp_sk_a' })).toBe(a);
+    pool.get({ baseUrl: server.baseUrl, apiKey: 'bp_sk_c' });
+
+    expect(disposed).toEqual(['bp_sk_b']);
+    expect(pool.values().map((entry) => entry.key)).toEqual(['bp_sk_a', 'bp_sk_c']);
+  });
+});
+
+describe('BlueprintsMCPServer with forwarded credentials', () => {
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('calls the backend with each session\'s own key', async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ status: 'running' }), { status: 200 }) as any);
+    const mcp = new BlueprintsMCPServer({ ...server, tenants: { credentials: 'forward' } });
+    const call = { jsonrpc: '2.0' as const, id: 1, method: 'tools/call', params: { name: 'agent_status', arguments: { agent_id: 'a1' } } };
+
+    try {
+      await mcp.receiveMessage(call, { sessionId: 's-alice', session: session('alice'), credential: 'bp_sk_alice' });
+      await mcp.receiveMessage(call, { sessionId: 's-bob', session: session('bob'), credential: 'bp_sk_bob' });
+    } finally {
+      await mcp.close();
+    }
+
+    const keys = fetchMock.mock.calls.map(([, init]) => (init!.headers as Record<string, string>).Authorization);
+    expect(keys).toEqual(['Bearer bp_sk_alice', 'Bearer bp_sk_bob']);
+  });
+
+  it('keeps removed agents with the user when their key is rotated', async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ success: true, message: 'Removed' }), { status: 200 }) as any);
+    const mcp = new BlueprintsMCPServer({ ...server, tenants: { credentials: 'forward' } });
+    const backendFor = (userId: string, credential: string) => (mcp as any).backendFor({ session: session(userId), credential });
+
+    try {
+      await backendFor('alice', 'bp_sk_alice_old').removals.remove({ id: 'a1', name: 'Scout', framework: 'eliza', status: 'stopped' });
+
+      expect(backendFor('alice', 'bp_sk_alice_new').removals.list().removed_agents).toMatchObject([{ agent_id: 'a1' }]);
+      expect(backendFor('bob', 'bp_sk_bob').removals.list().removed_agents).toEqual([]);
+    } finally {
+      await mcp.close();
+    }
+  });
+});
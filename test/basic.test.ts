@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { BlueprintsMCPServer } from './src/index';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { BlueprintsMCPServer } from '../src/index';
+import { BlueprintsAPIClient } from '../src/blueprints-api';
+import { NotFoundError } from '../src/errors';
 
 describe('BlueprintsMCPServer', () => {
   let server: BlueprintsMCPServer;
@@ -20,4 +24,452 @@ describe('BlueprintsMCPServer', () => {
   });
 
   // Add more tests as needed
-});
\ No newline at end of file
+});
+
+describe('BlueprintsMCPServer.receiveMessage', () => {
+  let server: BlueprintsMCPServer;
+
+  beforeEach(() => {
+    server = new BlueprintsMCPServer({
+      baseUrl: 'https://api.example.com',
+      apiKey: 'bp_sk_test_key'
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  it('negotiates the protocol version on initialize', async () => {
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {} }
+    });
+
+    expect(response?.result.protocolVersion).toBe('2024-11-05');
+    expect(response?.result.capabilities.tools).toBeDefined();
+    expect(response?.result.capabilities.prompts).toBeDefined();
+  });
+
+  it('completes prompt arguments from the agent list', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'listAgents').mockResolvedValue([
+      { id: 'agent-1', name: 'Builder', framework: 'eliza', status: 'running', created_at: '', updated_at: '' },
+    ]);
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'completion/complete',
+      params: { ref: { type: 'ref/prompt', name: 'diagnose_agent' }, argument: { name: 'agent_id', value: 'bui' } }
+    });
+
+    expect(response?.result.completion.values).toEqual(['agent-1']);
+  });
+
+  it('lists registered tools with JSON schemas', async () => {
+    const response = await server.receiveMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const tool = response?.result.tools.find((t: any) => t.name === 'send_terminal');
+
+    expect(tool.inputSchema.type).toBe('object');
+    expect(tool.inputSchema.required).toEqual(['agent_id', 'command']);
+  });
+
+  it('asks for confirmation before removing an agent and can restore it', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'getAgent').mockResolvedValue({
+      id: 'agent-1', name: 'Builder', framework: 'eliza', status: 'running', config: { model: 'x' }, created_at: '', updated_at: ''
+    });
+    const removeAgent = vi.spyOn(BlueprintsAPIClient.prototype, 'removeAgent').mockResolvedValue({ success: true, message: 'Removed' });
+    vi.spyOn(BlueprintsAPIClient.prototype, 'createAgent').mockResolvedValue({
+      id: 'agent-2', name: 'Builder', framework: 'eliza', status: 'stopped', created_at: '', updated_at: ''
+    });
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const response = await server.receiveMessage({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name, arguments: args } });
+      return response?.result.structuredContent;
+    };
+
+    const listed = await server.receiveMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(listed?.result.tools.find((t: any) => t.name === 'remove_agent').annotations).toMatchObject({ destructiveHint: true });
+
+    const pending = await callTool('remove_agent', { agent_id: 'agent-1' });
+    expect(pending).toMatchObject({ confirmation_required: true, action: expect.stringContaining('"Builder"') });
+    expect(removeAgent).not.toHaveBeenCalled();
+
+    expect(await callTool('remove_agent', { agent_id: 'agent-1', confirmation_token: pending.confirmation_token })).toMatchObject({
+      agent_id: 'agent-1',
+      removed: true
+    });
+    expect(await callTool('restore_agent', { agent_id: 'agent-1' })).toMatchObject({ restored_from: 'agent-1', agent: { id: 'agent-2' } });
+  });
+
+  it('asks for confirmation before stopping a fleet or applying a blueprint that removes agents', async () => {
+    const agent = { id: 'agent-1', name: 'Builder', framework: 'eliza', status: 'running', project_id: 'p1', created_at: '', updated_at: '' };
+    vi.spyOn(BlueprintsAPIClient.prototype, 'listAgents').mockResolvedValue([agent]);
+    vi.spyOn(BlueprintsAPIClient.prototype, 'getAgent').mockResolvedValue(agent);
+    const stopAgent = vi.spyOn(BlueprintsAPIClient.prototype, 'stopAgent').mockResolvedValue({ success: true, message: 'Stopping' });
+    const removeAgent = vi.spyOn(BlueprintsAPIClient.prototype, 'removeAgent').mockResolvedValue({ success: true, message: 'Removed' });
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const response = await server.receiveMessage({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name, arguments: args } });
+      return response?.result.structuredContent;
+    };
+
+    const listed = await server.receiveMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    for (const name of ['stop_agents', 'restart_agents', 'blueprint_apply']) {
+      expect(listed?.result.tools.find((t: any) => t.name === name).annotations).toMatchObject({ destructiveHint: true });
+    }
+
+    expect(await callTool('stop_agents', { agent_ids: ['agent-1'] })).toMatchObject({ confirmation_required: true });
+    expect(await callTool('stop_agents', { agent_ids: ['agent-1'], dry_run: true })).toMatchObject({ dry_run: true, matched: 1 });
+    expect(stopAgent).not.toHaveBeenCalled();
+
+    const blueprint = 'version: 1\nproject_id: p1\nprune: true\nagents: []';
+    const pending = await callTool('blueprint_apply', { blueprint });
+    expect(pending).toMatchObject({ confirmation_required: true, action: expect.stringContaining('removes agent "Builder"') });
+    expect(removeAgent).not.toHaveBeenCalled();
+
+    expect(await callTool('blueprint_apply', { blueprint, confirmation_token: pending.confirmation_token })).toMatchObject({ succeeded: 1 });
+    expect(removeAgent).toHaveBeenCalledWith('agent-1');
+    expect(await callTool('list_removed_agents', {})).toMatchObject({ removed_agents: [{ agent_id: 'agent-1' }] });
+  });
+
+  it('calls the tool handler with validated arguments', async () => {
+    const startAgent = vi
+      .spyOn(BlueprintsAPIClient.prototype, 'startAgent')
+      .mockResolvedValue({ success: true, message: 'started' });
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'start_agent', arguments: { agent_id: 'agent-1' } }
+    });
+
+    expect(startAgent).toHaveBeenCalledWith('agent-1');
+    expect(response?.result.structuredContent).toEqual({ success: true, message: 'started' });
+  });
+
+  it('declares output schemas and returns structured content with agent links', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'agentStatus').mockResolvedValue({
+      id: 'agent-1', status: 'running', health: 'healthy', stats: { uptime: 42 }
+    });
+
+    const listed = await server.receiveMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const tools = listed?.result.tools;
+    expect(tools.every((t: any) => t.outputSchema?.type === 'object')).toBe(true);
+    expect(tools.find((t: any) => t.name === 'agent_status').outputSchema.required).toEqual(['id', 'status', 'health', 'stats']);
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'agent_status', arguments: { agent_id: 'agent-1' } }
+    });
+
+    expect(response?.result.structuredContent).toMatchObject({ id: 'agent-1', health: 'healthy' });
+    expect(response?.result.content).toEqual([
+      { type: 'text', text: 'Agent agent-1 is running, healthy.\n- uptime: 42' },
+      { type: 'resource_link', uri: 'blueprints://agents/agent-1', name: 'agent-1', mimeType: 'application/json' }
+    ]);
+  });
+
+  it('rejects invalid arguments with -32602', async () => {
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'tools/call',
+      params: { name: 'start_agent', arguments: {} }
+    });
+
+    expect(response?.error?.code).toBe(-32602);
+  });
+
+  it('returns -32601 for unknown methods', async () => {
+    const response = await server.receiveMessage({ jsonrpc: '2.0', id: 5, method: 'nope' });
+
+    expect(response?.error?.code).toBe(-32601);
+  });
+
+  it('counts unknown methods and tools under one metrics label', async () => {
+    await server.receiveMessage({ jsonrpc: '2.0', id: 5, method: 'nope-1' });
+    await server.receiveMessage({ jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'nope-2' } });
+
+    const text = await (server as any).metrics.registry.render();
+    expect(text).toContain('mcp_requests_total{method="unknown",tool="",outcome="error"} 1');
+    expect(text).toContain('mcp_requests_total{method="tools/call",tool="unknown",outcome="error"} 1');
+    expect(text).not.toContain('nope');
+  });
+
+  it('returns -32603 when the handler fails', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'listAgents').mockRejectedValue(new Error('boom'));
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 6,
+      method: 'tools/call',
+      params: { name: 'list_agents', arguments: {} }
+    });
+
+    expect(response?.error).toMatchObject({ code: -32603, data: 'boom' });
+  });
+
+  it('reports backend failures as tool errors', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'agentStatus').mockRejectedValue(
+      new NotFoundError('GET /agents/missing/status failed with HTTP 404: Not Found', { requestId: 'req-1' })
+    );
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: { name: 'agent_status', arguments: { agent_id: 'missing' } }
+    });
+
+    expect(response?.result.isError).toBe(true);
+    expect(response?.result.content[0].text).toContain('request ID: req-1');
+  });
+
+  it('reports invalid config edits as tool errors', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'getAgent').mockResolvedValue({
+      id: 'agent-1', name: 'Scout', framework: 'eliza', status: 'running', config: { temperature: 0.2 }
+    });
+    const editAgentConfig = vi.spyOn(BlueprintsAPIClient.prototype, 'editAgentConfig');
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: { name: 'edit_agent_config', arguments: { agent_id: 'agent-1', merge_patch: { temperature: 'hot' } } }
+    });
+
+    expect(response?.result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('Invalid eliza config') }] });
+    expect(editAgentConfig).not.toHaveBeenCalled();
+  });
+
+  it('reports a fleet call without a target as a tool error', async () => {
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: { name: 'start_agents', arguments: {} }
+    });
+
+    expect(response?.result).toMatchObject({ isError: true, content: [{ text: 'Give exactly one of agent_ids or selector' }] });
+  });
+
+  it('reports an invalid blueprint as a tool error', async () => {
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: { name: 'blueprint_plan', arguments: { blueprint: 'agents: [' } }
+    });
+
+    expect(response?.result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('Blueprint is not valid YAML') }] });
+  });
+
+  it('only lists tools the session is scoped for', async () => {
+    const session = {
+      id: 'session-1',
+      userId: 'ci',
+      createdAt: new Date(),
+      lastActivity: new Date(),
+      scopes: ['read'],
+      expiresAt: new Date(Date.now() + 60_000)
+    };
+
+    const response = await server.receiveMessage({ jsonrpc: '2.0', id: 7, method: 'tools/list' }, { session });
+    const names = response?.result.tools.map((t: any) => t.name);
+
+    expect(names).toContain('list_agents');
+    expect(names).not.toContain('send_terminal');
+    expect(names).not.toContain('pay_upgrade');
+  });
+
+  it('refuses tools/call when the session lacks the tool scope', async () => {
+    const sendTerminal = vi.spyOn(BlueprintsAPIClient.prototype, 'sendTerminal');
+    const session = {
+      id: 'session-2',
+      userId: 'ci',
+      createdAt: new Date(),
+      lastActivity: new Date(),
+      scopes: ['read'],
+      expiresAt: new Date(Date.now() + 60_000)
+    };
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 8,
+      method: 'tools/call',
+      params: { name: 'send_terminal', arguments: { agent_id: 'agent-1', command: 'ls' } }
+    }, { session });
+
+    expect(response?.error).toMatchObject({ code: -32001, data: { requiredScope: 'terminal' } });
+    expect(sendTerminal).not.toHaveBeenCalled();
+  });
+
+  it('refuses resources/unsubscribe without the read scope', async () => {
+    const now = new Date();
+    const session = { id: 'session-3', userId: 'ci', createdAt: now, lastActivity: now, scopes: [], expiresAt: new Date(now.getTime() + 60_000) };
+
+    const response = await server.receiveMessage({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'resources/unsubscribe',
+      params: { uri: 'blueprints://agents/agent-1/status' }
+    }, { session });
+
+    expect(response?.error).toMatchObject({ code: -32001, data: { requiredScope: 'read' } });
+  });
+
+  it('checks terminal input a whole command at a time', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'openTerminal').mockResolvedValue({ session_id: 'term-1' });
+    const writeTerminal = vi.spyOn(BlueprintsAPIClient.prototype, 'writeTerminal').mockResolvedValue({ success: true });
+    const callTool = (name: string, args: Record<string, unknown>) =>
+      server.receiveMessage({ jsonrpc: '2.0', id: 9, method: 'tools/call', params: { name, arguments: args } });
+
+    await callTool('terminal_open', { agent_id: 'agent-1' });
+    expect((await callTool('terminal_write', { terminal_id: 'term-1', input: 'rm -rf ' }))?.result.structuredContent).toEqual({
+      success: true,
+      pending: true
+    });
+    const refused = await callTool('terminal_write', { terminal_id: 'term-1', input: '/\n' });
+    expect(refused?.result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('blocked by policy') }] });
+    expect(writeTerminal).not.toHaveBeenCalled();
+
+    await callTool('terminal_write', { terminal_id: 'term-1', input: 'rm -rf \\\n' });
+    const continued = await callTool('terminal_write', { terminal_id: 'term-1', input: '/\n' });
+    expect(continued?.result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('blocked by policy') }] });
+    expect(writeTerminal).not.toHaveBeenCalled();
+
+    await callTool('terminal_write', { terminal_id: 'term-1', input: 'ls' });
+    await callTool('terminal_write', { terminal_id: 'term-1', input: ' -la\n' });
+    expect(writeTerminal).toHaveBeenCalledWith('agent-1', 'term-1', 'ls -la\n');
+  });
+
+  it('asks the user to approve flagged terminal commands', async () => {
+    const decisionLog = { record: vi.fn() };
+    const approvalServer = new BlueprintsMCPServer({
+      baseUrl: 'https://api.example.com',
+      apiKey: 'bp_sk_test_key',
+      commandPolicy: { policy: { rules: [{ action: 'approve', glob: 'git push*' }] }, decisionLog }
+    });
+    vi.spyOn(BlueprintsAPIClient.prototype, 'openTerminal').mockResolvedValue({ session_id: 'term-1' });
+    vi.spyOn(BlueprintsAPIClient.prototype, 'readTerminal').mockResolvedValue({
+      chunks: [{ stream: 'stdout', data: 'pushed\n' }],
+      cursor: 1,
+      exited: true,
+      exit_code: 0
+    });
+    vi.spyOn(BlueprintsAPIClient.prototype, 'closeTerminal').mockResolvedValue({ success: true });
+
+    await approvalServer.receiveMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: { elicitation: {} } }
+    }, { sessionId: 's1' });
+
+    const sendRequest = vi.fn();
+    const call = approvalServer.receiveMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'send_terminal', arguments: { agent_id: 'agent-1', command: 'git push origin main' } }
+    }, { sessionId: 's1', sendRequest });
+
+    await vi.waitFor(() => expect(sendRequest).toHaveBeenCalled());
+    const elicitation = sendRequest.mock.calls[0][0];
+    expect(elicitation.method).toBe('elicitation/create');
+
+    await approvalServer.receiveMessage(
+      { jsonrpc: '2.0', id: elicitation.id, result: { action: 'accept', content: { approve: true } } },
+      { sessionId: 's1' }
+    );
+
+    const response = await call;
+    expect(response?.result.structuredContent).toMatchObject({ output: 'pushed\n', exit_code: 0 });
+    expect(decisionLog.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'approve', approval: 'accept', allowed: true })
+    );
+    await approvalServer.close();
+  });
+
+  it('records an audit event for each request', async () => {
+    const sink = { write: vi.fn() };
+    const auditedServer = new BlueprintsMCPServer({
+      baseUrl: 'https://api.example.com',
+      apiKey: 'bp_sk_test_key',
+      audit: { sinks: [sink] }
+    });
+    vi.spyOn(BlueprintsAPIClient.prototype, 'getAgent').mockResolvedValue({ id: 'a1', framework: 'eliza', config: {} } as any);
+    vi.spyOn(BlueprintsAPIClient.prototype, 'editAgentConfig').mockRejectedValue(
+      new NotFoundError('PUT /agents/a1/config failed with HTTP 404: Not Found', { requestId: 'req-9' })
+    );
+
+    await auditedServer.receiveMessage({
+      jsonrpc: '2.0',
+      id: 10,
+      method: 'tools/call',
+      params: { name: 'edit_agent_config', arguments: { agent_id: 'a1', config: { api_key: 'sk-live' } } }
+    }, { sessionId: 's1' });
+
+    expect(sink.write).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 's1',
+      requestId: 10,
+      tool: 'edit_agent_config',
+      arguments: { agent_id: 'a1', config: { api_key: '[REDACTED]' } },
+      outcome: 'tool_error'
+    }));
+    await auditedServer.close();
+  });
+
+  it('refuses tool calls over the tool rate limit with -32003', async () => {
+    const limitedServer = new BlueprintsMCPServer({
+      baseUrl: 'https://api.example.com',
+      apiKey: 'bp_sk_test_key',
+      rateLimit: { limits: { tools: { create_agent: { capacity: 1, refillPerSecond: 0.01 } } } }
+    });
+    const createAgent = vi.spyOn(BlueprintsAPIClient.prototype, 'createAgent').mockResolvedValue({ id: 'a1' } as any);
+    const call = (id: number) => limitedServer.receiveMessage({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'create_agent', arguments: { name: 'bot', framework: 'eliza' } }
+    });
+
+    expect((await call(1))?.error).toBeUndefined();
+    expect((await call(2))?.error).toMatchObject({ code: -32003, data: { scope: 'tool', tool: 'create_agent' } });
+    expect(createAgent).toHaveBeenCalledTimes(1);
+    await limitedServer.close();
+  });
+
+  it('returns null for notifications', async () => {
+    const response = await server.receiveMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    expect(response).toBeNull();
+  });
+
+  it('drops the stdio response to a cancelled request', async () => {
+    let finishListing: (agents: any[]) => void = () => {};
+    const listAgents = vi.spyOn(BlueprintsAPIClient.prototype, 'listAgents').mockImplementation(
+      () => new Promise((resolve) => (finishListing = resolve))
+    );
+    const stdin = new PassThrough();
+    const stdout = new PassThrough();
+    const written: any[] = [];
+    stdout.on('data', (chunk) => written.push(...chunk.toString().trim().split('\n').map((line: string) => JSON.parse(line))));
+    await server.startStdio(new StdioServerTransport(stdin, stdout));
+    const write = (message: unknown) => stdin.write(`${JSON.stringify(message)}\n`);
+
+    write({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'list_agents', arguments: {} } });
+    await vi.waitFor(() => expect(listAgents).toHaveBeenCalled());
+    write({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } });
+    finishListing([]);
+    write({ jsonrpc: '2.0', id: 2, method: 'ping' });
+
+    await vi.waitFor(() => expect(written).toContainEqual(expect.objectContaining({ id: 2 })));
+    expect(written.map((message) => message.id)).toEqual([2]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BlueprintRunner, parseBlueprint, resolveAgents } from '../src/blueprint';
+import { AgentConfigEditor } from '../src/agent-config';
+import { AgentRemovals, RecycleBin } from '../src/recycle-bin';
+import { ServerError, ToolError } from '../src/errors';
+
+const agents = [
+  { id: 'a1', name: 'support-bot', framework: 'eliza', status: 'running', project_id: 'p1' },
+  { id: 'a2', name: 'trader', framework: 'eliza', status: 'stopped', project_id: 'p1' },
+  { id: 'a3', name: 'legacy', framework: 'eliza', status: 'stopped', project_id: 'p1' },
+  { id: 'a4', name: 'elsewhere', framework: 'eliza', status: 'stopped', project_id: 'p2' },
+];
+
+const configs: Record<string, any> = {
+  a1: { model: 'gpt-4o', temperature: 0.2 },
+  a2: { model: 'gpt-4o', temperature: 0.2 },
+  a3: {},
+};
+
+function fakeClient(overrides: Record<string, any> = {}) {
+  return {
+    listAgents: vi.fn().mockResolvedValue(agents),
+    getAgent: vi.fn(async (id: string) => ({ id, config: configs[id] })),
+    createAgent: vi.fn(async (params: any) => ({ id: `new-${params.name}`, ...params })),
+    editAgentConfig: vi.fn().mockResolvedValue({}),
+    removeAgent: vi.fn().mockResolvedValue({ success: true }),
+    ...overrides,
+  } as any;
+}
+
+function runnerFor(client: any, bin: RecycleBin = new RecycleBin(), configs: AgentConfigEditor = new AgentConfigEditor(client)) {
+  return new BlueprintRunner(client, configs, new AgentRemovals(client, bin, configs));
+}
+
+const blueprint = `
+version: 1
+project_id: p1
+prune: true
+templates:
+  chat:
+    framework: eliza
+    config: { model: gpt-4o, temperature: 0.2 }
+agents:
+  - name: support-bot
+    template: chat
+  - name: trader
+    framework: langchain
+  - name: writer
+    template: chat
+    config: { temperature: 0.9 }
+`;
+
+describe('parseBlueprint', () => {
+  it('applies templates, merging agent config over them', () => {
+    const agents = resolveAgents(parseBlueprint(blueprint));
+
+    expect(agents[2]).toEqual({
+      name: 'writer',
+      framework: 'eliza',
+      project_id: 'p1',
+      config: { model: 'gpt-4o', temperature: 0.9 },
+    });
+  });
+
+  it('rejects invalid blueprints as tool errors', () => {
+    expect(() => parseBlueprint('version: 2\nagents: []')).toThrow(ToolError);
+    expect(() => parseBlueprint('version: 2\nagents: []')).toThrow('Invalid blueprint: version:');
+    expect(() => parseBlueprint('agents: [')).toThrow(ToolError);
+    expect(() => resolveAgents(parseBlueprint('version: 1\nagents: [{ name: x }]'))).toThrow('has no framework');
+  });
+});
+
+describe('BlueprintRunner', () => {
+  it('plans creates, replacements and removals inside the managed project only', async () => {
+    const plan = await runnerFor(fakeClient()).plan(blueprint);
+
+    expect(plan.summary).toEqual({ create: 1, update: 0, replace: 1, remove: 1, unchanged: 1 });
+    expect(plan.actions.map((action) => [action.action, action.name])).toEqual([
+      ['unchanged', 'support-bot'],
+      ['replace', 'trader'],
+      ['create', 'writer'],
+      ['remove', 'legacy'],
+    ]);
+  });
+
+  it('updates changed keys and clears dropped ones', async () => {
+    const client = fakeClient();
+    const configs = new AgentConfigEditor(client);
+    const runner = runnerFor(client, new RecycleBin(), configs);
+    const text = 'version: 1\nproject_id: p1\nagents:\n  - { name: support-bot, framework: eliza, config: { model: gpt-4.1 } }';
+
+    const plan = await runner.plan(text);
+    const result = await runner.apply(text, plan.plan_id, {});
+
+    expect(result).toMatchObject({ succeeded: 1, failed: 0 });
+    expect(client.editAgentConfig).toHaveBeenCalledWith('a1', { model: 'gpt-4.1', temperature: null });
+    // Recorded like any other edit, so rollback_agent_config can undo it
+    expect(configs.versions('a1')[0]).toMatchObject({ source: 'blueprint', config: { model: 'gpt-4.1' } });
+    expect(client.removeAgent).not.toHaveBeenCalled();
+  });
+
+  it('refuses to plan agents whose config does not fit their framework', async () => {
+    const text = 'version: 1\nagents:\n  - { name: writer, framework: eliza, config: { temperature: 5 } }';
+
+    await expect(runnerFor(fakeClient()).plan(text)).rejects.toThrow(
+      expect.objectContaining({ name: 'ToolError', message: expect.stringContaining('Agent writer: Invalid eliza config') })
+    );
+  });
+
+  it('reports per-action failures and refuses a stale plan_id', async () => {
+    const client = fakeClient({ createAgent: vi.fn().mockRejectedValue(new ServerError('POST /agents failed with HTTP 500')) });
+    const bin = new RecycleBin();
+    const runner = runnerFor(client, bin);
+
+    await expect(runner.apply(blueprint, 'stale', {})).rejects.toThrow('The plan has changed since stale was reviewed');
+    expect(client.removeAgent).not.toHaveBeenCalled();
+
+    const result = await runner.apply(blueprint, undefined, {});
+    expect(result.results).toEqual([
+      expect.objectContaining({ action: 'replace', name: 'trader', result: 'failed' }),
+      expect.objectContaining({ action: 'create', name: 'writer', result: 'failed', detail: expect.stringContaining('HTTP 500') }),
+      { action: 'remove', name: 'legacy', agent_id: 'a3', result: 'succeeded' },
+    ]);
+    // Removed and replaced agents go to the recycle bin so they can be restored
+    expect(bin.list('').map((entry) => entry.agent.id).sort()).toEqual(['a2', 'a3']);
+  });
+});
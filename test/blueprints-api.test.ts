@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import fetch from 'node-fetch';
+import { BlueprintsAPIClient } from '../src/blueprints-api';
+import { InvalidResponseError, NotFoundError, RateLimitError, ServerError, TimeoutError } from '../src/errors';
+
+vi.mock('node-fetch', () => ({ default: vi.fn() }));
+
+const fetchMock = vi.mocked(fetch);
+
+const agent = { id: 'a1', name: 'Builder', framework: 'eliza', status: 'stopped', created_at: '', updated_at: '' };
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  }) as any;
+}
+
+describe('BlueprintsAPIClient.makeRequest', () => {
+  let client: BlueprintsAPIClient;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    client = new BlueprintsAPIClient('https://api.example.com/', 'bp_sk_test_key', {
+      retryBaseDelayMs: 1,
+      timeoutMs: 50,
+    });
+  });
+
+  it('raises typed errors carrying the backend code and request ID', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(
+      404,
+      { error: { code: 'agent_not_found', message: 'No agent abc' } },
+      { 'x-request-id': 'req-123' }
+    ));
+
+    const error = await client.agentStatus('abc').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ status: 404, code: 'agent_not_found', requestId: 'req-123' });
+    expect(error.toToolMessage()).toContain('No agent abc');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries idempotent requests on server errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(502, { message: 'bad gateway' }))
+      .mockResolvedValueOnce(jsonResponse(200, [agent]));
+
+    expect(await client.listAgents()).toEqual([agent]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-idempotent requests on server errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(500, { message: 'boom' }));
+
+    await expect(client.startAgent('a1')).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries any request after 429 with Retry-After', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'slow down' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, message: 'started' }));
+
+    expect(await client.startAgent('a1')).toEqual({ success: true, message: 'started' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(429, { message: 'slow down' }, { 'Retry-After': '0' }));
+
+    const error = await client.listAgents().catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('passes message paging options as query parameters', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { messages: [], next_cursor: null }));
+
+    await client.listMessages('a1', { cursor: 'c2', limit: 20 });
+    await client.listMessages('a1');
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.com/agents/a1/messages?cursor=c2&limit=20',
+      'https://api.example.com/agents/a1/messages',
+    ]);
+  });
+
+  it('encodes IDs as single path segments', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { success: true, message: 'ok' }));
+
+    await client.startAgent('../account/upgrade');
+    await client.signalTerminal('a1', 'x?y=', 'SIGINT');
+    await expect(client.stopAgent('..')).rejects.toThrow('Invalid ID: ..');
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.com/agents/..%2Faccount%2Fupgrade/start',
+      'https://api.example.com/agents/a1/terminal/sessions/x%3Fy%3D/signal',
+    ]);
+  });
+
+  it('caches GETs until a call changes the same agent', async () => {
+    fetchMock.mockImplementation(async (_url, init: any) =>
+      init.method === 'GET' ? jsonResponse(200, agent, { ETag: '"v1"' }) : jsonResponse(200, { success: true, message: 'started' })
+    );
+
+    await client.getAgent('a1');
+    await client.getAgent('a1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await client.startAgent('a1');
+    await client.getAgent('a1');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects responses that do not match the expected shape', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { id: 'a1', status: 3 }));
+
+    const error = await client.getAgent('a1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.message).toContain('GET /agents/a1 returned an unexpected response');
+    expect(error.message).toContain('status');
+  });
+
+  it('checks terminal and config edit responses too', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { success: true }));
+
+    await expect(client.openTerminal('a1')).rejects.toThrow('POST /agents/a1/terminal/sessions returned an unexpected response: session_id');
+    await expect(client.sendTerminal('a1', 'ls')).rejects.toBeInstanceOf(InvalidResponseError);
+    await expect(client.editAgentConfig('a1', { model: 'x' })).rejects.toBeInstanceOf(InvalidResponseError);
+    await expect(client.closeTerminal('a1', 't1')).resolves.toEqual({ success: true });
+  });
+
+  it('times out slow requests', async () => {
+    fetchMock.mockImplementation((_url, init: any) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => {
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+
+    await expect(client.startAgent('a1')).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('times out responses whose body stalls', async () => {
+    fetchMock.mockImplementation(async (_url, init: any) => ({
+      status: 200,
+      ok: true,
+      headers: new Headers(),
+      text: () => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => {
+          const error = new Error('aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      }),
+    }) as any);
+
+    await expect(client.startAgent('a1')).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('accepts empty bodies from DELETE endpoints', async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 204 }) as any);
+
+    await expect(client.removeAgent('a1')).resolves.toMatchObject({ success: true });
+    await expect(client.closeTerminal('a1', 't1')).resolves.toEqual({ success: true });
+  });
+
+  it('rejects successful responses that are not JSON', async () => {
+    fetchMock.mockImplementation(async () => new Response('<html>', { status: 200 }) as any);
+
+    await expect(client.startAgent('a1')).rejects.toBeInstanceOf(InvalidResponseError);
+  });
+});
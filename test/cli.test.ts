@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync, spawn } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadCLIConfig, runCLI } from '../src/cli';
+import { BlueprintsAPIClient } from '../src/blueprints-api';
+import { FileKeyStore } from '../src/key-store';
+
+function capture(env: NodeJS.ProcessEnv = {}) {
+  const out = { stdout: '', stderr: '' };
+  return {
+    out,
+    io: {
+      env,
+      stdout: { write: (text: string) => (out.stdout += text) },
+      stderr: { write: (text: string) => (out.stderr += text) },
+    },
+  };
+}
+
+describe('CLI', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cli-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('layers the config file, environment and flags', () => {
+    const file = join(dir, 'config.yaml');
+    writeFileSync(file, 'baseUrl: https://file.example.com\nport: 4000\nhost: 127.0.0.1\n');
+
+    const config = loadCLIConfig({ config: file, port: '5000' }, { MCP_PORT: '4500', BLUEPRINTS_BASE_URL: 'https://env.example.com' });
+
+    expect(config).toMatchObject({ baseUrl: 'https://env.example.com', port: 5000, host: '127.0.0.1', transport: 'http' });
+  });
+
+  it('rejects invalid configuration with usage exit code 2', async () => {
+    const { io, out } = capture({ MCP_TRANSPORT: 'carrier-pigeon' });
+
+    expect(await runCLI(['serve'], io)).toBe(2);
+    expect(out.stderr).toContain('Invalid configuration: transport');
+  });
+
+  it('creates, lists and revokes keys in the key file', async () => {
+    const keyFile = join(dir, 'keys.yaml');
+    const { io, out } = capture({ MCP_KEY_FILE: keyFile });
+
+    expect(await runCLI(['keys', 'create', '--user', 'ci', '--scopes', 'read,execute'], io)).toBe(0);
+    const key = out.stdout.trim();
+    expect(key).toMatch(/^bp_sk_/);
+    expect(await new FileKeyStore(keyFile).lookup(key)).toMatchObject({ userId: 'ci', scopes: ['read', 'execute'] });
+
+    out.stdout = '';
+    await runCLI(['keys', 'list'], io);
+    const id = out.stdout.split(' ')[0];
+    expect(out.stdout).toContain('ci  read,execute  expires never  active');
+
+    expect(await runCLI(['keys', 'revoke', id.slice(0, 6)], io)).toBe(0);
+    expect(await new FileKeyStore(keyFile).lookup(key)).toMatchObject({ revoked: true });
+  });
+
+  it('checks backend connectivity', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'listAgents').mockResolvedValue([{ id: 'a1' } as any]);
+    const { io, out } = capture({ BLUEPRINTS_API_KEY: 'bp_sk_test_key' });
+
+    expect(await runCLI(['check'], io)).toBe(0);
+    expect(out.stdout).toContain('(1 agents)');
+  });
+
+  it('calls a tool and prints its result', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'agentStatus').mockResolvedValue({ id: 'a1', status: 'running', health: 'healthy', stats: {} });
+    const { io, out } = capture({ BLUEPRINTS_API_KEY: 'bp_sk_test_key' });
+
+    expect(await runCLI(['call', 'agent_status', '--args', '{"agent_id":"a1"}'], io)).toBe(0);
+    expect(JSON.parse(out.stdout)).toMatchObject({ status: 'running' });
+  });
+
+  it('only calls destructive tools with --yes', async () => {
+    vi.spyOn(BlueprintsAPIClient.prototype, 'getAgent').mockResolvedValue({ id: 'a1', name: 'Builder', status: 'running' } as any);
+    const stopAgent = vi.spyOn(BlueprintsAPIClient.prototype, 'stopAgent').mockResolvedValue({ success: true, message: 'Stopping' });
+    const { io, out } = capture({ BLUEPRINTS_API_KEY: 'bp_sk_test_key' });
+
+    expect(await runCLI(['call', 'stop_agent', '--args', '{"agent_id":"a1"}'], io)).toBe(2);
+    expect(out.stderr).toContain('pass --yes');
+    expect(stopAgent).not.toHaveBeenCalled();
+
+    expect(await runCLI(['call', 'stop_agent', '--args', '{"agent_id":"a1"}', '--yes'], io)).toBe(0);
+    expect(stopAgent).toHaveBeenCalledWith('a1');
+  });
+});
+
+describe('mcp-server-blueprints binary', () => {
+  const tsx = join('node_modules', '.bin', 'tsx');
+  const env = { ...process.env, BLUEPRINTS_API_KEY: 'bp_sk_test_key', BLUEPRINTS_BASE_URL: 'http://127.0.0.1:9' };
+
+  it('prints usage', () => {
+    expect(execFileSync(tsx, ['src/bin.ts', '--help'], { env, encoding: 'utf8', timeout: 20_000 })).toContain('Usage:');
+  }, 30_000);
+
+  it('serves the tools over stdio', async () => {
+    const child = spawn(tsx, ['src/bin.ts', 'serve', '--transport', 'stdio'], { env, stdio: ['pipe', 'pipe', 'ignore'] });
+    try {
+      const response = new Promise<any>((resolve, reject) => {
+        let buffered = '';
+        child.stdout.on('data', (chunk) => {
+          buffered += chunk;
+          const line = buffered.split('\n').find((candidate) => candidate.includes('"id":2'));
+          if (line) {
+            resolve(JSON.parse(line));
+          }
+        });
+        child.once('exit', (code) => reject(new Error(`exited with ${code}`)));
+      });
+      child.stdin.write(
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } }) +
+          '\n' +
+          JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) +
+          '\n'
+      );
+
+      const { result } = await response;
+      expect(result.tools.map((tool: any) => tool.name)).toContain('list_agents');
+    } finally {
+      child.kill();
+    }
+  }, 30_000);
+});
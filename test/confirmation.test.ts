@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Confirmations } from '../src/confirmation';
+import { ToolError } from '../src/errors';
+
+describe('Confirmations', () => {
+  it('issues a single-use token bound to the arguments when the client cannot ask', async () => {
+    const confirmations = new Confirmations(vi.fn().mockResolvedValue('unsupported'));
+    const context = { session: { userId: 'alice' } } as any;
+
+    const pending = await confirmations.confirm('remove_agent', { agent_id: 'a1' }, 'Remove agent a1', undefined, context);
+    expect(pending).toMatchObject({ confirmation_required: true, action: 'Remove agent a1' });
+    const token = pending!.confirmation_token;
+
+    await expect(
+      confirmations.confirm('remove_agent', { agent_id: 'a2' }, 'Remove agent a2', token, context)
+    ).rejects.toThrow('different arguments');
+    await expect(
+      confirmations.confirm('remove_agent', { agent_id: 'a1' }, 'Remove agent a1', token, { session: { userId: 'bob' } } as any)
+    ).rejects.toThrow(ToolError);
+
+    expect(await confirmations.confirm('remove_agent', { agent_id: 'a1' }, 'Remove agent a1', token, context)).toBeNull();
+    await expect(
+      confirmations.confirm('remove_agent', { agent_id: 'a1' }, 'Remove agent a1', token, context)
+    ).rejects.toThrow('Invalid or expired');
+  });
+
+  it('goes ahead when the user accepts the elicitation and refuses when they decline', async () => {
+    const ask = vi.fn().mockResolvedValueOnce('accept').mockResolvedValueOnce('decline');
+    const confirmations = new Confirmations(ask);
+
+    expect(await confirmations.confirm('stop_agent', { agent_id: 'a1' }, 'Stop agent a1', undefined, {})).toBeNull();
+    expect(ask).toHaveBeenCalledWith({}, 'Stop agent a1?', expect.any(Number));
+    await expect(confirmations.confirm('stop_agent', { agent_id: 'a1' }, 'Stop agent a1', undefined, {})).rejects.toThrow(
+      'did not confirm'
+    );
+  });
+
+  it('does not ask when confirmation is turned off', async () => {
+    const ask = vi.fn();
+    const confirmations = new Confirmations(ask, { required: false });
+
+    expect(await confirmations.confirm('pay_upgrade', { tier: 'pro' }, 'Upgrade', undefined, {})).toBeNull();
+    expect(ask).not.toHaveBeenCalled();
+  });
+});
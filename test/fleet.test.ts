@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FleetOperations, mapWithConcurrency } from '../src/fleet';
+import { AgentConfigEditor } from '../src/agent-config';
+import { ServerError, ToolError } from '../src/errors';
+
+const agents = [
+  { id: 'a1', name: 'support-bot', framework: 'eliza', status: 'running', project_id: 'p1' },
+  { id: 'a2', name: 'support-helper', framework: 'eliza', status: 'stopped', project_id: 'p1' },
+  { id: 'a3', name: 'trader', framework: 'langchain', status: 'stopped', project_id: 'p2' },
+];
+
+function fakeClient(overrides: Record<string, any> = {}) {
+  return {
+    listAgents: vi.fn().mockResolvedValue(agents),
+    getAgent: vi.fn(async (id: string) => ({ id, config: { model: 'gpt-4o', temperature: 0.2 } })),
+    startAgent: vi.fn().mockResolvedValue({ success: true }),
+    stopAgent: vi.fn().mockResolvedValue({ success: true }),
+    editAgentConfig: vi.fn().mockResolvedValue({}),
+    ...overrides,
+  } as any;
+}
+
+function fleetFor(client: any, configs: AgentConfigEditor = new AgentConfigEditor(client)) {
+  return new FleetOperations(client, configs);
+}
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps order', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return n * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('FleetOperations', () => {
+  it('starts agents matched by a selector, skipping running ones', async () => {
+    const client = fakeClient();
+    const report = await fleetFor(client).run(
+      'start',
+      { selector: { project_id: 'p1', name: 'support-*' }, dry_run: false },
+      {}
+    );
+
+    expect(client.startAgent).toHaveBeenCalledTimes(1);
+    expect(client.startAgent).toHaveBeenCalledWith('a2');
+    expect(report).toMatchObject({ matched: 2, succeeded: 1, skipped: 1, failed: 0 });
+  });
+
+  it('reports per-agent failures and unknown IDs', async () => {
+    const client = fakeClient({
+      stopAgent: vi.fn().mockRejectedValue(new ServerError('POST /agents/a1/stop failed with HTTP 500')),
+    });
+    const report = await fleetFor(client).run('restart', { agent_ids: ['a1', 'a3', 'nope'], dry_run: false }, {});
+
+    expect(report.results).toEqual([
+      expect.objectContaining({ agent_id: 'a1', result: 'failed', detail: expect.stringContaining('HTTP 500') }),
+      { agent_id: 'a3', name: 'trader', result: 'succeeded' },
+      { agent_id: 'nope', result: 'failed', detail: 'Agent not found' },
+    ]);
+    expect(client.startAgent).toHaveBeenCalledWith('a3');
+  });
+
+  it('shows config changes without applying them on a dry run', async () => {
+    const client = fakeClient();
+    const report = await fleetFor(client).editConfig(
+      { selector: { framework: 'eliza' }, dry_run: true },
+      { temperature: 0.7, model: 'gpt-4o' },
+      {}
+    );
+
+    expect(client.editAgentConfig).not.toHaveBeenCalled();
+    expect(report.results[0]).toMatchObject({
+      result: 'would_change',
+      changes: [{ key: 'temperature', from: 0.2, to: 0.7 }],
+    });
+  });
+
+  it('validates bulk config edits and records them for rollback', async () => {
+    const client = fakeClient();
+    const configs = new AgentConfigEditor(client);
+    const fleet = fleetFor(client, configs);
+
+    const refused = await fleet.editConfig({ agent_ids: ['a1'], dry_run: false }, { temperature: 5 }, {});
+    expect(refused.results[0]).toMatchObject({ result: 'failed', detail: expect.stringContaining('/temperature') });
+    expect(client.editAgentConfig).not.toHaveBeenCalled();
+
+    const report = await fleet.editConfig({ agent_ids: ['a1'], dry_run: false }, { temperature: 0.7 }, {});
+    expect(report.results[0]).toMatchObject({ result: 'succeeded' });
+    expect(client.editAgentConfig).toHaveBeenCalledWith('a1', { temperature: 0.7 });
+    expect(configs.versions('a1').map((version) => version.source)).toEqual(['bulk_edit', 'observed']);
+  });
+
+  it('requires exactly one of agent_ids or selector', async () => {
+    const fleet = fleetFor(fakeClient());
+
+    await expect(fleet.run('stop', { dry_run: false }, {})).rejects.toBeInstanceOf(ToolError);
+    await expect(fleet.run('stop', { selector: {}, dry_run: false }, {})).rejects.toBeInstanceOf(ToolError);
+  });
+});
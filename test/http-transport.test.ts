@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { connect } from 'net';
+import { BlueprintsMCPServer, MCPConfig } from '../src/index';
+import { EnvKeyStore, hashApiKey } from '../src/key-store';
+import { MemorySessionStore } from '../src/session-store';
+
+const keyStore = new EnvKeyStore('KEYS', {
+  KEYS: JSON.stringify([
+    { hash: hashApiKey('bp_sk_ops_admin'), userId: 'ops', scopes: ['admin'] },
+    { hash: hashApiKey('bp_sk_ops_read'), userId: 'ops', scopes: ['read'] },
+  ]),
+});
+
+describe('HTTPTransport', () => {
+  let server: BlueprintsMCPServer;
+  let url: string;
+
+  async function start(config: Partial<MCPConfig> = {}) {
+    server = new BlueprintsMCPServer({
+      baseUrl: 'https://api.example.com',
+      apiKey: 'bp_sk_test_key',
+      keyStore,
+      session: { store: new MemorySessionStore() },
+      ...config,
+    });
+    await server.startHTTP(0, '127.0.0.1');
+    url = `http://127.0.0.1:${(server as any).httpTransport.listeningPort()}/mcp`;
+  }
+
+  function post(key: string, body: unknown, sessionId?: string) {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${key}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...(sessionId && { 'mcp-session-id': sessionId }),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function initialize(key: string): Promise<string> {
+    const response = await post(key, { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } });
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('limits a session to the scopes of the key presenting it', async () => {
+    await start();
+    const sessionId = await initialize('bp_sk_ops_admin');
+
+    const response = await post('bp_sk_ops_read', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+    const names = (await response.json()).result.tools.map((tool: any) => tool.name);
+
+    expect(names).toContain('list_agents');
+    expect(names).not.toContain('send_terminal');
+
+    const admin = await post('bp_sk_ops_admin', { jsonrpc: '2.0', id: 3, method: 'tools/list' }, sessionId);
+    expect((await admin.json()).result.tools.map((tool: any) => tool.name)).toContain('send_terminal');
+  });
+
+  it('charges the session a token for each request in a batch', async () => {
+    await start({ rateLimit: { limits: { session: { capacity: 3, refillPerSecond: 0.01 } } } });
+    const sessionId = await initialize('bp_sk_ops_admin');
+    const batch = (size: number) => Array.from({ length: size }, (_, i) => ({ jsonrpc: '2.0', id: i + 2, method: 'ping' }));
+
+    const refused = await post('bp_sk_ops_admin', batch(4), sessionId);
+    expect(refused.status).toBe(429);
+    expect(await refused.json()).toMatchObject({ error: { data: { scope: 'session', limit: 3 } } });
+
+    const allowed = await post('bp_sk_ops_admin', batch(3), sessionId);
+    expect(await allowed.json()).toHaveLength(3);
+    expect((await post('bp_sk_ops_admin', batch(1), sessionId)).status).toBe(429);
+  });
+
+  it('releases sessions that expire without another request', async () => {
+    await start({ session: { store: new MemorySessionStore(), ttlMs: 200 } });
+    const releaseSession = vi.spyOn(server, 'releaseSession');
+    const sessionId = await initialize('bp_sk_ops_admin');
+    const transport = (server as any).httpTransport;
+
+    await transport.sweep();
+    expect(releaseSession).not.toHaveBeenCalled();
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    await transport.sweep();
+    expect(releaseSession).toHaveBeenCalledWith(sessionId);
+    expect(transport.sessionStreams.size).toBe(0);
+  });
+
+  it('answers a malformed Host header with 400', async () => {
+    await start();
+    const port = (server as any).httpTransport.listeningPort();
+
+    const reply = await new Promise<string>((resolve, reject) => {
+      const socket = connect(port, '127.0.0.1', () => socket.write('POST /mcp HTTP/1.1\r\nHost: [bad\r\nContent-Length: 0\r\nConnection: close\r\n\r\n'));
+      let data = '';
+      socket.on('data', (chunk) => (data += chunk));
+      socket.on('end', () => resolve(data));
+      socket.on('error', reject);
+    });
+
+    expect(reply).toMatch(/^HTTP\/1\.1 400/);
+  });
+
+  it('answers null and non-object messages with Invalid Request', async () => {
+    await start();
+    const sessionId = await initialize('bp_sk_ops_admin');
+
+    const single = await post('bp_sk_ops_admin', null, sessionId);
+    expect(single.status).toBe(400);
+    expect(await single.json()).toMatchObject({ error: { code: -32600 } });
+
+    const batch = await post('bp_sk_ops_admin', [null, 7, { jsonrpc: '2.0', id: 2, method: 'ping' }], sessionId);
+    expect(await batch.json()).toEqual([
+      expect.objectContaining({ id: null, error: expect.objectContaining({ code: -32600 }) }),
+      expect.objectContaining({ id: null, error: expect.objectContaining({ code: -32600 }) }),
+      expect.objectContaining({ id: 2, result: {} }),
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fetch from 'node-fetch';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthManager } from '../src/auth';
+import { EnvKeyStore, FileKeyStore, RemoteKeyStore, hashApiKey } from '../src/key-store';
+
+vi.mock('node-fetch', () => ({ default: vi.fn() }));
+
+const fetchMock = vi.mocked(fetch);
+
+describe('FileKeyStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'keys-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads plain and hashed keys from JSON', async () => {
+    const file = join(dir, 'keys.json');
+    writeFileSync(file, JSON.stringify({
+      keys: [
+        { key: 'bp_sk_ci_key', userId: 'ci', scopes: ['read'] },
+        { hash: hashApiKey('bp_sk_ops_key'), userId: 'ops', scopes: ['read', 'terminal'] },
+      ],
+    }));
+
+    const store = new FileKeyStore(file);
+
+    expect(await store.lookup('bp_sk_ci_key')).toMatchObject({ userId: 'ci', scopes: ['read'] });
+    expect(await store.lookup('bp_sk_ops_key')).toMatchObject({ userId: 'ops', scopes: ['read', 'terminal'] });
+    expect(await store.lookup('bp_sk_unknown')).toBeNull();
+  });
+
+  it('reads keys from YAML', async () => {
+    const file = join(dir, 'keys.yaml');
+    writeFileSync(file, [
+      'keys:',
+      '  - key: bp_sk_yaml_key',
+      '    userId: yaml-user',
+      '    scopes: [read, write]',
+      '    expiresAt: 2030-01-01T00:00:00Z',
+    ].join('\n'));
+
+    const record = await new FileKeyStore(file).lookup('bp_sk_yaml_key');
+
+    expect(record?.userId).toBe('yaml-user');
+    expect(record?.expiresAt).toEqual(new Date('2030-01-01T00:00:00Z'));
+  });
+});
+
+describe('EnvKeyStore', () => {
+  it('looks up hashed keys from the environment', async () => {
+    const store = new EnvKeyStore('KEYS', {
+      KEYS: JSON.stringify([{ hash: hashApiKey('bp_sk_env_key'), userId: 'env-user', scopes: ['admin'] }]),
+    });
+
+    expect(await store.lookup('bp_sk_env_key')).toMatchObject({ userId: 'env-user', scopes: ['admin'] });
+  });
+
+  it('refuses plain keys', () => {
+    expect(() => new EnvKeyStore('KEYS', {
+      KEYS: JSON.stringify([{ key: 'bp_sk_env_key', userId: 'env-user', scopes: [] }]),
+    })).toThrow(/hashed keys only/);
+  });
+});
+
+describe('RemoteKeyStore', () => {
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+  });
+
+  function verifies(userIds: string[]) {
+    fetchMock.mockImplementation(async (_url, init: any) => {
+      const key = JSON.parse(init.body).api_key.replace('bp_sk_', '');
+      const valid = userIds.includes(key);
+      return { ok: valid, status: valid ? 200 : 401, json: async () => ({ valid, user_id: key, scopes: ['read'] }) } as any;
+    });
+  }
+
+  it('keeps unknown keys only briefly', async () => {
+    vi.useFakeTimers();
+    verifies([]);
+    const store = new RemoteKeyStore('https://api.example.com', { cacheTtlMs: 60_000, negativeCacheTtlMs: 1_000 });
+
+    expect(await store.lookup('bp_sk_new')).toBeNull();
+    verifies(['new']);
+    expect(await store.lookup('bp_sk_new')).toBeNull();
+    vi.advanceTimersByTime(1_001);
+    expect(await store.lookup('bp_sk_new')).toMatchObject({ userId: 'new' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the least recently used key once full', async () => {
+    verifies(['a', 'b', 'c']);
+    const store = new RemoteKeyStore('https://api.example.com', { maxCacheEntries: 2 });
+
+    await store.lookup('bp_sk_a');
+    await store.lookup('bp_sk_b');
+    await store.lookup('bp_sk_a');
+    await store.lookup('bp_sk_c');
+    fetchMock.mockClear();
+
+    await store.lookup('bp_sk_a');
+    expect(fetchMock).not.toHaveBeenCalled();
+    await store.lookup('bp_sk_b');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AuthManager.authenticate', () => {
+  const store = new EnvKeyStore('KEYS', {
+    KEYS: JSON.stringify([
+      { hash: hashApiKey('bp_sk_active'), userId: 'active', scopes: ['read'] },
+      { hash: hashApiKey('bp_sk_revoked'), userId: 'revoked', scopes: ['read'], revoked: true },
+      { hash: hashApiKey('bp_sk_expired'), userId: 'expired', scopes: ['read'], expiresAt: '2000-01-01' },
+    ]),
+  });
+  const auth = new AuthManager('secret', store);
+
+  it('returns the record for an active key', async () => {
+    expect(await auth.authenticate('bp_sk_active')).toMatchObject({ userId: 'active' });
+  });
+
+  it('rejects revoked, expired and malformed keys', async () => {
+    expect(await auth.authenticate('bp_sk_revoked')).toBeNull();
+    expect(await auth.authenticate('bp_sk_expired')).toBeNull();
+    expect(await auth.authenticate('not_a_key')).toBeNull();
+  });
+});
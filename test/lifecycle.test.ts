@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AgentWaiter } from '../src/lifecycle';
+
+function fakeClient(statuses: Array<{ status: string; health?: string }>) {
+  const agentStatus = vi.fn();
+  for (const status of statuses) {
+    agentStatus.mockResolvedValueOnce({ id: 'a1', stats: {}, ...status });
+  }
+  agentStatus.mockResolvedValue({ id: 'a1', stats: {}, ...statuses[statuses.length - 1] });
+  return { agentStatus } as any;
+}
+
+describe('AgentWaiter', () => {
+  it('polls until the agent is healthy, reporting progress', async () => {
+    const client = fakeClient([
+      { status: 'starting', health: 'unknown' },
+      { status: 'running', health: 'degraded' },
+      { status: 'running', health: 'healthy' },
+    ]);
+    const sendNotification = vi.fn();
+
+    const result = await new AgentWaiter(client, { initialIntervalMs: 1 }).wait('a1', 'healthy', 1000, {
+      progressToken: 'p1',
+      sendNotification,
+    });
+
+    expect(result).toMatchObject({ agent_id: 'a1', target: 'healthy', status: { status: 'running', health: 'healthy' } });
+    expect(result.elapsed_ms).toBeGreaterThanOrEqual(0);
+    expect(client.agentStatus).toHaveBeenCalledTimes(3);
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ params: { progressToken: 'p1', progress: 2, message: 'a1: running, degraded' } })
+    );
+  });
+
+  it('fails with the last status on timeout', async () => {
+    const waiter = new AgentWaiter(fakeClient([{ status: 'stopping' }]), { initialIntervalMs: 5 });
+
+    await expect(waiter.wait('a1', 'stopped', 20, {})).rejects.toThrow(/not stopped after \d+s \(last status: stopping\)/);
+  });
+
+  it('stops waiting for a running agent once it has failed', async () => {
+    const client = fakeClient([{ status: 'starting' }, { status: 'crashed', health: 'unhealthy' }]);
+
+    await expect(new AgentWaiter(client, { initialIntervalMs: 1 }).wait('a1', 'running', 1000, {})).rejects.toThrow(
+      'Agent a1 crashed while waiting for it to be running'
+    );
+    expect(client.agentStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops polling when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const waiter = new AgentWaiter(fakeClient([{ status: 'starting' }]), { initialIntervalMs: 1000 });
+
+    const waiting = waiter.wait('a1', 'running', 60_000, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('cancelled')), 5);
+
+    await expect(waiting).rejects.toThrow('cancelled');
+  });
+});
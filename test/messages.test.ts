@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Conversations } from '../src/messages';
+
+function reply(content: string, status: string) {
+  return { id: 'm2', agent_id: 'a1', role: 'agent', content, status, in_reply_to: 'm1', created_at: '2026-01-01T00:00:00Z' };
+}
+
+function fakeClient(replies: any[]) {
+  const getMessage = vi.fn();
+  for (const message of replies) {
+    getMessage.mockResolvedValueOnce(message);
+  }
+  getMessage.mockResolvedValue(replies[replies.length - 1]);
+
+  return {
+    sendMessage: vi.fn().mockResolvedValue({ success: true, message_id: 'm1' }),
+    listMessages: vi
+      .fn()
+      .mockResolvedValueOnce({ messages: [], next_cursor: null })
+      .mockResolvedValue({ messages: [reply('', 'pending')], next_cursor: null }),
+    getMessage,
+  } as any;
+}
+
+describe('Conversations', () => {
+  it('streams the reply as progress until it is complete', async () => {
+    const client = fakeClient([reply('Hel', 'streaming'), reply('Hello!', 'complete')]);
+    const sendNotification = vi.fn();
+
+    const result = await new Conversations(client, { pollIntervalMs: 1 }).send('a1', 'hi', undefined, 1000, {
+      progressToken: 'p1',
+      sendNotification,
+    });
+
+    expect(result).toMatchObject({ message_id: 'm1', complete: true, reply: { id: 'm2', content: 'Hello!' } });
+    expect(client.listMessages).toHaveBeenCalledWith('a1', { after: 'm1' });
+    expect(sendNotification.mock.calls.map(([notification]) => notification.params)).toEqual([
+      { progressToken: 'p1', progress: 3, message: 'Hel' },
+      { progressToken: 'p1', progress: 6, message: 'lo!' },
+    ]);
+  });
+
+  it('returns what has arrived when the wait runs out', async () => {
+    const client = fakeClient([reply('Thinking', 'streaming')]);
+
+    const result = await new Conversations(client, { pollIntervalMs: 5 }).send('a1', 'hi', undefined, 20, {});
+
+    expect(result).toMatchObject({ complete: false, reply: { content: 'Thinking' } });
+  });
+
+  it('sends without waiting unless asked to', async () => {
+    const client = fakeClient([]);
+    const attachments = [{ name: 'notes.txt', mime_type: 'text/plain', data: Buffer.from('notes').toString('base64') }];
+
+    expect(await new Conversations(client).send('a1', 'hi', attachments, undefined, {})).toEqual({
+      success: true,
+      message_id: 'm1',
+    });
+    expect(client.sendMessage).toHaveBeenCalledWith('a1', 'hi', attachments);
+    expect(client.listMessages).not.toHaveBeenCalled();
+  });
+
+  it('refuses inline attachments over the size limit', async () => {
+    const client = fakeClient([]);
+    const attachments = [{ name: 'big.bin', mime_type: 'application/octet-stream', data: Buffer.alloc(11).toString('base64') }];
+
+    await expect(
+      new Conversations(client, { maxAttachmentBytes: 10 }).send('a1', 'hi', attachments, undefined, {})
+    ).rejects.toMatchObject({ code: -32602 });
+    expect(client.sendMessage).not.toHaveBeenCalled();
+  });
+});
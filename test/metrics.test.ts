@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Metrics, MetricsRegistry, routeOf } from '../src/metrics';
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the Prometheus text format', async () => {
+    const registry = new MetricsRegistry();
+    registry.counter('calls_total', 'Calls', ['tool']).inc({ tool: 'say "hi"' }, 2);
+    const gauge = registry.gauge('sessions', 'Sessions');
+    gauge.collect = async () => gauge.set({}, 3);
+    registry.histogram('latency_seconds', 'Latency', [], [0.1, 1]).observe({}, 0.5);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP calls_total Calls',
+        '# TYPE calls_total counter',
+        'calls_total{tool="say \\"hi\\""} 2',
+        '# HELP sessions Sessions',
+        '# TYPE sessions gauge',
+        'sessions 3',
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{le="0.1"} 0',
+        'latency_seconds_bucket{le="1"} 1',
+        'latency_seconds_bucket{le="+Inf"} 1',
+        'latency_seconds_sum 0.5',
+        'latency_seconds_count 1',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('Metrics', () => {
+  it('collapses IDs so each backend route is one series', () => {
+    expect(routeOf('/agents/a1/terminal/sessions/t1/output?cursor=3')).toBe('/agents/:id/terminal/sessions/:id/output');
+    expect(routeOf('/agents')).toBe('/agents');
+  });
+
+  it('counts requests by tool and outcome', async () => {
+    const metrics = new Metrics();
+    metrics.recordRequest('tools/call', 'list_agents', 'success', 0.02);
+    metrics.recordRequest('tools/call', 'list_agents', 'error', 0.01);
+    metrics.recordBackendCall('GET', '/agents/a1/status', 200, 0.03);
+
+    const text = await metrics.registry.render();
+    expect(text).toContain('mcp_requests_total{method="tools/call",tool="list_agents",outcome="error"} 1');
+    expect(text).toContain('mcp_request_duration_seconds_count{method="tools/call",tool="list_agents"} 2');
+    expect(text).toContain(
+      'blueprints_api_request_duration_seconds_count{method="GET",route="/agents/:id/status",status="200"} 1'
+    );
+  });
+});
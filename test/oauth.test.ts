@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { OAuthTokenVerifier } from '../src/oauth';
+
+describe('OAuthTokenVerifier', () => {
+  let dir: string;
+  let privateKey: CryptoKey;
+  let verifier: OAuthTokenVerifier;
+
+  const sign = (claims: Record<string, unknown>, audience = 'https://mcp.example.com/mcp') =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+      .setIssuer('https://auth.example.com')
+      .setAudience(audience)
+      .setSubject('user-42')
+      .setExpirationTime('5m')
+      .sign(privateKey);
+
+  beforeAll(async () => {
+    const keys = await generateKeyPair('RS256');
+    privateKey = keys.privateKey as CryptoKey;
+    const jwk = { ...(await exportJWK(keys.publicKey)), kid: 'test-key', alg: 'RS256' };
+
+    dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+    const jwksPath = join(dir, 'jwks.json');
+    writeFileSync(jwksPath, JSON.stringify({ keys: [jwk] }));
+
+    verifier = new OAuthTokenVerifier({
+      resource: 'https://mcp.example.com/mcp',
+      authorizationServers: ['https://auth.example.com'],
+      jwks: jwksPath,
+    });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('maps scope claims onto server scopes', async () => {
+    const record = await verifier.verify(await sign({ scope: 'read blueprints:terminal openid' }));
+
+    expect(record?.userId).toBe('user-42');
+    expect(record?.scopes).toEqual(['read', 'terminal']);
+    expect(record?.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects tokens issued for another audience', async () => {
+    expect(await verifier.verify(await sign({ scope: 'read' }, 'https://other.example.com'))).toBeNull();
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifier.verify('not-a-jwt')).toBeNull();
+  });
+
+  it('publishes metadata under the resource path', () => {
+    expect(verifier.metadataPath()).toBe('/.well-known/oauth-protected-resource/mcp');
+    expect(verifier.metadata()).toMatchObject({
+      resource: 'https://mcp.example.com/mcp',
+      authorization_servers: ['https://auth.example.com'],
+    });
+    expect(verifier.challenge('invalid_token')).toBe(
+      'Bearer resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource/mcp", error="invalid_token"'
+    );
+  });
+});
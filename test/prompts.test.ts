@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NotFoundError } from '../src/errors';
+import { AgentConfigEditor } from '../src/agent-config';
+import { AgentPrompts, PROMPTS } from '../src/prompts';
+import { TerminalSessions } from '../src/terminal';
+
+function fakeClient(overrides: Record<string, any> = {}) {
+  return {
+    listAgents: vi.fn().mockResolvedValue([
+      { id: 'a1', name: 'Builder', framework: 'eliza', status: 'running', project_id: 'p1' },
+      { id: 'a2', name: 'Scout', framework: 'langchain', status: 'error', project_id: 'p2' },
+      { id: 'b3', name: 'Archivist', framework: 'eliza', status: 'stopped', project_id: 'p1' },
+    ]),
+    getAgent: vi.fn().mockResolvedValue({ id: 'a2', name: 'Scout', framework: 'langchain', config: { model: 'x' } }),
+    agentStatus: vi.fn().mockResolvedValue({ id: 'a2', status: 'error', health: 'failing', stats: {} }),
+    openTerminal: vi.fn().mockResolvedValue({ session_id: 'term-1' }),
+    readTerminal: vi.fn().mockResolvedValue({
+      chunks: [{ stream: 'stderr', data: 'OOMKilled\n' }],
+      cursor: 1,
+      exited: true,
+      exit_code: 137,
+    }),
+    closeTerminal: vi.fn().mockResolvedValue({ success: true }),
+    ...overrides,
+  } as any;
+}
+
+function prompts(client = fakeClient()) {
+  const terminals = new TerminalSessions(client, { pollIntervalMs: 1 });
+  return { terminals, prompts: new AgentPrompts(client, terminals, new AgentConfigEditor(client)) };
+}
+
+describe('AgentPrompts', () => {
+  it('lists every prompt with its arguments', () => {
+    expect(prompts().prompts.list().prompts.map((prompt) => prompt.name)).toEqual(PROMPTS.map((prompt) => prompt.name));
+  });
+
+  it('fills the diagnosis prompt with status and recent terminal output', async () => {
+    const { prompts: agentPrompts, terminals } = prompts();
+    await terminals.run('a2', 'tail /var/log/agent.log', {});
+
+    const { messages } = await agentPrompts.get('diagnose_agent', { agent_id: 'a2' });
+
+    expect(messages[1].content).toMatchObject({ type: 'resource', resource: { uri: 'blueprints://agents/a2/status' } });
+    expect(messages[2].content).toMatchObject({ type: 'text', text: expect.stringContaining('[stderr] OOMKilled') });
+    terminals.dispose();
+  });
+
+  it("leaves out other sessions' terminal output, and all of it without terminal access", async () => {
+    const { prompts: agentPrompts, terminals } = prompts();
+    await terminals.run('a2', 'tail /var/log/agent.log', { sessionId: 's1' } as any);
+
+    const other = await agentPrompts.get('diagnose_agent', { agent_id: 'a2' }, 's2');
+    const denied = await agentPrompts.get('diagnose_agent', { agent_id: 'a2' }, null);
+
+    expect(other.messages[2].content).toMatchObject({ text: expect.not.stringContaining('OOMKilled') });
+    expect(denied.messages[2].content).toMatchObject({ text: expect.stringContaining('needs the terminal scope') });
+    terminals.dispose();
+  });
+
+  it('rejects missing arguments and unknown agents', async () => {
+    const client = fakeClient({ getAgent: vi.fn().mockRejectedValue(new NotFoundError('gone')) });
+    const { prompts: agentPrompts } = prompts(client);
+
+    await expect(agentPrompts.get('safe_config_change', { agent_id: 'a2' })).rejects.toThrow('Missing arguments for prompt safe_config_change: change');
+    await expect(agentPrompts.get('diagnose_agent', { agent_id: 'zz' })).rejects.toThrow('Unknown agent: zz');
+  });
+
+  it('completes agent IDs by ID or name, within the chosen project', async () => {
+    const { prompts: agentPrompts } = prompts();
+    const ref = { type: 'ref/prompt', name: 'diagnose_agent' };
+
+    expect((await agentPrompts.complete(ref, { name: 'agent_id', value: 'a' })).completion.values).toEqual(['a1', 'a2', 'b3']);
+    expect((await agentPrompts.complete(ref, { name: 'agent_id', value: 'sc' })).completion.values).toEqual(['a2']);
+    expect(
+      (await agentPrompts.complete({ type: 'ref/prompt', name: 'fleet_health' }, { name: 'project_id', value: '' })).completion
+    ).toEqual({ values: ['p1', 'p2'], total: 2, hasMore: false });
+  });
+
+  it('completes frameworks from schemas and existing agents', async () => {
+    const { prompts: agentPrompts } = prompts();
+
+    const { completion } = await agentPrompts.complete({ type: 'ref/prompt', name: 'deploy_agent' }, { name: 'framework', value: 'E' });
+    expect(completion.values).toEqual(['eliza']);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MemoryRateLimitStore, RateLimiter, rateLimitError, rateLimitHeaders } from '../src/rate-limit';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refills tokens over time', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+    const bucket = { capacity: 2, refillPerSecond: 1 };
+
+    expect((await store.take('k', bucket)).allowed).toBe(true);
+    expect((await store.take('k', bucket)).allowed).toBe(true);
+    expect(await store.take('k', bucket)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+
+    vi.advanceTimersByTime(1000);
+    expect((await store.take('k', bucket)).allowed).toBe(true);
+    await store.close();
+  });
+
+  it('takes several tokens at once or none', async () => {
+    const store = new MemoryRateLimitStore();
+    const bucket = { capacity: 3, refillPerSecond: 1 };
+
+    expect(await store.take('k', bucket, 4)).toMatchObject({ allowed: false, remaining: 3 });
+    expect(await store.take('k', bucket, 2)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await store.take('k', bucket, 2)).toMatchObject({ allowed: false, remaining: 1 });
+    await store.close();
+  });
+
+  it('stops counting once a quota is used up and resets it afterwards', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+    const resetAt = Date.now() + 1000;
+
+    expect(await store.increment([{ key: 'q', limit: 1 }], resetAt)).toEqual({ allowed: true, used: [1] });
+    expect(await store.increment([{ key: 'q', limit: 1 }], resetAt)).toEqual({ allowed: false, used: [1] });
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.increment([{ key: 'q', limit: 1 }], Date.now() + 1000)).toEqual({ allowed: true, used: [1] });
+    await store.close();
+  });
+
+  it('counts against no quota when any of them is used up', async () => {
+    const store = new MemoryRateLimitStore();
+    const resetAt = Date.now() + 60_000;
+    await store.increment([{ key: 'all', limit: 1 }], resetAt);
+
+    expect(await store.increment([{ key: 'one', limit: 5 }, { key: 'all', limit: 1 }], resetAt)).toEqual({ allowed: false, used: [0, 1] });
+    expect(await store.increment([{ key: 'one', limit: 5 }], resetAt)).toEqual({ allowed: true, used: [1] });
+    await store.close();
+  });
+});
+
+describe('RateLimiter', () => {
+  it('limits keys and sessions independently', async () => {
+    const limiter = new RateLimiter({
+      limits: { key: { capacity: 3, refillPerSecond: 0.1 }, session: { capacity: 1, refillPerSecond: 0.1 } },
+    });
+
+    expect(await limiter.checkRequest('ops', 's1')).toBeNull();
+    expect(await limiter.checkRequest('ops', 's1')).toMatchObject({ scope: 'session', limit: 1, retryAfterSeconds: 10 });
+    expect(await limiter.checkRequest('ops', 's2')).toBeNull();
+    expect(await limiter.checkRequest('ops', 's3')).toMatchObject({ scope: 'key', limit: 3 });
+    expect(await limiter.checkRequest('ci', 's4')).toBeNull();
+    await limiter.close();
+  });
+
+  it('applies per-tool buckets and daily quotas', async () => {
+    const limiter = new RateLimiter({
+      limits: {
+        key: { dailyQuota: 3 },
+        tools: { create_agent: { capacity: 1, refillPerSecond: 0.01 }, send_terminal: { dailyQuota: 1 } },
+      },
+    });
+
+    expect(await limiter.checkTool('ops', 'create_agent')).toBeNull();
+    expect(await limiter.checkTool('ops', 'create_agent')).toMatchObject({ scope: 'tool', tool: 'create_agent' });
+    expect(await limiter.checkTool('ops', 'send_terminal')).toBeNull();
+    expect(await limiter.checkTool('ops', 'send_terminal')).toMatchObject({ scope: 'quota', tool: 'send_terminal', limit: 1 });
+    expect(await limiter.checkTool('ops', 'list_agents')).toBeNull();
+    expect(await limiter.checkTool('ops', 'list_agents')).toMatchObject({ scope: 'quota', limit: 3 });
+    await limiter.close();
+  });
+
+  it('reports the key-wide quota when it is the one used up', async () => {
+    const limiter = new RateLimiter({ limits: { key: { dailyQuota: 1 }, tools: { send_terminal: { dailyQuota: 2 } } } });
+
+    expect(await limiter.checkTool('ops', 'list_agents')).toBeNull();
+    expect(await limiter.checkTool('ops', 'send_terminal')).toMatchObject({ scope: 'quota', tool: undefined, limit: 1 });
+    await limiter.close();
+  });
+
+  it('rejects half-configured buckets', () => {
+    expect(() => new RateLimiter({ limits: { tools: { create_agent: { capacity: 5 } } } })).toThrow();
+  });
+});
+
+describe('rateLimitError', () => {
+  it('carries the refusal as JSON-RPC error data and HTTP headers', () => {
+    const refusal = { scope: 'key' as const, limit: 60, remaining: 0, retryAfterSeconds: 2, resetSeconds: 60 };
+
+    expect(rateLimitError(refusal)).toMatchObject({ code: -32003, data: refusal });
+    expect(rateLimitHeaders(refusal)).toEqual({
+      'Retry-After': '2',
+      'RateLimit-Limit': '60',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '60',
+    });
+  });
+});
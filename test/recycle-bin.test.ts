@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AgentConfigEditor } from '../src/agent-config';
+import { AgentRemovals, RecycleBin } from '../src/recycle-bin';
+import { ServerError, ToolError } from '../src/errors';
+
+const agent = {
+  id: 'a1',
+  name: 'Builder',
+  framework: 'eliza',
+  status: 'running',
+  project_id: 'p1',
+  config: { model: 'gpt-4o' },
+  created_at: '',
+  updated_at: '',
+};
+
+function fakeClient(overrides: Record<string, any> = {}) {
+  return {
+    removeAgent: vi.fn().mockResolvedValue({ success: true, message: 'Removed' }),
+    createAgent: vi.fn().mockResolvedValue({ ...agent, id: 'a9', status: 'stopped' }),
+    ...overrides,
+  } as any;
+}
+
+describe('AgentRemovals', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('snapshots a removed agent and recreates it from the snapshot', async () => {
+    const client = fakeClient();
+    const configs = new AgentConfigEditor(client);
+    const removals = new AgentRemovals(client, new RecycleBin(), configs);
+
+    const removed = await removals.remove(agent, 'alice');
+    expect(client.removeAgent).toHaveBeenCalledWith('a1');
+    expect(removed.restorable_until).toBeTruthy();
+    expect(removals.list().removed_agents).toMatchObject([{ agent_id: 'a1', name: 'Builder', status: 'running' }]);
+
+    const restored = await removals.restore('a1');
+    expect(client.createAgent).toHaveBeenCalledWith({
+      project_id: 'p1',
+      name: 'Builder',
+      framework: 'eliza',
+      config: { model: 'gpt-4o' },
+    });
+    expect(restored).toMatchObject({ restored_from: 'a1', agent: { id: 'a9' }, previous_status: 'running' });
+    expect(configs.versions('a9')).toHaveLength(1);
+    expect(removals.list().removed_agents).toEqual([]);
+  });
+
+  it('drops the snapshot when removal fails or the grace period ends', async () => {
+    vi.useFakeTimers();
+    const failing = fakeClient({ removeAgent: vi.fn().mockRejectedValue(new ServerError('boom')) });
+    const bin = new RecycleBin({ gracePeriodMs: 60_000 });
+    await expect(new AgentRemovals(failing, bin, new AgentConfigEditor(failing)).remove(agent)).rejects.toThrow('boom');
+    expect(bin.list('')).toEqual([]);
+
+    const client = fakeClient();
+    const removals = new AgentRemovals(client, bin, new AgentConfigEditor(client));
+    await removals.remove(agent);
+    vi.advanceTimersByTime(60_001);
+
+    await expect(removals.restore('a1')).rejects.toThrow(ToolError);
+    expect(client.createAgent).not.toHaveBeenCalled();
+  });
+
+  it('keeps scopes apart and persists snapshots to the bin file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'recycle-'));
+    try {
+      const file = join(dir, 'bin.json');
+      const client = fakeClient();
+      await new AgentRemovals(client, new RecycleBin({ file }), new AgentConfigEditor(client), 'tenant-a').remove(agent);
+
+      const reloaded = new RecycleBin({ file });
+      expect(new AgentRemovals(client, reloaded, new AgentConfigEditor(client)).list().removed_agents).toEqual([]);
+      expect(new AgentRemovals(client, reloaded, new AgentConfigEditor(client), 'tenant-a').list().removed_agents).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
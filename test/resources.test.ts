@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { NotFoundError } from '../src/errors';
+import { AgentResources, ResourceSubscriptions, parseResourceURI } from '../src/resources';
+
+function fakeClient(overrides: Record<string, any> = {}) {
+  return {
+    listAgents: vi.fn().mockResolvedValue([
+      { id: 'a1', name: 'Builder', framework: 'eliza', status: 'running' },
+    ]),
+    getAgent: vi.fn().mockResolvedValue({ id: 'a1', config: { model: 'x' } }),
+    agentStatus: vi.fn().mockResolvedValue({ id: 'a1', status: 'running', health: 'ok', stats: {} }),
+    ...overrides,
+  } as any;
+}
+
+describe('parseResourceURI', () => {
+  it('recognises agent resources', () => {
+    expect(parseResourceURI('blueprints://agents')).toEqual({ kind: 'agents' });
+    expect(parseResourceURI('blueprints://agents/a1')).toEqual({ kind: 'agent', agentId: 'a1' });
+    expect(parseResourceURI('blueprints://agents/a1/status')).toEqual({ kind: 'status', agentId: 'a1' });
+    expect(parseResourceURI('blueprints://agents/a1/logs')).toBeNull();
+    expect(parseResourceURI('https://agents/a1')).toBeNull();
+    expect(parseResourceURI('blueprints://agents/%E0')).toBeNull();
+  });
+});
+
+describe('AgentResources', () => {
+  it('lists the collection and each agent', async () => {
+    const { resources } = await new AgentResources(fakeClient()).list();
+
+    expect(resources.map((r) => r.uri)).toEqual(['blueprints://agents', 'blueprints://agents/a1']);
+  });
+
+  it('reads an agent config', async () => {
+    const result = await new AgentResources(fakeClient()).read('blueprints://agents/a1/config');
+
+    expect(JSON.parse(result.contents[0].text)).toEqual({ model: 'x' });
+  });
+
+  it('maps missing agents to resource not found', async () => {
+    const client = fakeClient({ agentStatus: vi.fn().mockRejectedValue(new NotFoundError('gone')) });
+
+    await expect(new AgentResources(client).read('blueprints://agents/nope/status'))
+      .rejects.toMatchObject({ code: -32002 });
+  });
+
+  it('maps malformed percent-encoding to resource not found', async () => {
+    await expect(new AgentResources(fakeClient()).read('blueprints://agents/%E0'))
+      .rejects.toMatchObject({ code: -32002 });
+  });
+});
+
+describe('ResourceSubscriptions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('notifies subscribers when status or health changes', async () => {
+    vi.useFakeTimers();
+    const agentStatus = vi.fn()
+      .mockResolvedValueOnce({ status: 'running', health: 'ok' })
+      .mockResolvedValueOnce({ status: 'running', health: 'ok' })
+      .mockResolvedValueOnce({ status: 'crashed', health: 'failing' });
+    const subscriptions = new ResourceSubscriptions(fakeClient({ agentStatus }), 1000);
+    const notify = vi.fn();
+
+    subscriptions.subscribe('session-1', 'blueprints://agents/a1/status', notify);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(notify).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(notify).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri: 'blueprints://agents/a1/status' },
+    });
+
+    subscriptions.unsubscribeAll('session-1');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(agentStatus).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ResponseCache } from '../src/response-cache';
+
+const fetched = (body: unknown, etag?: string) => ({ body, etag, notModified: false });
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves fresh entries and only caches listed routes', async () => {
+    const cache = new ResponseCache();
+    const load = vi.fn(async () => fetched([{ id: 'a1' }]));
+
+    expect(await cache.get('/agents', load)).toEqual([{ id: 'a1' }]);
+    expect(await cache.get('/agents', load)).toEqual([{ id: 'a1' }]);
+    await cache.get('/agents/a1/messages', load);
+    await cache.get('/agents/a1/messages', load);
+
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares identical requests in flight', async () => {
+    const cache = new ResponseCache();
+    let resolve!: (value: any) => void;
+    const load = vi.fn(() => new Promise<any>((r) => (resolve = r)));
+
+    const first = cache.get('/agents/a1/messages', load);
+    const second = cache.get('/agents/a1/messages', load);
+    resolve(fetched({ messages: [] }));
+
+    expect(await first).toEqual({ messages: [] });
+    expect(await second).toEqual({ messages: [] });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('revalidates stale entries with their ETag', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ ttls: { '/agents/:id/status': 1000 } });
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(fetched({ status: 'running' }, '"v1"'))
+      .mockResolvedValueOnce({ body: undefined, notModified: true });
+
+    await cache.get('/agents/a1/status', load);
+    vi.advanceTimersByTime(1000);
+
+    expect(await cache.get('/agents/a1/status', load)).toEqual({ status: 'running' });
+    expect(load).toHaveBeenLastCalledWith('"v1"');
+  });
+
+  it('drops the agent list and the changed agent on mutation, keeping other agents', async () => {
+    const cache = new ResponseCache();
+    const load = vi.fn(async () => fetched({}));
+    for (const endpoint of ['/agents', '/agents/a1', '/agents/a1/status', '/agents/a2']) {
+      await cache.get(endpoint, load);
+    }
+    load.mockClear();
+
+    cache.invalidate('/agents/a1/start');
+    for (const endpoint of ['/agents', '/agents/a1', '/agents/a1/status', '/agents/a2']) {
+      await cache.get(endpoint, load);
+    }
+
+    expect(load.mock.calls.length).toBe(3);
+  });
+
+  it('does not store a response that was loading during a mutation', async () => {
+    const cache = new ResponseCache();
+    let resolve!: (value: any) => void;
+    const stale = cache.get('/agents/a1', () => new Promise<any>((r) => (resolve = r)));
+
+    cache.invalidate('/agents/a1/config');
+    resolve(fetched({ config: { model: 'old' } }));
+    await stale;
+
+    const load = vi.fn(async () => fetched({ config: { model: 'new' } }));
+    expect(await cache.get('/agents/a1', load)).toEqual({ config: { model: 'new' } });
+  });
+});
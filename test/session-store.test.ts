@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { AddressInfo, Server, createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthManager } from '../src/auth';
+import { RedisClient, encodeCommand, parseReply } from '../src/redis-client';
+import { FileSessionStore, MemorySessionStore, RedisSessionStore } from '../src/session-store';
+
+function makeSession(id: string, ttlMs: number) {
+  const now = new Date();
+  return {
+    id,
+    userId: 'user-1',
+    createdAt: now,
+    lastActivity: now,
+    scopes: ['read'],
+    expiresAt: new Date(now.getTime() + ttlMs),
+  };
+}
+
+/**
+ * Local stand-in for a Redis server understanding GET, SET ... PX and DEL
+ */
+function startFakeRedis(): Promise<{ server: Server; url: string; data: Map<string, string> }> {
+  const data = new Map<string, string>();
+  const server = createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed;
+      while ((parsed = parseReply(buffer, 0))) {
+        buffer = buffer.subarray(parsed.offset);
+        const [command, key, value] = parsed.reply as string[];
+        switch (command.toUpperCase()) {
+          case 'GET': {
+            const stored = data.get(key);
+            socket.write(stored === undefined ? '$-1\r\n' : `$${Buffer.byteLength(stored)}\r\n${stored}\r\n`);
+            break;
+          }
+          case 'SET':
+            data.set(key, value);
+            socket.write('+OK\r\n');
+            break;
+          case 'DEL':
+            socket.write(`:${data.delete(key) ? 1 : 0}\r\n`);
+            break;
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `redis://127.0.0.1:${port}`, data });
+    });
+  });
+}
+
+describe('MemorySessionStore', () => {
+  it('does not return expired sessions', async () => {
+    const store = new MemorySessionStore();
+    await store.set(makeSession('live', 60_000));
+    await store.set(makeSession('dead', -1));
+
+    expect(await store.get('live')).not.toBeNull();
+    expect(await store.get('dead')).toBeNull();
+    await store.close();
+  });
+});
+
+describe('FileSessionStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sessions-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps sessions across restarts', async () => {
+    const file = join(dir, 'sessions.json');
+    const first = new FileSessionStore(file);
+    await first.set(makeSession('session-1', 60_000));
+    await first.close();
+
+    const second = new FileSessionStore(file);
+    const session = await second.get('session-1');
+
+    expect(session?.userId).toBe('user-1');
+    expect(session?.expiresAt).toBeInstanceOf(Date);
+    await second.close();
+  });
+});
+
+describe('RedisSessionStore', () => {
+  let fake: Awaited<ReturnType<typeof startFakeRedis>>;
+  let client: RedisClient;
+
+  beforeEach(async () => {
+    fake = await startFakeRedis();
+    client = new RedisClient(fake.url);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  it('stores, reads and deletes sessions', async () => {
+    const store = new RedisSessionStore(client);
+    await store.set(makeSession('session-1', 60_000));
+
+    expect(fake.data.has('mcp:session:session-1')).toBe(true);
+    expect((await store.get('session-1'))?.scopes).toEqual(['read']);
+
+    await store.delete('session-1');
+    expect(await store.get('session-1')).toBeNull();
+  });
+
+  it('encodes commands as RESP arrays', () => {
+    expect(encodeCommand(['SET', 'k', 'v', 'PX', 10])).toBe('*5\r\n$3\r\nSET\r\n$1\r\nk\r\n$1\r\nv\r\n$2\r\nPX\r\n$2\r\n10\r\n');
+  });
+});
+
+describe('AuthManager session expiry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps absolute expiry fixed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const auth = new AuthManager('secret', null, { expiry: 'absolute', ttlMs: 1000 });
+    const session = await auth.createSession('user-1', ['read']);
+
+    vi.advanceTimersByTime(800);
+    await auth.validateSession(session.id);
+    vi.advanceTimersByTime(800);
+
+    expect(await auth.validateSession(session.id)).toBeNull();
+    await auth.close();
+  });
+
+  it('extends sliding sessions up to the maximum lifetime', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const auth = new AuthManager('secret', null, { expiry: 'sliding', ttlMs: 1000, maxLifetimeMs: 2500 });
+    const session = await auth.createSession('user-1', ['read']);
+
+    vi.advanceTimersByTime(800);
+    expect(await auth.validateSession(session.id)).not.toBeNull();
+    vi.advanceTimersByTime(800);
+    expect(await auth.validateSession(session.id)).not.toBeNull();
+    vi.advanceTimersByTime(800);
+    expect(await auth.validateSession(session.id)).not.toBeNull();
+    vi.advanceTimersByTime(800);
+
+    expect(await auth.validateSession(session.id)).toBeNull();
+    await auth.close();
+  });
+
+  it('writes last activity back at most once per touch interval', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new MemorySessionStore();
+    const auth = new AuthManager('secret', null, { store, expiry: 'sliding', ttlMs: 10_000, touchIntervalMs: 1000 });
+    const session = await auth.createSession('user-1', ['read']);
+    const set = vi.spyOn(store, 'set');
+
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(100);
+      await auth.validateSession(session.id);
+    }
+    expect(set).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(600);
+    await auth.validateSession(session.id);
+
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(session.id).toMatch(/^[0-9a-f]{32}$/);
+    await auth.close();
+  });
+});
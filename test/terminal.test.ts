@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OutputBuffer, TerminalSessions } from '../src/terminal';
+
+function fakeClient(outputs: any[]) {
+  const readTerminal = vi.fn();
+  for (const output of outputs) {
+    readTerminal.mockResolvedValueOnce(output);
+  }
+  readTerminal.mockResolvedValue({ chunks: [], cursor: 99, exited: false });
+
+  return {
+    openTerminal: vi.fn().mockResolvedValue({ session_id: 'term-1' }),
+    writeTerminal: vi.fn().mockResolvedValue({ success: true }),
+    readTerminal,
+    signalTerminal: vi.fn().mockResolvedValue({ success: true }),
+    closeTerminal: vi.fn().mockResolvedValue({ success: true }),
+  } as any;
+}
+
+describe('OutputBuffer', () => {
+  it('keeps the most recent output behind a truncation marker', () => {
+    const buffer = new OutputBuffer(10);
+    buffer.append('0123456789');
+    buffer.append('abcde');
+
+    expect(buffer.truncated).toBe(true);
+    expect(buffer.toString()).toBe('[... 5 bytes truncated ...]\n56789abcde');
+  });
+});
+
+describe('TerminalSessions', () => {
+  it('runs a command to completion and streams chunks as progress', async () => {
+    const client = fakeClient([
+      { chunks: [{ stream: 'stdout', data: 'building\n' }], cursor: 1, exited: false },
+      { chunks: [{ stream: 'stderr', data: 'warning\n' }], cursor: 2, exited: true, exit_code: 0 },
+    ]);
+    const terminals = new TerminalSessions(client, { pollIntervalMs: 1 });
+    const sendNotification = vi.fn();
+
+    const result = await terminals.run('agent-1', 'npm test', { progressToken: 'p1', sendNotification });
+
+    expect(client.openTerminal).toHaveBeenCalledWith('agent-1', 'npm test');
+    expect(result).toMatchObject({ output: 'building\nwarning\n', exited: true, exit_code: 0 });
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(sendNotification.mock.calls[1][0].params).toEqual({
+      progressToken: 'p1',
+      progress: 17,
+      message: '[stderr] warning\n',
+    });
+    expect(client.closeTerminal).toHaveBeenCalledWith('agent-1', 'term-1');
+    terminals.dispose();
+  });
+
+  it('interrupts the command when the request is cancelled', async () => {
+    const client = fakeClient([]);
+    const terminals = new TerminalSessions(client, { pollIntervalMs: 1000 });
+    const controller = new AbortController();
+
+    const run = terminals.run('agent-1', 'sleep 600', { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort(new Error('cancelled'));
+
+    await expect(run).rejects.toThrow('cancelled');
+    expect(client.signalTerminal).toHaveBeenCalledWith('agent-1', 'term-1', 'SIGINT');
+    terminals.dispose();
+  });
+
+  it('does not let other sessions use a terminal', async () => {
+    const terminals = new TerminalSessions(fakeClient([]));
+    const { terminal_id } = await terminals.open('agent-1', { sessionId: 'session-a' });
+
+    await expect(terminals.write(terminal_id, 'ls\n', { sessionId: 'session-b' }))
+      .rejects.toMatchObject({ code: -32602 });
+    terminals.dispose();
+  });
+
+  it('holds input back until a shell would run it as a complete command', async () => {
+    const terminals = new TerminalSessions(fakeClient([]));
+    const { terminal_id } = await terminals.open('agent-1', {});
+    const write = (input: string) => terminals.completeCommands(terminal_id, input, {});
+
+    expect(write('rm -rf \\\n')).toEqual({ commands: [], text: '' });
+    expect(write('/\n')).toEqual({ commands: ['rm -rf /'], text: 'rm -rf \\\n/\n' });
+    expect(write('echo "a\nb"\nls\r')).toEqual({ commands: ['echo "a\nb"', 'ls'], text: 'echo "a\nb"\nls\r' });
+    expect(write("cat <<-'EOF' > run.sh\nrm -rf /\n")).toEqual({ commands: [], text: '' });
+    expect(write('\tEOF\n').commands).toEqual(["cat <<-'EOF' > run.sh\nrm -rf /\n\tEOF"]);
+    expect(write("# it's fine\n").commands).toEqual(["# it's fine"]);
+    terminals.dispose();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fetch from 'node-fetch';
+import { BlueprintsAPIClient } from '../src/blueprints-api';
+import { Metrics } from '../src/metrics';
+import { OTLPFileSpanExporter, SpanData, Tracer, parseTraceparent } from '../src/tracing';
+
+vi.mock('node-fetch', () => ({ default: vi.fn() }));
+
+const fetchMock = vi.mocked(fetch);
+
+function collector() {
+  const spans: SpanData[] = [];
+  return { spans, tracer: new Tracer({ exporters: [{ export: (batch) => spans.push(...batch) }] }) };
+}
+
+describe('Tracer', () => {
+  it('continues an incoming trace and nests spans started inside another', async () => {
+    const { spans, tracer } = collector();
+    const incoming = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    await tracer.withSpan('tools/call list_agents', { kind: 'server', parent: parseTraceparent(incoming) }, () =>
+      tracer.withSpan('GET /agents', { kind: 'client' }, async () => undefined)
+    );
+
+    const [client, server] = spans;
+    expect(server.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+    expect(server.parentSpanId).toBe('b7ad6b7169203331');
+    expect(client.traceId).toBe(server.traceId);
+    expect(client.parentSpanId).toBe(server.spanId);
+  });
+
+  it('marks spans whose work throws as failed', async () => {
+    const { spans, tracer } = collector();
+
+    await expect(
+      tracer.withSpan('boom', {}, async () => {
+        throw new Error('exploded');
+      })
+    ).rejects.toThrow('exploded');
+    expect(spans[0].status).toEqual({ code: 'error', message: 'exploded' });
+  });
+
+  it('writes OTLP/JSON lines to a file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'traces-'));
+    try {
+      const file = join(dir, 'spans.jsonl');
+      const tracer = new Tracer({ exporters: [new OTLPFileSpanExporter(file, 'test-service')] });
+      await tracer.withSpan('ping', { attributes: { 'mcp.method.name': 'ping' } }, async () => undefined);
+
+      const request = JSON.parse(readFileSync(file, 'utf8').trim());
+      const span = request.resourceSpans[0].scopeSpans[0].spans[0];
+      expect(request.resourceSpans[0].resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'test-service' } },
+      ]);
+      expect(span.name).toBe('ping');
+      expect(span.attributes).toEqual([{ key: 'mcp.method.name', value: { stringValue: 'ping' } }]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('BlueprintsAPIClient instrumentation', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+
+  it('propagates traceparent and records call durations per route', async () => {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ id: 'a1', status: 'running', health: 'healthy', stats: {} }), { status: 200 }) as any);
+    const { spans, tracer } = collector();
+    const metrics = new Metrics();
+    const client = new BlueprintsAPIClient('https://api.example.com', 'bp_sk_test_key', { tracer, metrics });
+
+    await client.agentStatus('a1');
+
+    const headers = fetchMock.mock.calls[0][1]!.headers as Record<string, string>;
+    expect(parseTraceparent(headers.traceparent)?.spanId).toBe(spans[0].spanId);
+    expect(spans[0]).toMatchObject({ name: 'GET /agents/:id/status', kind: 'client' });
+    expect(spans[0].attributes['http.response.status_code']).toBe(200);
+    expect(await metrics.registry.render()).toContain(
+      'blueprints_api_request_duration_seconds_count{method="GET",route="/agents/:id/status",status="200"} 1'
+    );
+  });
+});
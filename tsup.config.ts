@@ -3,7 +3,7 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: [
     'src/index.ts',
-    'src/transports/http.ts',
+    'src/bin.ts',
   ],
   outDir: 'dist',
   format: ['cjs', 'esm'],